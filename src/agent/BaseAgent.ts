@@ -4,11 +4,13 @@
  *  - Their own wallet (isolated key + funds)
  *  - A decision-making cycle (think → decide → act)
  *  - State machine: idle → thinking → acting → idle
- *  - Full observability via event emitter
+ *  - Full observability via event emitter, and on-chain memos tagging each
+ *    transaction with its cycle and action
  */
 
 import { EventEmitter } from 'events';
 import { AgentWallet } from '../wallet/AgentWallet';
+import { ApprovalPending } from '../wallet/ApprovalQueue';
 import { logger } from '../utils/logger';
 import { metrics } from '../metrics/Metrics';
 import * as fs from 'fs';
@@ -140,13 +142,23 @@ export abstract class BaseAgent extends EventEmitter {
         this.state = 'acting';
         this.emit('action', { agentId: this.id, action, cycle: this.cycleCount });
         this.logEvent({ type: 'action', agentId: this.id, action, cycle: this.cycleCount, ts: Date.now() });
-        await this.act(action);
+        // Transactions sent while acting carry the cycle and action in their memo
+        await this.wallet.withActivity({ cycle: this.cycleCount, action: action.type }, () => this.act(action));
       }
 
       this.state = 'idle';
       this.emit('cycle_end', { agentId: this.id, cycle: this.cycleCount, action });
       this.logEvent({ type: 'cycle_end', agentId: this.id, cycle: this.cycleCount, ts: Date.now() });
     } catch (err) {
+      if (err instanceof ApprovalPending) {
+        // Not a failure: the action waits in the approval queue and the wallet reports the outcome
+        this.log(`Action parked for approval: ${err.request.id}`);
+        this.emit('approval_pending', { agentId: this.id, request: err.request, cycle: this.cycleCount });
+        this.logEvent({ type: 'approval_pending', agentId: this.id, requestId: err.request.id, cycle: this.cycleCount, ts: Date.now() });
+        this.state = 'idle';
+        this.scheduleNextCycle();
+        return;
+      }
       logger.error(`[${this.name}] Cycle ${this.cycleCount} error: ${err}`);
       this.emit('error', { agentId: this.id, error: err, cycle: this.cycleCount });
       this.logEvent({ type: 'error', agentId: this.id, cycle: this.cycleCount, error: String(err), ts: Date.now() });
@@ -18,7 +18,7 @@ import { createPoolOracle } from '../oracles/OracleFactory';
 import { logger } from '../utils/logger';
 
 export interface LiquidityAgentConfig extends AgentConfig {
-  poolAddress?: string;
+  poolAddress?: string; // address or address book label
   targetImbalanceThreshold?: number; // % imbalance to trigger provide
   impermanentLossLimit?: number;     // % IL to trigger remove
   maxLiquiditySOL?: number;
@@ -35,7 +35,7 @@ export class LiquidityAgent extends BaseAgent {
 
   constructor(config: LiquidityAgentConfig) {
     super(config);
-    this.poolAddress = config.poolAddress || PublicKey.default.toBase58();
+    this.poolAddress = config.wallet.resolveAddress(config.poolAddress || PublicKey.default.toBase58());
     this.targetImbalanceThreshold = config.targetImbalanceThreshold || 5;
     this.impermanentLossLimit = config.impermanentLossLimit || 3;
     this.maxLiquiditySOL = config.maxLiquiditySOL || 0.2;
@@ -110,9 +110,10 @@ export class LiquidityAgent extends BaseAgent {
     switch (action.type) {
       case 'PROVIDE_LIQUIDITY': {
         const amount = action.params.amount as number;
-        this.log(`PROVIDE ${amount} SOL → pool ${this.poolAddress.slice(0, 8)}… | ${action.reasoning}`);
+        const pool = this.wallet.getAddressBook().display(this.poolAddress);
+        this.log(`PROVIDE ${amount} SOL → pool ${pool} | ${action.reasoning}`);
         // Send SOL to pool address as proxy for LP deposit on devnet
-        await this.wallet.sendSOL(this.poolAddress.slice(0, 44), amount);
+        await this.wallet.sendSOL(this.poolAddress, amount);
         this.providedLiquidity += amount;
         this.entryPoolRatio = action.params.targetRatio as number;
         break;
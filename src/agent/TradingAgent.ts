@@ -23,7 +23,7 @@ export interface TradingAgentConfig extends AgentConfig {
   tradingPair?: string;
   maxPositionSOL?: number;
   spreadThreshold?: number; // min price delta % to trigger trade
-  counterpartyAddress?: string; // devnet address to simulate trades against
+  counterpartyAddress?: string; // devnet address or address book label to simulate trades against
 }
 
 interface PriceHistory {
@@ -49,8 +49,9 @@ export class TradingAgent extends BaseAgent {
     this.tradingPair = config.tradingPair || 'SOL/USDC';
     this.maxPositionSOL = config.maxPositionSOL || 0.1;
     this.spreadThreshold = config.spreadThreshold || 0.5;
-    this.counterpartyAddress =
-      config.counterpartyAddress || '11111111111111111111111111111111';
+    this.counterpartyAddress = config.wallet.resolveAddress(
+      config.counterpartyAddress || '11111111111111111111111111111111'
+    );
   }
 
   protected async observe(): Promise<Record<string, unknown>> {
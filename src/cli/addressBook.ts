@@ -0,0 +1,82 @@
+/**
+ * addressBook.ts
+ * Manage the shared address book: labelled counterparties that send APIs and
+ * spend policies can name instead of raw addresses.
+ *
+ * Run: npm run addresses                                  (all entries)
+ *      npm run addresses -- list [type]
+ *      npm run addresses -- add <label> <address> [type] [--agents a,b] [--notes text]
+ *      npm run addresses -- remove <label>
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { AddressBook, AddressEntry, AddressType } from '../wallet/AddressBook';
+
+function printTable(entries: AddressEntry[]): void {
+  if (entries.length === 0) {
+    console.log(chalk.gray('Address book is empty.'));
+    return;
+  }
+  const table = new Table({
+    head: ['Label', 'Address', 'Type', 'Agents', 'Notes'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  for (const e of entries) {
+    table.push([chalk.yellow(e.label), e.address, e.type, e.allowedAgents?.join(', ') || chalk.gray('all'), e.notes || '']);
+  }
+  console.log(table.toString());
+}
+
+/** Value of `--name value` in args, removing both from the list */
+function takeOption(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  if (i < 0) return undefined;
+  const [, value] = args.splice(i, 2);
+  return value;
+}
+
+function main() {
+  const [command = 'list', ...args] = process.argv.slice(2);
+  const book = new AddressBook();
+
+  switch (command) {
+    case 'list':
+      printTable(book.list({ type: args[0] as AddressType | undefined }));
+      break;
+    case 'add': {
+      const agents = takeOption(args, 'agents');
+      const notes = takeOption(args, 'notes');
+      const [label, address, type = 'wallet'] = args;
+      if (!label || !address) throw new Error('Usage: npm run addresses -- add <label> <address> [type] [--agents a,b] [--notes text]');
+      const entry = book.save({
+        label,
+        address,
+        type: type as AddressType,
+        allowedAgents: agents ? agents.split(',').map((a) => a.trim()) : undefined,
+        notes,
+      });
+      console.log(chalk.green(`Saved ${entry.label} → ${entry.address} (${entry.type})`));
+      break;
+    }
+    case 'remove': {
+      const [label] = args;
+      if (!label) throw new Error('Usage: npm run addresses -- remove <label>');
+      if (!book.remove(label)) throw new Error(`No address book entry labelled ${label}`);
+      console.log(chalk.green(`Removed ${label}`));
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+  process.exit(1);
+}
@@ -0,0 +1,73 @@
+/**
+ * approvals.ts
+ * Review the approval queue: list parked writes and approve or reject them.
+ * The owning agent executes approved requests on its next poll.
+ *
+ * Run: npm run approvals                      (pending requests)
+ *      npm run approvals -- list --all
+ *      npm run approvals -- approve <id> [note]
+ *      npm run approvals -- reject <id> [note]
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { ApprovalQueue, ApprovalRequest } from '../wallet/ApprovalQueue';
+
+function printTable(requests: ApprovalRequest[]): void {
+  if (requests.length === 0) {
+    console.log(chalk.gray('No approval requests.'));
+    return;
+  }
+  const table = new Table({
+    head: ['ID', 'Agent', 'Action', 'Amount', 'Reason', 'Status', 'Expires'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  for (const r of requests) {
+    const unit = r.intent.kind === 'SPL' ? `tokens (${r.intent.mint?.slice(0, 8)}…)` : 'SOL';
+    table.push([
+      chalk.yellow(r.id),
+      r.agentId,
+      r.action.type,
+      `${r.intent.amount} ${unit}`,
+      r.reason,
+      r.status === 'pending' ? chalk.cyan(r.status) : r.status,
+      new Date(r.expiresAt).toLocaleString(),
+    ]);
+  }
+  console.log(table.toString());
+}
+
+function main() {
+  const [command = 'list', ...args] = process.argv.slice(2);
+  const queue = new ApprovalQueue();
+  const by = process.env.USER || 'cli';
+  queue.expireStale();
+
+  switch (command) {
+    case 'list':
+      printTable(args.includes('--all') ? queue.list() : queue.list({ status: 'pending' }));
+      break;
+    case 'approve':
+    case 'reject': {
+      const [id, ...note] = args;
+      if (!id) throw new Error(`Usage: npm run approvals -- ${command} <id> [note]`);
+      const request =
+        command === 'approve' ? queue.approve(id, by, note.join(' ') || undefined) : queue.reject(id, by, note.join(' ') || undefined);
+      const color = request.status === 'approved' ? chalk.green : chalk.red;
+      console.log(color(`Request ${id} ${request.status} by ${by}`));
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+  process.exit(1);
+}
@@ -12,7 +12,7 @@ dotenv.config();
 
 import chalk from 'chalk';
 import { createConnection } from '../utils/connection';
-import { KeyManager } from '../wallet/KeyManager';
+import { createKeyStore } from '../wallet/KeyStoreFactory';
 import { WalletRegistry } from '../wallet/WalletRegistry';
 import { DashboardServer } from '../dashboard/DashboardServer';
 import { RealTimeMetricsService } from '../dashboard/RealTimeMetricsService';
@@ -21,8 +21,8 @@ async function main() {
   console.log(chalk.cyan('\n🚀 Starting Solana Agentic Wallet Dashboard\n'));
 
   const connection = createConnection();
-  const keyManager = new KeyManager();
-  const registry = new WalletRegistry(connection, keyManager);
+  const keyStore = await createKeyStore();
+  const registry = new WalletRegistry(connection, keyStore);
 
   // Restore existing wallets
   const restored = registry.restoreAll();
@@ -0,0 +1,108 @@
+/**
+ * hdWallet.ts
+ * Derive agent keys from one BIP39 mnemonic instead of generating each at random.
+ *
+ * Run: npm run hd -- init                  (new 24-word mnemonic, shown once; or HD_MNEMONIC=… to use yours)
+ *      npm run hd -- status                (derived keys and their indices)
+ *      HD_MNEMONIC=… npm run hd -- recover [--gap 20]
+ *
+ * `init` switches the key store to HD mode: every key created afterwards is
+ * derived at the next index of m/44'/501'/n'/0'. `recover` rebuilds an empty
+ * key store from the mnemonic alone, finding used keys on chain and naming them
+ * from their memo tags. HD_PASSPHRASE is the optional BIP39 passphrase.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { createConnection } from '../utils/connection';
+import { KeyManager } from '../wallet/KeyManager';
+import { generateMnemonic, hdPath, recoverFromMnemonic } from '../wallet/HdWallet';
+
+function init(keyManager: KeyManager) {
+  const given = process.env.HD_MNEMONIC;
+  const mnemonic = given || generateMnemonic();
+  keyManager.initHd(mnemonic, process.env.HD_PASSPHRASE);
+  if (given) {
+    console.log(chalk.green('HD seed stored from HD_MNEMONIC. New agent keys derive from it.'));
+    return;
+  }
+  console.log(chalk.green('HD seed stored. Write this mnemonic down; it is not shown again:\n'));
+  console.log(chalk.yellow(`  ${mnemonic}\n`));
+  console.log(chalk.gray('It recreates every agent key: npm run hd -- recover'));
+}
+
+function status(keyManager: KeyManager) {
+  if (!keyManager.isHd()) {
+    console.log(chalk.gray('No HD seed; agent keys are generated at random. Run `npm run hd -- init`.'));
+    return;
+  }
+  const table = new Table({
+    head: ['Index', 'Path', 'Agent ID', 'Public Key'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  const metas = keyManager.listKeys().sort((a, b) => (a.derivationIndex ?? Infinity) - (b.derivationIndex ?? Infinity));
+  for (const meta of metas) {
+    const derived = meta.derivationIndex !== undefined;
+    table.push([
+      derived ? String(meta.derivationIndex) : chalk.gray('-'),
+      derived ? hdPath(meta.derivationIndex!) : chalk.gray('random'),
+      meta.retiredAt ? chalk.gray(meta.agentId) : chalk.yellow(meta.agentId),
+      chalk.gray(meta.publicKey),
+    ]);
+  }
+  console.log(table.toString());
+}
+
+async function recover(keyManager: KeyManager, args: string[]) {
+  const mnemonic = process.env.HD_MNEMONIC;
+  if (!mnemonic) throw new Error('Set HD_MNEMONIC to the mnemonic to recover from');
+  const gap = args.indexOf('--gap');
+  const gapLimit = gap >= 0 ? parseInt(args[gap + 1]) : undefined;
+  console.log(chalk.cyan('\n🔎 Scanning derived addresses for on-chain history…\n'));
+  const recovered = await recoverFromMnemonic(keyManager, createConnection(), mnemonic, {
+    gapLimit,
+    passphrase: process.env.HD_PASSPHRASE,
+  });
+
+  const table = new Table({
+    head: ['Index', 'Agent ID', 'Public Key', 'Named by'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  for (const key of recovered) {
+    table.push([
+      String(key.index),
+      key.retired ? chalk.gray(key.agentId) : chalk.yellow(key.agentId),
+      chalk.gray(key.publicKey),
+      key.named ? 'memo tag' : chalk.gray('index'),
+    ]);
+  }
+  console.log(recovered.length > 0 ? table.toString() : chalk.gray('No used keys found.'));
+}
+
+async function main() {
+  const [command = 'status', ...args] = process.argv.slice(2);
+  const keyManager = new KeyManager();
+  switch (command) {
+    case 'init':
+      init(keyManager);
+      break;
+    case 'status':
+      status(keyManager);
+      break;
+    case 'recover':
+      await recover(keyManager, args);
+      break;
+    default:
+      throw new Error('Usage: npm run hd -- init | status | recover [--gap N]');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+    process.exit(1);
+  });
@@ -0,0 +1,100 @@
+/**
+ * keys.ts
+ * Move agent keys in and out of the encrypted key store.
+ *
+ * Run: npm run keys -- import <agentId> <file> [--label L]   (Solana CLI id.json or a base58 secret)
+ *      npm run keys -- export <agentId> [--format json|base58] [--out file]
+ *      BACKUP_PASSPHRASE=… npm run keys -- backup <file>
+ *      BACKUP_PASSPHRASE=… npm run keys -- restore <file>
+ *
+ * `export --format json` writes what `solana-keygen` does, so the file works
+ * with `solana --keypair`. A backup holds every key and its metadata encrypted
+ * under BACKUP_PASSPHRASE; `restore` needs an empty key directory and
+ * re-encrypts the keys under this host's ENCRYPTION_SECRET.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import * as fs from 'fs';
+import chalk from 'chalk';
+import { KeyManager } from '../wallet/KeyManager';
+import { SecretKeyFormat } from '../utils/keyFormats';
+
+function option(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function passphrase(): string {
+  const value = process.env.BACKUP_PASSPHRASE;
+  if (!value) throw new Error('Set BACKUP_PASSPHRASE to the backup passphrase');
+  return value;
+}
+
+/** Write a secret to `file`, readable by the owner only */
+function writeSecret(file: string, data: string | Buffer) {
+  fs.writeFileSync(file, data, { mode: 0o600 });
+  fs.chmodSync(file, 0o600); // writeFileSync keeps the mode of an existing file
+}
+
+function importKey(keyManager: KeyManager, [agentId, file, ...args]: string[]) {
+  if (!agentId || !file) throw new Error('Usage: npm run keys -- import <agentId> <file> [--label L]');
+  const meta = keyManager.importKey(agentId, fs.readFileSync(file, 'utf-8'), option(args, '--label'));
+  console.log(chalk.green(`Imported ${chalk.yellow(meta.publicKey)} as ${meta.agentId}`));
+}
+
+function exportKey(keyManager: KeyManager, [agentId, ...args]: string[]) {
+  if (!agentId) throw new Error('Usage: npm run keys -- export <agentId> [--format json|base58] [--out file]');
+  const format = (option(args, '--format') || 'json') as SecretKeyFormat;
+  if (format !== 'json' && format !== 'base58') throw new Error(`Unknown format: ${format}`);
+  const secret = keyManager.exportKey(agentId, format);
+  const out = option(args, '--out');
+  if (!out) {
+    console.log(secret);
+    return;
+  }
+  writeSecret(out, secret + '\n');
+  console.log(chalk.green(`Wrote the secret key of ${agentId} to ${out}`) + chalk.gray(' (anyone with this file controls the wallet)'));
+}
+
+function backup(keyManager: KeyManager, [file]: string[]) {
+  if (!file) throw new Error('Usage: BACKUP_PASSPHRASE=… npm run keys -- backup <file>');
+  writeSecret(file, keyManager.createBackup(passphrase()));
+  console.log(chalk.green(`Backed up ${keyManager.listKeyFiles().length} key file(s) to ${file}`));
+}
+
+function restore(keyManager: KeyManager, [file]: string[]) {
+  if (!file) throw new Error('Usage: BACKUP_PASSPHRASE=… npm run keys -- restore <file>');
+  const restored = keyManager.restoreBackup(fs.readFileSync(file), passphrase());
+  console.log(chalk.green(`Restored ${restored.length} key file(s):`));
+  for (const agentId of restored) console.log(`  ${chalk.yellow(agentId)}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const keyManager = new KeyManager();
+  switch (command) {
+    case 'import':
+      importKey(keyManager, args);
+      break;
+    case 'export':
+      exportKey(keyManager, args);
+      break;
+    case 'backup':
+      backup(keyManager, args);
+      break;
+    case 'restore':
+      restore(keyManager, args);
+      break;
+    default:
+      throw new Error('Usage: npm run keys -- import | export | backup | restore');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+    process.exit(1);
+  });
@@ -0,0 +1,61 @@
+/**
+ * migrateKeys.ts
+ * Rewrite .agent-keys/*.key files in place in the current key file format
+ * (per-file salt, scrypt with the configured cost). Version 0 files are
+ * migrated; version 1 files with other KDF parameters are re-derived, so
+ * raising KEY_KDF_LOG_N and re-running this applies the new cost everywhere.
+ *
+ * Run: npm run migrate-keys
+ *      npm run migrate-keys -- --dry-run
+ *
+ * Version 0 files encrypted under an older secret (e.g. the development default)
+ * are read with LEGACY_ENCRYPTION_SECRET and re-encrypted with ENCRYPTION_SECRET.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { KeyManager } from '../wallet/KeyManager';
+
+function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const keyManager = new KeyManager();
+  const ids = keyManager.listKeyFiles();
+  if (ids.length === 0) {
+    console.log(chalk.gray('No key files found.'));
+    return;
+  }
+
+  const table = new Table({
+    head: ['Agent ID', 'Format', 'Result'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  let failed = 0;
+  for (const id of ids) {
+    let format = '?';
+    try {
+      const info = keyManager.inspectKey(id);
+      format = info.version === 0 ? 'v0 (sha256)' : `v1 (scrypt 2^${info.kdf.logN}, r=${info.kdf.r}, p=${info.kdf.p})`;
+      if (dryRun) {
+        table.push([chalk.yellow(id), format, chalk.gray('dry run')]);
+        continue;
+      }
+      const result = keyManager.migrateKey(id, process.env.LEGACY_ENCRYPTION_SECRET);
+      table.push([chalk.yellow(id), format, result === 'current' ? chalk.gray(result) : chalk.green(result)]);
+    } catch (err) {
+      failed++;
+      table.push([chalk.yellow(id), format, chalk.red(err instanceof Error ? err.message : String(err))]);
+    }
+  }
+  console.log(table.toString());
+  if (failed > 0) process.exitCode = 1;
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+  process.exit(1);
+}
@@ -12,7 +12,7 @@ dotenv.config();
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { createConnection } from '../utils/connection';
-import { KeyManager } from '../wallet/KeyManager';
+import { createKeyStore } from '../wallet/KeyStoreFactory';
 import { WalletRegistry } from '../wallet/WalletRegistry';
 import { EnhancedObserver } from '../dashboard/EnhancedObserver';
 
@@ -65,8 +65,8 @@ async function renderDashboard(registry: WalletRegistry) {
 
 async function main() {
   const connection = createConnection();
-  const keyManager = new KeyManager();
-  const registry = new WalletRegistry(connection, keyManager);
+  const keyStore = await createKeyStore();
+  const registry = new WalletRegistry(connection, keyStore);
 
   const restored = registry.restoreAll();
   if (restored === 0) {
@@ -0,0 +1,54 @@
+/**
+ * reconcile.ts
+ * Reconcile every stored agent wallet's journal against on-chain history.
+ *
+ * Run: npm run reconcile
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { createConnection } from '../utils/connection';
+import { createKeyStore } from '../wallet/KeyStoreFactory';
+import { WalletRegistry } from '../wallet/WalletRegistry';
+
+async function main() {
+  const connection = createConnection();
+  const keyStore = await createKeyStore();
+  const registry = new WalletRegistry(connection, keyStore);
+
+  const restored = registry.restoreAll();
+  if (restored === 0) {
+    console.log(chalk.yellow('No agent wallets found. Run `npm run demo` first.'));
+    process.exit(0);
+  }
+
+  console.log(chalk.cyan(`\n🔎 Reconciling ${restored} agent wallet(s) against the ledger…\n`));
+  const reports = await registry.reconcileAll();
+
+  const table = new Table({
+    head: ['Agent ID', 'Checked', 'Finalized', 'Failed', 'Dropped', 'Scanned', 'Imported', 'Accounted'].map((h) => chalk.white(h)),
+    style: { border: ['gray'], head: [] },
+  });
+  for (const r of reports) {
+    table.push([
+      chalk.yellow(r.agentId),
+      String(r.checked),
+      chalk.green(String(r.finalized)),
+      chalk.red(String(r.failed)),
+      chalk.red(String(r.dropped)),
+      String(r.scanned),
+      chalk.cyan(String(r.imported)),
+      String(r.accounted),
+    ]);
+  }
+  console.log(table.toString());
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error(chalk.red(`Reconcile failed: ${err}`));
+  process.exit(1);
+});
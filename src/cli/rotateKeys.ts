@@ -0,0 +1,72 @@
+/**
+ * rotateKeys.ts
+ * Rotate the encryption secret or an agent's keypair.
+ *
+ * Run: NEW_ENCRYPTION_SECRET=… npm run rotate-keys -- secret
+ *      npm run rotate-keys -- agent <agentId>
+ *
+ * `secret` re-encrypts every key file under NEW_ENCRYPTION_SECRET; nothing
+ * changes unless all of them re-encrypt. Stop running agents first, then
+ * replace ENCRYPTION_SECRET with the new value.
+ *
+ * `agent` generates a new keypair for the agent, sweeps its SOL and tokens to
+ * it and archives the old key (through the signer daemon if SIGNER_SOCKET or
+ * SIGNER_URL is set). Re-run it to resume a rotation whose sweep failed.
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { createConnection } from '../utils/connection';
+import { KeyManager } from '../wallet/KeyManager';
+import { createKeyStore } from '../wallet/KeyStoreFactory';
+import { WalletRegistry } from '../wallet/WalletRegistry';
+
+function rotateSecret(keyManager: KeyManager) {
+  const next = process.env.NEW_ENCRYPTION_SECRET;
+  if (!next) throw new Error('Set NEW_ENCRYPTION_SECRET to the secret to rotate to');
+  const ids = keyManager.rotateSecret(next);
+  console.log(chalk.green(`Re-encrypted ${ids.length} key file(s).`));
+  console.log(chalk.yellow('Set ENCRYPTION_SECRET to the new secret before starting any agent.'));
+}
+
+async function rotateAgent(agentId?: string) {
+  if (!agentId) throw new Error('Usage: npm run rotate-keys -- agent <agentId>');
+  const registry = new WalletRegistry(createConnection(), await createKeyStore());
+  const rotation = await registry.rotateAgentKey(agentId);
+
+  const table = new Table({ style: { border: ['gray'], head: [] } });
+  table.push(
+    { 'Previous key': rotation.previous },
+    { 'New key': rotation.current || chalk.red('not rotated') },
+    { 'SOL swept': String(rotation.sweep.sol) },
+    { 'Tokens swept': rotation.sweep.tokens.map((t) => `${t.amount} ${t.mint.slice(0, 8)}…`).join(', ') || '-' },
+    { Signatures: rotation.sweep.signatures.join('\n') || '-' }
+  );
+  if (rotation.retired) table.push({ 'Archived as': rotation.retired.archivedAs });
+  console.log(table.toString());
+  if (rotation.error) throw new Error(rotation.error);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  switch (command) {
+    case 'secret':
+      rotateSecret(new KeyManager());
+      break;
+    case 'agent':
+      await rotateAgent(args[0]);
+      break;
+    default:
+      throw new Error('Usage: npm run rotate-keys -- secret | agent <agentId>');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(chalk.red(`${err instanceof Error ? err.message : err}`));
+    process.exit(1);
+  });
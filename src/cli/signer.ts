@@ -0,0 +1,38 @@
+/**
+ * signer.ts
+ * Run the signer daemon: the only process that decrypts agent keys. Agents
+ * started with the same SIGNER_SOCKET (or SIGNER_URL and SIGNER_TOKEN) sign
+ * through it and never hold a secret key.
+ *
+ * Run: npm run signer                          (Unix socket, SIGNER_SOCKET or .agent-keys/signer.sock)
+ *      SIGNER_PORT=7070 SIGNER_TOKEN=… npm run signer   (TCP on 127.0.0.1)
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config();
+
+import chalk from 'chalk';
+import * as path from 'path';
+import { KeyManager } from '../wallet/KeyManager';
+import { SignerDaemon, SignerListenTarget } from '../wallet/SignerDaemon';
+
+async function main() {
+  const keyManager = new KeyManager();
+  const daemon = new SignerDaemon(keyManager);
+  const target: SignerListenTarget = process.env.SIGNER_PORT
+    ? { port: parseInt(process.env.SIGNER_PORT), host: process.env.SIGNER_HOST }
+    : { socketPath: path.resolve(process.env.SIGNER_SOCKET || path.join('.agent-keys', 'signer.sock')) };
+  await daemon.listen(target);
+  console.log(chalk.green(`🔐 Signer daemon serving ${keyManager.listKeys().length} key(s). Ctrl+C to stop.`));
+
+  const stop = () => {
+    daemon.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((err) => {
+  console.error(chalk.red(`Signer failed: ${err instanceof Error ? err.message : err}`));
+  process.exit(1);
+});
@@ -7,14 +7,45 @@
  * Date: February 2026
  */
 
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
 import { Server } from 'http';
 import { Socket, Server as SocketIOServer } from 'socket.io';
 import path from 'path';
 import { WalletRegistry } from '../wallet/WalletRegistry';
+import { TransactionRecord } from '../wallet/AgentWallet';
+import { ADDRESS_TYPES } from '../wallet/AddressBook';
+import { ApprovalStatus } from '../wallet/ApprovalQueue';
+import { isAgentId } from '../wallet/KeyStore';
+import { BalanceChange, IncomingTransfer } from '../wallet/SubscriptionManager';
 import { KeyManager } from '../wallet/KeyManager';
 import { createConnection } from '../utils/connection';
 import { logger } from '../utils/logger';
+import { SiwsError, SiwsNonces, siwsChainId, verifySiws } from '../utils/siws';
+
+interface AgentSession {
+  agentId: string;
+  publicKey: string;
+  expiresAt: number;
+}
+
+const AGENT_SESSION_MS = 60 * 60 * 1000;
+const MAX_AGENT_SESSIONS = 1_000;
+
+// Allowed values of the query-string filters
+const TX_TYPES: TransactionRecord['type'][] = ['SOL_TRANSFER', 'SPL_TRANSFER', 'AIRDROP', 'DEPOSIT', 'CUSTOM', 'NONCE', 'SWEEP', 'STAKE'];
+const TX_STATUSES: TransactionRecord['status'][] = [
+  'pending', 'awaiting_signatures', 'confirmed', 'finalized', 'failed', 'dropped', 'simulated',
+];
+const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired', 'executing', 'executed', 'failed'];
+
+/** A malformed query string; answered with 400 */
+class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
 
 export class DashboardServer {
   private app: express.Application;
@@ -22,9 +53,15 @@ export class DashboardServer {
   private io: SocketIOServer;
   private port: number;
   private registry!: WalletRegistry;
+  private domain: string;
+  private nonces = new SiwsNonces();
+  private agentSessions = new Map<string, AgentSession>(); // bearer token → signed-in agent
+  private approvers: { name: string; token: Buffer }[];      // operators allowed to decide approvals
 
   constructor(port: number = 3000) {
     this.port = port;
+    this.domain = process.env.DASHBOARD_DOMAIN || `localhost:${port}`;
+    this.approvers = parseApprovalTokens(process.env.APPROVAL_TOKENS || '');
     this.app = express();
     this.setupExpress();
     this.server = new Server(this.app);
@@ -39,6 +76,7 @@ export class DashboardServer {
   private setupExpress(): void {
     // Serve static files from public directory
     this.app.use(express.static(path.join(__dirname, 'public')));
+    this.app.use(express.json());
     
     // Serve the main dashboard page
     this.app.get('/', (req: Request, res: Response) => {
@@ -70,6 +108,118 @@ export class DashboardServer {
       }
     });
 
+    const requireAgent = (req: Request, res: Response, next: NextFunction) => this.requireAgent(req, res, next);
+
+    // Agent-originated: an agent signed in with SIWS reads its own statement
+    this.app.get('/api/agents/:id/statement', requireAgent, (req: Request, res: Response) => {
+      const { id } = req.params as { id: string };
+      const session = res.locals.agent as AgentSession;
+      if (session.agentId !== id) {
+        res.status(403).json({ error: `Signed in as ${session.agentId}, not ${id}` });
+        return;
+      }
+      const wallet = this.registry.get(id);
+      if (!wallet) {
+        res.status(404).json({ error: `Unknown agent: ${id}` });
+        return;
+      }
+      const q = req.query as Record<string, string | undefined>;
+      try {
+        res.json(wallet.getStatement({ since: dateValue(q.since, 'since'), until: dateValue(q.until, 'until') }));
+      } catch (error) {
+        res.status(error instanceof QueryError ? 400 : 500).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/api/transactions', (req: Request, res: Response) => {
+      try {
+        const q = req.query as Record<string, string | undefined>;
+        const transactions = this.registry.queryTransactions({
+          agentId: agentIdValue(q.agentId),
+          status: filterValue(q.status, TX_STATUSES, 'status'),
+          type: filterValue(q.type, TX_TYPES, 'type'),
+          mint: q.mint,
+          counterparty: q.counterparty,
+          since: dateValue(q.since, 'since'),
+          until: dateValue(q.until, 'until'),
+          limit: limitValue(q.limit, 100),
+        });
+        res.json(this.withCounterparty(transactions));
+      } catch (error) {
+        res.status(error instanceof QueryError ? 400 : 500).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/api/address-book', (req: Request, res: Response) => {
+      const q = req.query as Record<string, string | undefined>;
+      try {
+        res.json(this.registry.getAddressBook().list({ type: filterValue(q.type, ADDRESS_TYPES, 'type'), agentId: agentIdValue(q.agentId) }));
+      } catch (error) {
+        res.status(error instanceof QueryError ? 400 : 500).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/api/approvals', (req: Request, res: Response) => {
+      const q = req.query as Record<string, string | undefined>;
+      try {
+        res.json(this.registry.getApprovalQueue().list({ agentId: agentIdValue(q.agentId), status: filterValue(q.status, APPROVAL_STATUSES, 'status') }));
+      } catch (error) {
+        res.status(error instanceof QueryError ? 400 : 500).json({ error: (error as Error).message });
+      }
+    });
+
+    const requireApprover = (req: Request, res: Response, next: NextFunction) => this.requireApprover(req, res, next);
+
+    this.app.post('/api/approvals/:id/:decision', requireApprover, (req: Request, res: Response) => {
+      const { id, decision } = req.params as { id: string; decision: string };
+      if (decision !== 'approve' && decision !== 'reject') {
+        res.status(404).json({ error: `Unknown decision: ${decision}` });
+        return;
+      }
+      try {
+        const body = (req.body || {}) as { note?: string };
+        res.json(this.decideApproval(id, decision, res.locals.approver as string, body.note));
+      } catch (error) {
+        res.status(409).json({ error: (error as Error).message });
+      }
+    });
+
+    // Sign-In-With-Solana for agent-originated requests: fetch a nonce, sign in, then send the token
+    this.app.get('/api/auth/nonce', (req: Request, res: Response) => {
+      res.json({ domain: this.domain, nonce: this.nonces.issue() });
+    });
+
+    this.app.post('/api/auth/siws', (req: Request, res: Response) => {
+      const { message, signature } = (req.body || {}) as { message?: string; signature?: string };
+      try {
+        if (!message || !signature) throw new SiwsError('message and signature are required');
+        const siws = verifySiws(message, signature, { domain: this.domain, chainId: siwsChainId() });
+        if (!this.nonces.consume(siws.nonce)) throw new SiwsError('Unknown or already used nonce');
+        const wallet = this.registry.getAll().find((w) => w.publicKey === siws.address);
+        if (!wallet) throw new SiwsError(`${siws.address} is not a registered agent`);
+
+        const expiresAt = Math.min(
+          Date.now() + AGENT_SESSION_MS,
+          siws.expirationTime ? new Date(siws.expirationTime).getTime() : Infinity
+        );
+        const token = randomBytes(32).toString('hex');
+        this.pruneAgentSessions();
+        this.agentSessions.set(token, { agentId: wallet.agentId, publicKey: wallet.publicKey, expiresAt });
+        logger.info(`Agent ${wallet.agentId} signed in to the dashboard`);
+        res.json({ token, agentId: wallet.agentId, expiresAt: new Date(expiresAt).toISOString() });
+      } catch (error) {
+        res.status(error instanceof SiwsError ? 401 : 500).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/api/auth/me', requireAgent, (req: Request, res: Response) => {
+      const session = res.locals.agent as AgentSession;
+      res.json({
+        ...this.registry.get(session.agentId)?.getSummary(),
+        expiresAt: new Date(session.expiresAt).toISOString(),
+      });
+    });
+
     this.app.get('/api/metrics', (req: Request, res: Response) => {
       // This would integrate with the Metrics system
       res.json({
@@ -84,7 +234,16 @@ export class DashboardServer {
 
   public async initialize(registry: WalletRegistry): Promise<void> {
     this.registry = registry;
-    
+
+    // Push balance changes as they happen; the periodic update then reads cached balances
+    try {
+      const subscriptions = await registry.startSubscriptions();
+      subscriptions.on('balance_changed', (change: BalanceChange) => this.io.emit('balance-changed', change));
+      subscriptions.on('incoming_transfer', (transfer: IncomingTransfer) => this.io.emit('incoming-transfer', transfer));
+    } catch (error) {
+      logger.warn(`Balance subscriptions unavailable, falling back to polling: ${(error as Error).message}`);
+    }
+
     // Set up Socket.IO events
     this.io.on('connection', (socket: Socket) => {
       logger.info('Dashboard client connected');
@@ -102,6 +261,19 @@ export class DashboardServer {
         clearInterval(interval);
       });
 
+      // Operators authenticate in the handshake: io({ auth: { token } })
+      const approver = this.approverFor(String(socket.handshake.auth?.token || ''));
+      socket.on('approval-decision', (data: { id: string; decision: 'approve' | 'reject'; note?: string }, ack?: (result: unknown) => void) => {
+        try {
+          if (!approver) throw new Error('An operator token (APPROVAL_TOKENS) is required to decide approvals');
+          if (data.decision !== 'approve' && data.decision !== 'reject') throw new Error(`Unknown decision: ${data.decision}`);
+          const request = this.decideApproval(data.id, data.decision, approver, data.note);
+          ack?.({ ok: true, request });
+        } catch (error) {
+          ack?.({ ok: false, error: (error as Error).message });
+        }
+      });
+
       socket.on('agent-control', (data) => {
         // Handle agent control commands
         logger.info(`Received agent control: ${JSON.stringify(data)}`);
@@ -160,6 +332,7 @@ export class DashboardServer {
       socket.emit('update', {
         agents,
         transactions: recentTransactions,
+        approvals: this.registry.getApprovalQueue().list({ status: 'pending' }),
         metrics: this.getCurrentMetrics(),
         timestamp: new Date().toISOString()
       });
@@ -168,9 +341,64 @@ export class DashboardServer {
     }
   }
 
+  /** Middleware for agent-originated routes: a bearer token from /api/auth/siws; sets res.locals.agent */
+  private requireAgent(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    const session = this.agentSessions.get(token);
+    if (!session || session.expiresAt <= Date.now()) {
+      if (session) this.agentSessions.delete(token);
+      res.status(401).json({ error: 'Agent sign-in required' });
+      return;
+    }
+    res.locals.agent = session;
+    next();
+  }
+
+  /** Drop expired sessions, then the oldest ones beyond MAX_AGENT_SESSIONS - 1 to make room for a new one */
+  private pruneAgentSessions(): void {
+    const now = Date.now();
+    for (const [token, session] of this.agentSessions) if (session.expiresAt <= now) this.agentSessions.delete(token);
+    while (this.agentSessions.size >= MAX_AGENT_SESSIONS) this.agentSessions.delete(this.agentSessions.keys().next().value!);
+  }
+
+  /** Middleware for approval decisions: an operator bearer token from APPROVAL_TOKENS; sets res.locals.approver */
+  private requireApprover(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization || '';
+    const approver = this.approverFor(header.startsWith('Bearer ') ? header.slice(7) : '');
+    if (!approver) {
+      res.status(this.approvers.length > 0 ? 401 : 403).json({
+        error: this.approvers.length > 0 ? 'Operator token required' : 'Set APPROVAL_TOKENS to decide approvals from the dashboard',
+      });
+      return;
+    }
+    res.locals.approver = approver;
+    next();
+  }
+
+  /** Operator name for a token, if it is one of APPROVAL_TOKENS */
+  private approverFor(token: string): string | undefined {
+    const given = Buffer.from(token);
+    return this.approvers.find((a) => a.token.length === given.length && timingSafeEqual(a.token, given))?.name;
+  }
+
+  /** Approve or reject a parked request; the owning agent's poller picks up the decision */
+  private decideApproval(id: string, decision: 'approve' | 'reject', by: string, note?: string) {
+    const queue = this.registry.getApprovalQueue();
+    const request = decision === 'approve' ? queue.approve(id, by, note) : queue.reject(id, by, note);
+    logger.info(`Approval request ${id} ${request.status} by ${by}`);
+    this.io.emit('approval-updated', request);
+    return request;
+  }
+
   private getRecentTransactions(): any[] {
-    // This would return actual recent transactions
-    return [];
+    return this.withCounterparty(this.registry.queryTransactions({ limit: 20 }).reverse());
+  }
+
+  /** Add the address book label of each record's destination, if it has one */
+  private withCounterparty<T extends { to?: string }>(records: T[]): (T & { counterparty?: string })[] {
+    const labels = this.registry.getAddressBook().labels();
+    return records.map((r) => ({ ...r, counterparty: r.to ? labels[r.to] : undefined }));
   }
 
   private getCurrentMetrics(): any {
@@ -195,3 +423,47 @@ export class DashboardServer {
     });
   }
 }
+
+/** APPROVAL_TOKENS: comma-separated `name:token` pairs; the name is recorded as `decidedBy` */
+function parseApprovalTokens(value: string): { name: string; token: Buffer }[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(':');
+      if (sep <= 0) throw new Error('APPROVAL_TOKENS entries are name:token');
+      if (entry.length - sep - 1 < 16) throw new Error(`The approval token of ${entry.slice(0, sep)} must be at least 16 characters`);
+      return { name: entry.slice(0, sep), token: Buffer.from(entry.slice(sep + 1)) };
+    });
+}
+
+/** Check a query-string filter against the values it may take; undefined when absent */
+function filterValue<T extends string>(value: string | undefined, allowed: readonly T[], name: string): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new QueryError(`Unknown ${name}: ${value} (expected one of ${allowed.join(', ')})`);
+  }
+  return value as T;
+}
+
+function dateValue(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  if (typeof value !== 'string' || isNaN(date.getTime())) throw new QueryError(`Invalid ${name}: ${value}`);
+  return date;
+}
+
+/** A positive whole number of records */
+function limitValue(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || Number(value) === 0) {
+    throw new QueryError(`Invalid limit: ${value}`);
+  }
+  return Number(value);
+}
+
+function agentIdValue(value: string | undefined): string | undefined {
+  if (value !== undefined && !isAgentId(value)) throw new QueryError(`Invalid agentId: ${value}`);
+  return value;
+}
@@ -10,6 +10,7 @@
 import * as blessed from 'blessed';
 import * as contrib from 'blessed-contrib';
 import { WalletRegistry } from '../wallet/WalletRegistry';
+import { IncomingTransfer } from '../wallet/SubscriptionManager';
 import { KeyManager } from '../wallet/KeyManager';
 import { createConnection } from '../utils/connection';
 import { logger } from '../utils/logger';
@@ -19,6 +20,7 @@ export class EnhancedObserver {
   private grid!: contrib.grid;
   private registry!: WalletRegistry;
   private intervalId: NodeJS.Timeout | null = null;
+  private lastTxAt = new Date();
   
   private agentTable!: contrib.Widgets.TableElement;
   private balanceChart!: contrib.Widgets.BarElement;
@@ -127,6 +129,18 @@ export class EnhancedObserver {
   public async initialize(registry: WalletRegistry): Promise<void> {
     this.registry = registry;
     this.logBox.log('Observer initialized. Starting updates...');
+    try {
+      // Redraw as soon as a balance moves; polling then reads cached balances
+      const subscriptions = await registry.startSubscriptions();
+      subscriptions.on('balance_changed', () => this.updateDisplay());
+      subscriptions.on('incoming_transfer', (transfer: IncomingTransfer) =>
+        this.logBox.log(
+          `Incoming transfer to ${transfer.agentId}: ${transfer.sol} SOL from ${registry.getAddressBook().display(transfer.from)}`
+        )
+      );
+    } catch (error) {
+      this.logBox.log(`Balance subscriptions unavailable: ${(error as Error).message}`);
+    }
     this.startPolling();
   }
 
@@ -163,6 +177,14 @@ export class EnhancedObserver {
 
       this.agentTable.setData({ headers: tableData[0], data: tableData.slice(1) });
 
+      // Log transactions journaled since the last update, with counterparties by label
+      const book = this.registry.getAddressBook();
+      for (const tx of this.registry.queryTransactions({ since: this.lastTxAt })) {
+        const to = tx.to ? ` → ${book.display(tx.to)}` : '';
+        this.logBox.log(`${tx.agentId}: ${tx.type} ${tx.amount}${to} (${tx.status})`);
+        this.lastTxAt = new Date(Math.max(this.lastTxAt.getTime(), new Date(tx.timestamp).getTime() + 1));
+      }
+
       // Prepare chart data
       const chartLabels: string[] = [];
       const chartData: number[] = [];
@@ -39,6 +39,7 @@ export interface SystemMetrics {
   totalTx: number;
   confirmedTx: number;
   failedTx: number;
+  simulatedTx: number;
   errors: number;
   successRate: number;
 }
@@ -47,8 +48,10 @@ export interface TransactionMetric {
   signature: string;
   type: string;
   amount: number;
+  token?: string;
   from: string;
   to?: string;
+  counterparty?: string; // address book label of `to`
   timestamp: Date;
   status: string;
   agentId: string;
@@ -189,12 +192,28 @@ export class RealTimeMetricsService {
       totalTx: metrics.totalTx,
       confirmedTx: metrics.confirmedTx,
       failedTx: metrics.failedTx,
+      simulatedTx: metrics.simulatedTx,
       errors: metrics.errors,
-      successRate: metrics.totalTx > 0 ? (metrics.confirmedTx / metrics.totalTx) * 100 : 0
+      successRate: metrics.totalTx > 0 ? ((metrics.confirmedTx + metrics.simulatedTx) / metrics.totalTx) * 100 : 0
     };
     
-    // Collect transaction metrics (placeholder - would need to get from wallet histories)
-    const transactionMetrics: TransactionMetric[] = [];
+    // Collect the most recent journaled transactions across all agents
+    const labels = this.registry.getAddressBook().labels();
+    const transactionMetrics: TransactionMetric[] = this.registry
+      .queryTransactions({ limit: 20 })
+      .reverse()
+      .map((t) => ({
+        signature: t.signature,
+        type: t.type,
+        amount: t.amount,
+        token: t.token,
+        from: t.from,
+        to: t.to,
+        counterparty: t.to ? labels[t.to] : undefined,
+        timestamp: t.timestamp,
+        status: t.status,
+        agentId: t.agentId,
+      }));
     
     // Collect performance metrics
     const currentTime = Date.now();
@@ -271,8 +290,9 @@ export class RealTimeMetricsService {
       totalTx: metrics.totalTx,
       confirmedTx: metrics.confirmedTx,
       failedTx: metrics.failedTx,
+      simulatedTx: metrics.simulatedTx,
       errors: metrics.errors,
-      successRate: metrics.totalTx > 0 ? (metrics.confirmedTx / metrics.totalTx) * 100 : 0
+      successRate: metrics.totalTx > 0 ? ((metrics.confirmedTx + metrics.simulatedTx) / metrics.totalTx) * 100 : 0
     };
   }
 }
\ No newline at end of file
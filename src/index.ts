@@ -11,7 +11,7 @@ dotenv.config();
 import chalk from 'chalk';
 import { createConnection } from './utils/connection';
 import { validateConfig } from './utils/config';
-import { KeyManager } from './wallet/KeyManager';
+import { createKeyStore } from './wallet/KeyStoreFactory';
 import { WalletRegistry } from './wallet/WalletRegistry';
 import { TradingAgent } from './agent/TradingAgent';
 import { LiquidityAgent } from './agent/LiquidityAgent';
@@ -35,8 +35,11 @@ async function main() {
   await banner();
 
   const connection = createConnection();
-  const keyManager = new KeyManager();
-  const registry = new WalletRegistry(connection, keyManager);
+  const keyStore = await createKeyStore();
+  const registry = new WalletRegistry(connection, keyStore);
+  registry.startApprovalPoller();
+  registry.startSessionSweeper();
+  await registry.startSubscriptions().catch((err) => logger.warn(`Balance subscriptions unavailable: ${err}`));
   const metricsEnabled = (process.env.METRICS_ENABLE || 'true') !== 'false';
   if (metricsEnabled) {
     const port = parseInt(process.env.METRICS_PORT || '9464');
@@ -65,9 +68,9 @@ async function main() {
   logger.info('Initializing agent wallets…');
 
   // ── Create 3 independent agent wallets ──────────────────────────────────
-  const alphaWallet = registry.getOrCreate('agent-alpha', 'Alpha Trader');
-  const betaWallet  = registry.getOrCreate('agent-beta',  'Beta Trader');
-  const gammaWallet = registry.getOrCreate('agent-gamma', 'Gamma LP');
+  const alphaWallet = await registry.create('agent-alpha', 'Alpha Trader');
+  const betaWallet  = await registry.create('agent-beta',  'Beta Trader');
+  const gammaWallet = await registry.create('agent-gamma', 'Gamma LP');
 
   console.log(chalk.green('\n📍 Agent Wallet Addresses:'));
   for (const w of registry.getAll()) {
@@ -168,12 +171,20 @@ async function main() {
     const summary = agent.getSummary();
     const balance = await agent.wallet.getSOLBalance();
     const txs = agent.wallet.getTransactionHistory();
+    const st = agent.wallet.getStatement();
     console.log(
       chalk.yellow(`\n  ${summary.name}`) +
       chalk.white(` (${summary.state})`) +
       `\n  Cycles: ${summary.cycleCount}` +
       `\n  Balance: ${balance.toFixed(4)} SOL` +
-      `\n  On-chain txs: ${txs.filter((t) => t.status === 'confirmed').length}`
+      `\n  On-chain txs: ${txs.filter((t) => t.status === 'confirmed' || t.status === 'finalized').length}` +
+      (agent.wallet.paper ? `\n  Simulated txs: ${txs.filter((t) => t.status === 'simulated').length}` : '') +
+      `\n  Principal: +${st.principalIn.toFixed(6)} / -${st.principalOut.toFixed(6)} SOL` +
+      `\n  Fees: ${st.networkFees.toFixed(6)} network + ${st.priorityFees.toFixed(6)} priority SOL` +
+      `\n  Rent: ${st.rentPaid.toFixed(6)} paid, ${st.rentReclaimed.toFixed(6)} reclaimed SOL` +
+      `\n  Realized trading P&L: ${st.tradingPnl.toFixed(6)} SOL` +
+      `\n  Net change: ${st.netChange.toFixed(6)} SOL` +
+      (st.unaccounted > 0 ? chalk.gray(` (${st.unaccounted} txs pending breakdown; run npm run reconcile)`) : '')
     );
   }
   console.log(chalk.cyan('\n╚══════════════════════════════════════════════════╝\n'));
@@ -4,13 +4,16 @@ class Metrics {
   totalTx = 0;
   confirmedTx = 0;
   failedTx = 0;
+  simulatedTx = 0; // paper-mode writes; never broadcast
   agentCycles: Record<string, number> = {};
   balances: Record<string, number> = {};
+  policyViolations: Record<string, number> = {};
   errors = 0;
 
-  incTx(status: 'confirmed' | 'failed') {
+  incTx(status: 'confirmed' | 'failed' | 'simulated') {
     this.totalTx++;
     if (status === 'confirmed') this.confirmedTx++;
+    else if (status === 'simulated') this.simulatedTx++;
     else this.failedTx++;
   }
   setBalance(agentId: string, sol: number) {
@@ -19,6 +22,9 @@ class Metrics {
   incCycle(agentId: string) {
     this.agentCycles[agentId] = (this.agentCycles[agentId] || 0) + 1;
   }
+  incPolicyViolation(agentId: string) {
+    this.policyViolations[agentId] = (this.policyViolations[agentId] || 0) + 1;
+  }
   incError() {
     this.errors++;
   }
@@ -27,6 +33,7 @@ class Metrics {
     lines.push(`agent_total_tx ${this.totalTx}`);
     lines.push(`agent_confirmed_tx ${this.confirmedTx}`);
     lines.push(`agent_failed_tx ${this.failedTx}`);
+    lines.push(`agent_simulated_tx ${this.simulatedTx}`);
     lines.push(`agent_errors ${this.errors}`);
     for (const [id, c] of Object.entries(this.agentCycles)) {
       lines.push(`agent_cycles{agent="${id}"} ${c}`);
@@ -34,6 +41,9 @@ class Metrics {
     for (const [id, b] of Object.entries(this.balances)) {
       lines.push(`agent_balance_sol{agent="${id}"} ${b}`);
     }
+    for (const [id, v] of Object.entries(this.policyViolations)) {
+      lines.push(`agent_policy_violations{agent="${id}"} ${v}`);
+    }
     return lines.join('\n') + '\n';
   }
 }
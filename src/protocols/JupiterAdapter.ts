@@ -1,7 +1,7 @@
 import { DexAdapter } from './DexAdapter';
 import { logger } from '../utils/logger';
 import { AgentWallet } from '../wallet/AgentWallet';
-import { LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js';
+import { LAMPORTS_PER_SOL, VersionedTransaction } from '@solana/web3.js';
 
 type QuoteResponse = {
   inputMint: string;
@@ -52,9 +52,9 @@ export class JupiterAdapter implements DexAdapter {
       }),
     });
     if (!res.ok) throw new Error(`Jupiter swap failed: ${res.status} ${res.statusText}`);
-    const json = await res.json();
-    const base64Tx = json.swapTransaction as string;
-    const tx = Transaction.from(Buffer.from(base64Tx, 'base64'));
+    const json = (await res.json()) as { swapTransaction: string };
+    // Jupiter v6 returns a v0 transaction that references address lookup tables
+    const tx = VersionedTransaction.deserialize(Buffer.from(json.swapTransaction, 'base64'));
     const sig = await this.wallet.signAndSend(tx);
     return sig;
   }
@@ -65,6 +65,7 @@ export class JupiterAdapter implements DexAdapter {
       const inLamports = Math.floor(amountSOL * LAMPORTS_PER_SOL).toString();
       const quote = await this.quote(baseMint, quoteMint, inLamports, slippageBps);
       const sig = await this.swap(quote);
+      this.wallet.markTrade(sig, 'buy');
       this.totalBuyVolume += amountSOL;
       this.tradeCount++;
       logger.info(`[Jupiter] BUY ${amountSOL} SOL → ${quote.outputMint} | sig: ${sig.slice(0, 10)}…`);
@@ -82,6 +83,7 @@ export class JupiterAdapter implements DexAdapter {
       const inLamports = Math.floor(amountSOL * LAMPORTS_PER_SOL).toString();
       const quote = await this.quote(quoteMint, baseMint, inLamports, slippageBps);
       const sig = await this.swap(quote);
+      this.wallet.markTrade(sig, 'sell');
       this.totalSellVolume += amountSOL;
       this.tradeCount++;
       logger.info(`[Jupiter] SELL ${amountSOL} SOL ← ${quote.inputMint} | sig: ${sig.slice(0, 10)}…`);
@@ -12,8 +12,8 @@ import { AgentWallet } from '../wallet/AgentWallet';
 import { logger } from '../utils/logger';
 import { DexAdapter } from './DexAdapter';
 
-// Devnet "pool" address — a known devnet account used as the counterparty
-const DEVNET_POOL_ADDRESS = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+// Address book label of the devnet account used as the counterparty (built in; override it in the book)
+const POOL_LABEL = 'simulated-dex-pool';
 const MIN_TRADE_SOL = 0.001; // lamport buffer for fees
 
 export class SimulatedDex implements DexAdapter {
@@ -36,7 +36,8 @@ export class SimulatedDex implements DexAdapter {
 
     try {
       // Real on-chain TX on devnet demonstrating autonomous signing
-      const sig = await this.wallet.sendSOL(DEVNET_POOL_ADDRESS, amountSOL);
+      const sig = await this.wallet.sendSOL(POOL_LABEL, amountSOL);
+      this.wallet.markTrade(sig, 'buy');
       this.totalBuyVolume += amountSOL;
       this.tradeCount++;
       logger.info(`[DEX] BUY executed: ${amountSOL} SOL | sig: ${sig.slice(0, 20)}…`);
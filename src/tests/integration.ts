@@ -8,10 +8,64 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import chalk from 'chalk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
 import { createConnection } from '../utils/connection';
-import { KeyManager } from '../wallet/KeyManager';
+import { KeyFileError, KeyManager } from '../wallet/KeyManager';
 import { WalletRegistry } from '../wallet/WalletRegistry';
+import { TransactionJournal } from '../wallet/TransactionJournal';
 import { logger } from '../utils/logger';
+import { packInstructionGroups } from '../utils/txBuilder';
+import { sendWithRetry } from '../utils/txSender';
+import { buildTokenTransfers, readTokenBalances } from '../utils/tokenProgram';
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { MEMO_PROGRAM_ID, createMemoInstruction, formatMemoTag, parseMemoTag, readMemoTag } from '../utils/memo';
+import { DeferredTransaction, missingSignatures } from '../wallet/DurableNonce';
+import { SessionStore } from '../wallet/SessionWallets';
+import { ParsedStake, stakeState } from '../utils/stake';
+import {
+  SiwsError,
+  SiwsNonces,
+  UnsafeMessageError,
+  buildSiwsMessage,
+  parseSiwsMessage,
+  signBytes,
+  verifySiws,
+} from '../utils/siws';
+import { TxAccounting, accountTransaction, buildStatement } from '../wallet/Accounting';
+import { AgentWallet, TransactionRecord } from '../wallet/AgentWallet';
+import { TransactionReconciler } from '../wallet/Reconciler';
+import { BalanceChange, SubscriptionManager } from '../wallet/SubscriptionManager';
+import { AddressBook, AddressBookError } from '../wallet/AddressBook';
+import { PolicyViolation } from '../wallet/SpendPolicy';
+import { KeyFormatError, parseSecretKey } from '../utils/keyFormats';
+import { RemoteKeyStore, RemoteSignerError } from '../wallet/RemoteKeyStore';
+import { SignerDaemon } from '../wallet/SignerDaemon';
+import { deriveAgentKeypair, deriveEd25519, mnemonicToSeed, recoverFromMnemonic } from '../wallet/HdWallet';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+} from '@solana/spl-token';
 
 let passed = 0;
 let failed = 0;
@@ -29,7 +83,7 @@ async function test(name: string, fn: () => Promise<void>) {
   }
 }
 
-async function assert(condition: boolean, msg: string) {
+function assert(condition: boolean, msg: string) {
   if (!condition) throw new Error(msg);
 }
 
@@ -37,11 +91,31 @@ async function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+// Keys, journals, spend ledgers, approvals and checkpoints all default to ./.agent-keys, so the
+// run works in a scratch directory instead of the developer's own stores
+const repoDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-wallet-test-'));
+const workKeys = path.join(workDir, '.agent-keys');
+process.chdir(workDir);
+Object.assign(process.env, {
+  JOURNAL_DIR: path.join(workKeys, 'journal'),
+  APPROVALS_PATH: path.join(workKeys, 'approvals.json'),
+  ADDRESS_BOOK_PATH: path.join(workKeys, 'address-book.json'),
+  SESSIONS_PATH: path.join(workKeys, 'sessions.json'),
+  SPEND_POLICY_PATH: path.join(workDir, 'spend-policies.json'),
+  EVENT_LOG_PATH: path.join(workDir, 'agent-events.log.jsonl'),
+});
+
+function removeWorkDir() {
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+}
+
 async function main() {
   console.log(chalk.cyan('\n🧪 Solana Agentic Wallet — Integration Tests\n'));
 
   const connection = createConnection();
-  const keyManager = new KeyManager('test-secret-key-32-chars-exactly!');
+  const keyManager = new KeyManager('test-secret-key-32-chars-exactly!', { keysDir: workKeys });
   const registry = new WalletRegistry(connection, keyManager);
 
   // ── Test 1: Wallet creation ───────────────────────────────────────────────
@@ -155,7 +229,923 @@ async function main() {
     assert(snapshot.length === registry.count(), 'Snapshot count should match registry count');
   });
 
-  // ── Test 10: Key deletion ─────────────────────────────────────────────────
+  // ── Test 10: Journal persistence ──────────────────────────────────────────
+  await test('Transaction journal persists and filters records', async () => {
+    const journal = new TransactionJournal();
+    const wallet = registry.getOrCreate('test-journal');
+    const id = `journal-test-${Date.now()}`;
+    journal.append(wallet.agentId, {
+      id,
+      signature: '',
+      type: 'SOL_TRANSFER',
+      amount: 0.01,
+      from: wallet.publicKey,
+      to: 'counterparty-test',
+      timestamp: new Date(),
+      status: 'pending',
+    });
+    journal.append(wallet.agentId, { ...journal.load(wallet.agentId).find((r) => r.id === id)!, status: 'failed' });
+
+    const reloaded = new TransactionJournal().query({ agentId: wallet.agentId, counterparty: 'counterparty-test' });
+    const record = reloaded.find((r) => r.id === id);
+    assert(!!record, 'Record should be reloaded from disk');
+    assert(record!.status === 'failed', 'Latest version of the record should win');
+    assert(record!.timestamp instanceof Date, 'Timestamps should be revived as Dates');
+
+    // Another process (the dashboard) sees appends made after its first read
+    const reader = new TransactionJournal();
+    const before = reader.query({ agentId: wallet.agentId }).length;
+    journal.append(wallet.agentId, { ...record!, id: `${id}-later`, status: 'confirmed' });
+    assert(reader.query({ agentId: wallet.agentId }).length === before + 1, 'Later appends should be picked up');
+    let traversal = false;
+    try {
+      reader.query({ agentId: '../escape' });
+    } catch {
+      traversal = true;
+    }
+    assert(traversal, 'An agent id with a path is refused');
+  });
+
+  // ── Test 11: Batch packing ────────────────────────────────────────────────
+  await test('Batch payouts are packed into packet-sized transactions', async () => {
+    const payer = registry.getOrCreate('test-batch').pubkey;
+    const groups = Array.from({ length: 40 }, () => [
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1 }),
+    ]);
+    const chunks = packInstructionGroups(payer, groups);
+    assert(chunks.length > 1, 'Forty transfers should not fit in one transaction');
+    assert(chunks.flat().join() === groups.map((_, i) => i).join(), 'Every payout should be packed once, in order');
+  });
+
+  // ── Test 12: Read-only token balances ─────────────────────────────────────
+  await test('Token balance reads distinguish missing accounts from RPC failures', async () => {
+    const owner = Keypair.generate().publicKey;
+    const [funded, empty, unknown] = [0, 1, 2].map(() => Keypair.generate().publicKey);
+    const accounts = new Map<string, AccountInfo<Buffer>>();
+    for (const mint of [funded, empty]) {
+      const data = Buffer.alloc(MINT_SIZE);
+      MintLayout.encode(
+        {
+          mintAuthorityOption: 0,
+          mintAuthority: PublicKey.default,
+          supply: BigInt(0),
+          decimals: 6,
+          isInitialized: true,
+          freezeAuthorityOption: 0,
+          freezeAuthority: PublicKey.default,
+        },
+        data
+      );
+      accounts.set(mint.toBase58(), { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false });
+    }
+    const data = Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode(
+      {
+        mint: funded,
+        owner,
+        amount: BigInt(1_500_000),
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: AccountState.Initialized,
+        isNativeOption: 0,
+        isNative: BigInt(0),
+        delegatedAmount: BigInt(0),
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default,
+      },
+      data
+    );
+    accounts.set(getAssociatedTokenAddressSync(funded, owner).toBase58(), {
+      data,
+      owner: TOKEN_PROGRAM_ID,
+      lamports: 1,
+      executable: false,
+    });
+
+    const offline = {
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((k) => accounts.get(k.toBase58()) || null),
+    } as unknown as Connection;
+    const reads = await readTokenBalances(offline, owner, [funded, empty, unknown]);
+    assert(reads[0].status === 'ok' && reads[0].balance === 1.5, 'Funded account should read 1.5');
+    assert(reads[1].status === 'no-account' && reads[1].balance === 0, 'Missing account should read 0');
+    assert(reads[2].status === 'no-mint', 'Unknown mint should be reported');
+
+    const failing = {
+      getMultipleAccountsInfo: async () => {
+        throw new Error('rpc down');
+      },
+    } as unknown as Connection;
+    const failed = await readTokenBalances(failing, owner, [funded]);
+    assert(failed[0].status === 'error' && failed[0].error === 'rpc down', 'RPC failure should not read as 0');
+
+    // Token-2022 memo checks read recipients in batches the RPC accepts
+    const mintInfo = { ...accounts.get(funded.toBase58())!, owner: TOKEN_2022_PROGRAM_ID };
+    const details = {
+      address: funded,
+      programId: TOKEN_2022_PROGRAM_ID,
+      program: 'spl-token-2022' as const,
+      decimals: 6,
+      mint: unpackMint(funded, mintInfo, TOKEN_2022_PROGRAM_ID),
+      extensions: [],
+    };
+    const capped = {
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+        if (keys.length > 100) throw new Error(`Too many keys: ${keys.length}`);
+        return keys.map(() => null);
+      },
+    } as unknown as Connection;
+    const recipients = Array.from({ length: 150 }, () => ({ recipient: Keypair.generate().publicKey, amount: BigInt(1) }));
+    const built = await buildTokenTransfers(capped, details, owner, recipients);
+    assert(built.instructions.length === 150, 'A transfer group per recipient beyond 100');
+  });
+
+  // ── Test 13: Co-signature tracking ────────────────────────────────────────
+  await test('Co-signed transaction tracks missing supervisor signatures', async () => {
+    const agent = Keypair.generate();
+    const supervisor = Keypair.generate();
+    const tx = new Transaction({ feePayer: agent.publicKey, recentBlockhash: agent.publicKey.toBase58() }).add(
+      createMemoInstruction('cosign:test', [supervisor.publicKey]),
+      SystemProgram.transfer({ fromPubkey: agent.publicKey, toPubkey: supervisor.publicKey, lamports: 1 })
+    );
+    tx.partialSign(agent);
+    const entry: DeferredTransaction = {
+      id: 'cosign-test',
+      nonceAccount: agent.publicKey.toBase58(),
+      nonce: agent.publicKey.toBase58(),
+      minContextSlot: 0,
+      signature: '',
+      serialized: tx.serialize({ requireAllSignatures: false }).toString('base64'),
+      createdAt: new Date().toISOString(),
+      status: 'prepared',
+      cosigners: [supervisor.publicKey.toBase58()],
+    };
+    const before = missingSignatures(entry);
+    assert(before.length === 1 && before[0] === supervisor.publicKey.toBase58(), 'Supervisor should be missing');
+
+    tx.partialSign(supervisor);
+    entry.serialized = tx.serialize().toString('base64');
+    assert(missingSignatures(entry).length === 0, 'No signatures should be missing after co-signing');
+  });
+
+  // ── Test 14: Session bookkeeping ──────────────────────────────────────────
+  await test('Session store reports expired and failed sweeps as due', async () => {
+    const file = path.join(workDir, `sessions-test-${process.pid}.json`);
+    const store = new SessionStore(file);
+    const base = {
+      parentId: 'parent',
+      publicKey: Keypair.generate().publicKey.toBase58(),
+      budgetSOL: 0.1,
+      createdAt: new Date().toISOString(),
+      fundingSignature: '',
+    };
+    const past = new Date(Date.now() - 1000).toISOString();
+    const future = new Date(Date.now() + 60_000).toISOString();
+    store.save({ ...base, id: 'live', agentId: 'parent-session-live', expiresAt: future, status: 'active' });
+    store.save({ ...base, id: 'expired', agentId: 'parent-session-expired', expiresAt: past, status: 'active' });
+    store.save({ ...base, id: 'retry', agentId: 'parent-session-retry', expiresAt: future, status: 'sweep_failed' });
+    store.save({ ...base, id: 'done', agentId: 'parent-session-done', expiresAt: past, status: 'closed' });
+    try {
+      const due = store.due().map((s) => s.id).sort();
+      assert(due.join(',') === 'expired,retry', `Unexpected due sessions: ${due}`);
+      assert(new SessionStore(file).list({ parentId: 'parent' }).length === 4, 'Sessions should persist');
+
+      // A restart restores the parent but not its live session child
+      const keysDir = fs.mkdtempSync(path.join(workDir, 'session-keys-'));
+      try {
+        const keys = new KeyManager('test-secret-key-32-chars-exactly!', { keysDir, kdf: { logN: 10 } });
+        keys.generateKey('parent');
+        keys.generateKey('parent-session-live');
+        const restored = new WalletRegistry(connection, keys, new TransactionJournal(keysDir), undefined, store);
+        assert(restored.restoreAll() === 1, 'Only the parent should be restored');
+        assert(!restored.get('parent-session-live'), 'A session child should not be restored as an agent');
+      } finally {
+        fs.rmSync(keysDir, { recursive: true, force: true });
+      }
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  // ── Test 15: Stake activation state ───────────────────────────────────────
+  await test('Stake state follows the delegation epochs', async () => {
+    const meta = { rentExemptReserve: '2282880', authorized: { staker: '', withdrawer: '' } };
+    const delegated = (activationEpoch: string, deactivationEpoch: string): ParsedStake => ({
+      type: 'delegated',
+      info: { meta, stake: { delegation: { voter: '', stake: '1000000000', activationEpoch, deactivationEpoch } } },
+    });
+    const never = '18446744073709551615';
+    assert(stakeState({ type: 'initialized', info: { meta, stake: null } }, 10) === 'inactive', 'Undelegated is inactive');
+    assert(stakeState(delegated('10', never), 10) === 'activating', 'Activating in its delegation epoch');
+    assert(stakeState(delegated('10', never), 11) === 'active', 'Active after the delegation epoch');
+    assert(stakeState(delegated('10', '12'), 12) === 'deactivating', 'Deactivating in its deactivation epoch');
+    assert(stakeState(delegated('10', '12'), 13) === 'inactive', 'Inactive after cooldown');
+  });
+
+  // ── Test 16: Sign-In-With-Solana ──────────────────────────────────────────
+  await test('SIWS message round-trips and verifies', async () => {
+    const wallet = registry.getOrCreate('test-wallet-1');
+    const signed = await wallet.signIn({ domain: 'dash.test', uri: 'https://dash.test', nonce: 'abc12345', statement: 'Hi' });
+    const parsed = parseSiwsMessage(signed.message);
+    assert(parsed.address === wallet.publicKey && parsed.statement === 'Hi', 'Parsed fields should match');
+    assert(buildSiwsMessage(parsed) === signed.message, 'Rebuilt message should be identical');
+    verifySiws(signed.message, signed.signature, { domain: 'dash.test', nonce: 'abc12345' });
+    assert(wallet.verifyMessage(signed.message, signed.signature), 'Wallet should verify its own signature');
+
+    const rejects = (fn: () => void) => {
+      try {
+        fn();
+        return false;
+      } catch (err) {
+        return err instanceof SiwsError;
+      }
+    };
+    assert(rejects(() => verifySiws(signed.message, signed.signature, { domain: 'other.test' })), 'Domain checked');
+    assert(
+      rejects(() => verifySiws(signed.message.replace('Hi', 'Ho'), signed.signature, { domain: 'dash.test' })),
+      'Tampered message rejected'
+    );
+    assert(
+      rejects(() => verifySiws(signed.message, signed.signature, { domain: 'dash.test', now: new Date(Date.now() + 3_600_000) })),
+      'Expired message rejected'
+    );
+    assert(rejects(() => verifySiws(signed.message, signed.signature, { domain: 'dash.test', chainId: 'mainnet' })), 'Chain checked');
+
+    // An unparseable expiry must not mean "never expires"
+    const keypair = Keypair.generate();
+    const badExpiry = buildSiwsMessage({
+      ...parsed,
+      address: keypair.publicKey.toBase58(),
+      expirationTime: 'someday',
+    });
+    assert(
+      rejects(() => verifySiws(badExpiry, signBytes(badExpiry, keypair.secretKey), { domain: 'dash.test' })),
+      'Invalid expiration time rejected'
+    );
+
+    const nonces = new SiwsNonces(60_000, 3);
+    const first = nonces.issue();
+    for (let i = 0; i < 5; i++) nonces.issue();
+    assert(nonces.size === 3 && !nonces.consume(first), 'Outstanding nonces are capped, oldest dropped first');
+  });
+
+  // ── Test 17: Fee and rent accounting ──────────────────────────────────────
+  await test('Accounting splits principal, fees and rent; statement realizes trades', async () => {
+    const owner = Keypair.generate().publicKey.toBase58();
+    const [recipient, ata] = [0, 1].map(() => Keypair.generate().publicKey);
+    const rent = 2_039_280;
+    const tx = {
+      slot: 1,
+      blockTime: null,
+      transaction: {
+        signatures: ['sig'],
+        message: {
+          accountKeys: [{ pubkey: new PublicKey(owner) }, { pubkey: recipient }, { pubkey: ata }],
+          instructions: [
+            { program: 'system', parsed: { type: 'transfer', info: { source: owner, lamports: LAMPORTS_PER_SOL } } },
+          ],
+        },
+      },
+      meta: {
+        err: null,
+        fee: 10_000,
+        preBalances: [10 * LAMPORTS_PER_SOL, 0, 0],
+        postBalances: [9 * LAMPORTS_PER_SOL - rent - 10_000, LAMPORTS_PER_SOL, rent],
+        innerInstructions: [
+          {
+            index: 0,
+            instructions: [
+              {
+                program: 'system',
+                parsed: {
+                  type: 'createAccount',
+                  info: { source: owner, newAccount: ata.toBase58(), lamports: rent, space: 165 },
+                },
+              },
+            ],
+          },
+        ],
+        preTokenBalances: [],
+        postTokenBalances: [],
+      },
+    } as unknown as ParsedTransactionWithMeta;
+    const offline = { getMinimumBalanceForRentExemption: async () => rent } as unknown as Connection;
+    const a = await accountTransaction(offline, tx, owner);
+    assert(Math.abs(a.principal + 1) < 1e-9, `Principal should be -1 SOL, got ${a.principal}`);
+    assert(a.networkFee === 5_000 / LAMPORTS_PER_SOL && a.priorityFee === 5_000 / LAMPORTS_PER_SOL, 'Fee split');
+    assert(a.rentPaid === rent / LAMPORTS_PER_SOL && a.rentReclaimed === 0, 'Rent paid for the new account');
+
+    const at = (i: number) => new Date(Date.UTC(2026, 0, 1, 0, i));
+    const record = (i: number, accounting: TxAccounting, trade?: 'buy' | 'sell'): TransactionRecord => ({
+      id: `r${i}`,
+      signature: `s${i}`,
+      type: 'CUSTOM',
+      amount: 0,
+      from: owner,
+      timestamp: at(i),
+      status: 'confirmed',
+      accounting,
+      trade,
+    });
+    const zero = { solDelta: 0, networkFee: 0, priorityFee: 0, rentPaid: 0, rentReclaimed: 0 };
+    const statement = buildStatement('test', [
+      record(0, a),
+      record(1, { ...zero, principal: -1, solDelta: -1, tokenDeltas: { mintA: 10 } }, 'buy'),
+      record(2, { ...zero, principal: 0.6, solDelta: 0.6, tokenDeltas: { mintA: -5 } }, 'sell'),
+    ]);
+    assert(statement.principalOut === 1 && statement.transactions === 3, 'Transfer counts as principal');
+    assert(Math.abs(statement.tradingPnl - 0.1) < 1e-9, `Realized P&L should be 0.1, got ${statement.tradingPnl}`);
+    const [position] = statement.openPositions;
+    assert(position.quantity === 5 && Math.abs(position.costSOL - 0.5) < 1e-9, 'Half the position stays open');
+  });
+
+  // ── Test 18: Balance subscriptions ────────────────────────────────────────
+  await test('Subscriptions emit balance changes and resubscribe on missed updates', async () => {
+    const wallet = registry.getOrCreate('test-wallet-1');
+    let lamports = LAMPORTS_PER_SOL;
+    let sockets = 0;
+    let onAccount: ((info: { lamports: number }, ctx: { slot: number }) => void) | undefined;
+    const rpc = {
+      getMultipleAccountsInfoAndContext: async (keys: PublicKey[]) => ({
+        context: { slot: 2 },
+        value: keys.map(() => ({ lamports })),
+      }),
+    } as unknown as Connection;
+    const socket = () => {
+      sockets++;
+      return {
+        onAccountChange: (_key: PublicKey, cb: typeof onAccount) => ((onAccount = cb), 1),
+        onLogs: () => 2,
+        onProgramAccountChange: () => 3,
+        removeAccountChangeListener: async () => undefined,
+        removeOnLogsListener: async () => undefined,
+        removeProgramAccountChangeListener: async () => undefined,
+      } as unknown as Connection;
+    };
+    const manager = new SubscriptionManager(rpc, () => [wallet], { connectionFactory: socket, watchdogMs: 60_000 });
+    const changes: BalanceChange[] = [];
+    const listener = (change: BalanceChange) => changes.push(change);
+    wallet.on('balance_changed', listener);
+    try {
+      await manager.start();
+      onAccount!({ lamports: 2 * LAMPORTS_PER_SOL }, { slot: 1 });
+      assert(changes.length === 1 && changes[0].delta === 1 && changes[0].previous === 1, 'Pushed SOL change');
+      assert(manager.getBalance(wallet.agentId) === 2, 'Balance cached from the notification');
+
+      lamports = 3 * LAMPORTS_PER_SOL; // a change the socket never reported
+      await (manager as unknown as { watchdog: () => Promise<void> }).watchdog();
+      assert(changes.length === 2 && changes[1].source === 'watchdog', 'Watchdog emits the missed change');
+      assert(sockets === 2 && manager.getStats().resubscribes === 1, 'Missed change rebuilds the subscriptions');
+    } finally {
+      wallet.off('balance_changed', listener);
+      await manager.stop();
+    }
+  });
+
+  // ── Test 19: Paper mode ───────────────────────────────────────────────────
+  await test('Paper mode simulates writes against a virtual balance', async () => {
+    const owner = keyManager.loadKey('test-wallet-1').publicKey;
+    const onChain = 2 * LAMPORTS_PER_SOL;
+    const spent = LAMPORTS_PER_SOL / 2 + 5_000;
+    const systemAccount = { lamports: onChain, owner: SystemProgram.programId, data: Buffer.alloc(0), executable: false };
+    // No sendRawTransaction: any broadcast fails the test
+    const offline = {
+      getLatestBlockhash: async () => ({ blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 }),
+      getRecentPrioritizationFees: async () => [],
+      getBalance: async () => onChain,
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((k) => (k.equals(owner) ? systemAccount : null)),
+      simulateTransaction: async (_tx: unknown, _signers: unknown, accounts?: PublicKey[]) => ({
+        context: { slot: 1 },
+        value: {
+          err: null,
+          logs: [],
+          unitsConsumed: 150,
+          accounts: Array.isArray(accounts)
+            ? accounts.map((k) =>
+                k.equals(owner)
+                  ? { lamports: onChain - spent, owner: SystemProgram.programId.toBase58(), data: ['', 'base64'], executable: false }
+                  : null
+              )
+            : null,
+        },
+      }),
+    } as unknown as Connection;
+    const wallet = new AgentWallet({
+      agentId: 'test-wallet-1',
+      connection: offline,
+      keyManager,
+      policy: {},
+      journal: new TransactionJournal(fs.mkdtempSync(path.join(workDir, 'paper-'))),
+      paper: true,
+    });
+
+    const ledger = (kind: string) => {
+      const file = path.resolve(process.cwd(), '.agent-keys', `test-wallet-1.${kind}.json`);
+      return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+    };
+    const liveBefore = ledger('spend');
+    const sig = await wallet.sendSOL(Keypair.generate().publicKey.toBase58(), 0.5);
+    assert(ledger('spend') === liveBefore, 'Paper spend does not touch the live spend ledger');
+    assert(ledger('paper-spend').includes('"amount": 0.5'), 'Paper spend goes to the paper ledger');
+    const [record] = wallet.getTransactionHistory();
+    assert(record.status === 'simulated' && record.signature === sig, `Record should be simulated, got ${record.status}`);
+    assert(wallet.getPaperOverlay().sol === -spent / LAMPORTS_PER_SOL, 'Overlay holds the simulated spend');
+    assert((await wallet.getSOLBalance()) === (onChain - spent) / LAMPORTS_PER_SOL, 'Balance reflects the simulated spend');
+  });
+
+  // ── Test 20: Address book ─────────────────────────────────────────────────
+  await test('Address book resolves labels and rejects off-curve wallets', async () => {
+    const book = new AddressBook(path.join(fs.mkdtempSync(path.join(workDir, 'book-')), 'address-book.json'));
+    const payee = Keypair.generate().publicKey.toBase58();
+    book.save({ label: 'Payroll', address: payee, type: 'wallet', allowedAgents: ['test-wallet-1'] });
+
+    const [pda] = PublicKey.findProgramAddressSync([Buffer.from('vault')], SystemProgram.programId);
+    const rejected = (fn: () => unknown) => {
+      try {
+        fn();
+        return false;
+      } catch (err) {
+        return err instanceof AddressBookError;
+      }
+    };
+    assert(rejected(() => book.save({ label: 'vault', address: pda.toBase58(), type: 'wallet' })), 'Off-curve wallet should be rejected');
+    assert(!rejected(() => book.save({ label: 'vault', address: pda.toBase58(), type: 'program' })), 'Off-curve program address is fine');
+    assert(rejected(() => book.save({ label: 'payroll-2', address: payee, type: 'wallet' })), 'Duplicate address should be rejected');
+
+    const wallet = new AgentWallet({ agentId: 'test-wallet-1', connection, keyManager, addressBook: book });
+    assert(wallet.resolveAddress('payroll') === payee, 'Labels resolve case-insensitively');
+    assert(wallet.resolveAddress(payee) === payee, 'Addresses pass through');
+    assert(rejected(() => book.resolve('payroll', 'test-wallet-2')), 'Entry is limited to its allowed agents');
+    assert(rejected(() => wallet.resolveAddress('nobody')), 'Unknown labels throw');
+    assert(book.labelFor(payee) === 'Payroll' && book.display(pda.toBase58()) === 'vault', 'Addresses display as labels');
+
+    const corruptFile = path.join(fs.mkdtempSync(path.join(workDir, 'book-')), 'address-book.json');
+    fs.writeFileSync(corruptFile, '{"label": ');
+    const corrupt = new AddressBook(corruptFile);
+    assert(rejected(() => corrupt.save({ label: 'payroll', address: payee, type: 'wallet' })), 'A corrupt book is not read as empty');
+    assert(fs.readFileSync(corruptFile, 'utf-8') === '{"label": ', 'A corrupt book is not overwritten');
+  });
+
+  // ── Test 21: Memo tags ────────────────────────────────────────────────────
+  await test('Agent memo tags round-trip and mark paper writes', async () => {
+    const tag = { agentId: 'agent-alpha', cycle: 12, action: 'BUY' };
+    assert(formatMemoTag(tag) === 'agent:agent-alpha cycle:12 action:BUY', 'Default format');
+    assert(JSON.stringify(parseMemoTag('agent:agent-alpha cycle:12 action:BUY')) === JSON.stringify(tag), 'Default parse');
+    const custom = '[{agent}#{cycle}] {action}';
+    assert(JSON.stringify(parseMemoTag(formatMemoTag(tag, custom)!, custom)) === JSON.stringify(tag), 'Custom format');
+    const untagged = parseMemoTag(formatMemoTag({ agentId: 'agent-alpha' })!);
+    assert(untagged?.cycle === undefined && untagged?.action === undefined, 'Unknown fields parse as undefined');
+    assert(formatMemoTag(tag, '') === null && parseMemoTag('cosign:agent-alpha') === null, 'Empty format and foreign memos');
+
+    const parsed = {
+      transaction: {
+        message: { instructions: [{ programId: MEMO_PROGRAM_ID, program: 'spl-memo', parsed: 'agent:agent-beta cycle:3 action:PROVIDE_LIQUIDITY' }] },
+      },
+    } as unknown as ParsedTransactionWithMeta;
+    assert(readMemoTag(parsed)?.action === 'PROVIDE_LIQUIDITY', 'Tag is read from a parsed memo instruction');
+
+    const owner = keyManager.loadKey('test-wallet-1').publicKey;
+    const memos: string[] = [];
+    const offline = {
+      getLatestBlockhash: async () => ({ blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 }),
+      getRecentPrioritizationFees: async () => [],
+      getBalance: async () => LAMPORTS_PER_SOL,
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(() => null),
+      simulateTransaction: async (tx: Transaction, _signers: unknown, accounts?: PublicKey[]) => {
+        if (Array.isArray(accounts)) {
+          tx.instructions.filter((ix) => ix.programId.equals(MEMO_PROGRAM_ID)).forEach((ix) => memos.push(ix.data.toString()));
+        }
+        return { context: { slot: 1 }, value: { err: null, logs: [], unitsConsumed: 150, accounts: accounts ? accounts.map(() => null) : null } };
+      },
+    } as unknown as Connection;
+    const wallet = new AgentWallet({
+      agentId: 'test-wallet-1',
+      connection: offline,
+      keyManager,
+      policy: {},
+      journal: new TransactionJournal(fs.mkdtempSync(path.join(workDir, 'memo-'))),
+      paper: true,
+    });
+    await wallet.withActivity({ cycle: 7, action: 'PAYOUT' }, () => wallet.sendSOL(owner.toBase58(), 0.01));
+    const [record] = wallet.getTransactionHistory();
+    assert(memos.includes('agent:test-wallet-1 cycle:7 action:PAYOUT'), `Sent memo should carry the tag, got ${memos}`);
+    assert(record.tag?.cycle === 7 && record.tag?.action === 'PAYOUT', 'Record carries the tag');
+  });
+
+  // ── Test 22: Key file format ──────────────────────────────────────────────
+  await test('Key files are salted and versioned; legacy files migrate in place', async () => {
+    const keysDir = fs.mkdtempSync(path.join(workDir, 'keys-'));
+    const secret = 'key-format-test-secret-0123456789';
+    const manager = new KeyManager(secret, { keysDir, kdf: { logN: 10 } });
+    const keypair = Keypair.generate();
+    manager.storeKey('fresh', keypair);
+    manager.storeKey('twin', keypair);
+    const [fresh, twin] = ['fresh', 'twin'].map((id) => fs.readFileSync(path.join(keysDir, `${id}.key`)));
+    assert(fresh.subarray(0, 4).toString() === 'SAWK' && fresh[4] === 1, 'New files carry the version 1 header');
+    assert(!fresh.subarray(9, 25).equals(twin.subarray(9, 25)), 'Each file gets its own salt');
+    assert(manager.loadKey('fresh').publicKey.equals(keypair.publicKey), 'Round trip');
+
+    // A version 0 file: iv(16) | tag(16) | ciphertext under SHA-256(secret)
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-gcm', crypto.createHash('sha256').update(secret).digest(), iv);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.from(keypair.secretKey)), cipher.final()]);
+    fs.writeFileSync(path.join(keysDir, 'old.key'), Buffer.concat([iv, cipher.getAuthTag(), ciphertext]));
+    assert(manager.inspectKey('old').version === 0, 'Legacy file detected');
+    assert(manager.loadKey('old').publicKey.equals(keypair.publicKey), 'Legacy files still load');
+    assert(manager.migrateKey('old') === 'migrated' && manager.inspectKey('old').version === 1, 'Legacy file migrated');
+    assert(manager.migrateKey('old') === 'current', 'Migration is idempotent');
+    const costlier = new KeyManager(secret, { keysDir, kdf: { logN: 11 } });
+    assert(costlier.migrateKey('old') === 'rekeyed', 'Changed cost re-derives the file');
+    assert(manager.loadKey('old').publicKey.equals(keypair.publicKey), 'Re-derived file loads with its own parameters');
+
+    let wrongSecret = false;
+    try {
+      new KeyManager('some-other-secret-0123456789abcd', { keysDir, kdf: { logN: 10 } }).loadKey('fresh');
+    } catch (err) {
+      wrongSecret = err instanceof KeyFileError;
+    }
+    assert(wrongSecret, 'Wrong secret fails with KeyFileError');
+
+    // A header asking for 16 GiB of scrypt memory is refused before deriving
+    const forged = Buffer.from(fresh);
+    forged[6] = 22;
+    forged[7] = 32;
+    fs.writeFileSync(path.join(keysDir, 'forged.key'), forged);
+    let tooCostly = false;
+    try {
+      manager.loadKey('forged');
+    } catch (err) {
+      tooCostly = err instanceof KeyFileError && /1 GiB/.test(err.message);
+    }
+    assert(tooCostly, 'scrypt parameters above 1 GiB are refused');
+    let refused = false;
+    try {
+      new KeyManager('default-dev-secret-change-me!!', { keysDir, cluster: 'mainnet-beta' });
+    } catch (err) {
+      refused = err instanceof KeyFileError;
+    }
+    assert(refused, 'Development secret is refused outside devnet');
+  });
+
+  // ── Test 23: Key rotation ─────────────────────────────────────────────────
+  await test('Secret rotation is all-or-nothing; agent rotation records lineage', async () => {
+    const keysDir = fs.mkdtempSync(path.join(workDir, 'rotate-'));
+    const [oldSecret, newSecret] = ['rotation-test-secret-old-0123456', 'rotation-test-secret-new-0123456'];
+    const manager = new KeyManager(oldSecret, { keysDir, kdf: { logN: 10 } });
+    const keypairs = ['a', 'b'].map((id) => {
+      const keypair = Keypair.generate();
+      manager.storeKey(id, keypair);
+      return keypair;
+    });
+    const loads = (m: KeyManager, id: string, i: number) => {
+      try {
+        return m.loadKey(id).publicKey.equals(keypairs[i].publicKey);
+      } catch {
+        return false;
+      }
+    };
+
+    fs.writeFileSync(path.join(keysDir, 'c.key'), Buffer.from('not a key file'));
+    let aborted = false;
+    try {
+      manager.rotateSecret(newSecret);
+    } catch {
+      aborted = true;
+    }
+    assert(aborted && loads(manager, 'a', 0) && loads(manager, 'b', 1), 'A bad file aborts with keys untouched');
+    assert(fs.readdirSync(keysDir).every((f) => !f.endsWith('.rotating') && !f.endsWith('.bak')), 'No staged files left');
+
+    fs.rmSync(path.join(keysDir, 'c.key'));
+    assert(manager.rotateSecret(newSecret).length === 2, 'Both files re-encrypted');
+    assert(loads(manager, 'a', 0), 'Manager switches to the new secret');
+    const fresh = new KeyManager(newSecret, { keysDir, kdf: { logN: 10 } });
+    assert(loads(fresh, 'b', 1) && !loads(new KeyManager(oldSecret, { keysDir }), 'b', 1), 'Only the new secret decrypts');
+
+    // Empty wallet: the sweep has nothing to move, so rotation completes offline
+    const offline = {
+      getParsedProgramAccounts: async () => [],
+      getEpochInfo: async () => ({ epoch: 1 }),
+      getParsedTokenAccountsByOwner: async () => ({ context: { slot: 1 }, value: [] }),
+      getBalance: async () => 0,
+    } as unknown as Connection;
+    const wallet = new AgentWallet({
+      agentId: 'a',
+      connection: offline,
+      keyManager: fresh,
+      policy: {},
+      journal: new TransactionJournal(fs.mkdtempSync(path.join(workDir, 'rotate-journal-'))),
+    });
+    let refusedSweep = false;
+    try {
+      await wallet.sweepTo(Keypair.generate().publicKey.toBase58());
+    } catch (err) {
+      refusedSweep = err instanceof PolicyViolation && err.rule === 'ALLOWLIST';
+    }
+    assert(refusedSweep, 'A sweep to an arbitrary address is refused');
+    const rotation = await wallet.rotateKey();
+    const meta = fresh.getMeta('a');
+    assert(rotation.current === wallet.publicKey && wallet.publicKey !== rotation.previous, 'Wallet uses the new key');
+    assert(meta.publicKey === wallet.publicKey && meta.previousKeys?.[0].publicKey === rotation.previous, 'Lineage recorded');
+    const archived = fresh.getMeta(rotation.retired!.archivedAs);
+    assert(archived.successor === wallet.publicKey && loads(fresh, archived.agentId, 0), 'Old key archived');
+    assert(!fresh.hasKey('a.next'), 'Pending key removed');
+
+    // If the staged key cannot take the agent's id, the old key is put back and a retry completes
+    const flaky = new KeyManager(newSecret, { keysDir, kdf: { logN: 10 } });
+    const rename = flaky.renameKey.bind(flaky);
+    let failRename = true;
+    flaky.renameKey = async (from, to, lineage) => {
+      if (from.endsWith('.next') && failRename) {
+        failRename = false;
+        throw new Error('disk full');
+      }
+      return rename(from, to, lineage);
+    };
+    const rolled = new AgentWallet({
+      agentId: 'r',
+      connection: offline,
+      keyManager: flaky,
+      policy: {},
+      journal: new TransactionJournal(fs.mkdtempSync(path.join(workDir, 'rotate-journal-'))),
+    });
+    const original = rolled.publicKey;
+    let rotateFailed = false;
+    try {
+      await rolled.rotateKey();
+    } catch {
+      rotateFailed = true;
+    }
+    assert(rotateFailed && flaky.loadKey('r').publicKey.toBase58() === original, 'The old key is restored');
+    assert(!flaky.getMeta('r').retiredAt && flaky.hasKey('r.next'), 'Lineage restored and the new key still staged');
+    const retried = await rolled.rotateKey();
+    assert(retried.current === flaky.getPublicKey('r') && !flaky.hasKey('r.next'), 'A retry completes the rotation');
+  });
+
+  // ── Test 24: Remote signer ────────────────────────────────────────────────
+  await test('Remote signer signs for a wallet that never holds the key', async () => {
+    const keysDir = fs.mkdtempSync(path.join(workDir, 'signer-'));
+    const local = new KeyManager('signer-test-secret-0123456789abcdef', { keysDir, kdf: { logN: 10 } });
+    const socketPath = path.join(keysDir, 'signer.sock');
+    const daemon = new SignerDaemon(local, 'signer-test-token');
+    await daemon.listen({ socketPath });
+    try {
+      const remote = new RemoteKeyStore({ socketPath, token: 'signer-test-token' });
+      await remote.connect();
+      const meta = await remote.createKey('remote-agent', 'Remote');
+      assert(local.getPublicKey('remote-agent') === meta.publicKey, 'Key is created by the daemon');
+
+      const wallet = new AgentWallet({
+        agentId: 'remote-agent',
+        connection,
+        keyManager: remote,
+        policy: {},
+        journal: new TransactionJournal(fs.mkdtempSync(path.join(workDir, 'signer-journal-'))),
+      });
+      assert(wallet.publicKey === meta.publicKey, 'Wallet uses the remote key');
+      assert(wallet.verifyMessage('hello', await wallet.signMessage('hello')), 'Message signature verifies');
+
+      const tx = new Transaction({ feePayer: wallet.pubkey, recentBlockhash: PublicKey.default.toBase58() }).add(
+        SystemProgram.transfer({ fromPubkey: wallet.pubkey, toPubkey: Keypair.generate().publicKey, lamports: 1 })
+      );
+      await remote.signTransaction('remote-agent', tx);
+      assert(tx.verifySignatures(), 'Transaction signature verifies');
+
+      const refused = async (fn: () => unknown) => {
+        try {
+          await fn();
+          return false;
+        } catch (err) {
+          return err instanceof RemoteSignerError;
+        }
+      };
+      assert(await refused(() => remote.signMessage('remote-agent', tx.serializeMessage())), 'Transaction bytes are not signed as a message');
+      assert(await refused(() => remote.loadKey('remote-agent')), 'Keys cannot be exported');
+      assert(await refused(() => new RemoteKeyStore({ socketPath, token: 'wrong-token' }).connect()), 'Wrong token is rejected');
+
+      // The in-process store applies the same rule, so AgentWallet.signMessage refuses it either way
+      let unsafe = false;
+      try {
+        await local.signMessage('remote-agent', tx.serializeMessage());
+      } catch (err) {
+        unsafe = err instanceof UnsafeMessageError;
+      }
+      assert(unsafe, 'The in-process key store refuses transaction bytes as a message');
+    } finally {
+      await daemon.close();
+    }
+  });
+
+  // ── Test 25: HD derivation ────────────────────────────────────────────────
+  await test('HD keys derive from one mnemonic and are recovered from chain history', async () => {
+    // SLIP-0010 ed25519 test vector 1
+    const vector = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+    assert(
+      deriveEd25519(vector, "m/0'").toString('hex') === '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+      'SLIP-0010 vector'
+    );
+    const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+    const seed = mnemonicToSeed(mnemonic);
+    assert(deriveAgentKeypair(seed, 0).publicKey.toBase58() === 'HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk', "Matches m/44'/501'/0'/0' of other wallets");
+
+    const keysDir = fs.mkdtempSync(path.join(workDir, 'hd-'));
+    const manager = new KeyManager('hd-test-secret-0123456789abcdefgh', { keysDir, kdf: { logN: 10 } });
+    manager.initHd(mnemonic);
+    const [alpha, beta] = [await manager.createKey('alpha'), manager.generateKey('beta')];
+    assert(alpha.derivationIndex === 0 && beta.derivationIndex === 1, 'Indices are recorded in order');
+    assert(beta.publicKey === deriveAgentKeypair(seed, 1).publicKey.toBase58(), 'Keys follow the derivation path');
+    assert(manager.loadKey('beta').publicKey.toBase58() === beta.publicKey, 'Derived keys load like any other');
+
+    // Index 0 and 2 have history tagged as alpha (0 paid for the rotation sweep, so it is the retired
+    // key); 1 and 3+ are unused
+    const used = [0, 2].map((i) => deriveAgentKeypair(seed, i).publicKey.toBase58());
+    const memos = ['agent:alpha cycle:3 action:ROTATE', 'agent:alpha cycle:4 action:BUY'];
+    const chain = {
+      getSignaturesForAddress: async (address: PublicKey) =>
+        used.includes(address.toBase58()) ? [{ signature: `sig-${address.toBase58()}`, err: null }] : [],
+      getParsedTransaction: async (signature: string) => {
+        const i = used.findIndex((key) => signature === `sig-${key}`);
+        if (i < 0) return null;
+        return {
+          transaction: {
+            message: {
+              accountKeys: [{ pubkey: new PublicKey(used[i]) }],
+              instructions: [{ programId: MEMO_PROGRAM_ID, program: 'spl-memo', parsed: memos[i] }],
+            },
+          },
+        };
+      },
+    } as unknown as Connection;
+    const restoreDir = fs.mkdtempSync(path.join(workDir, 'hd-restore-'));
+    const restored = new KeyManager('hd-test-secret-0123456789abcdefgh', { keysDir: restoreDir, kdf: { logN: 10 } });
+    const recovered = await recoverFromMnemonic(restored, chain, mnemonic, { gapLimit: 3 });
+    assert(recovered.length === 2, `Two used keys found, got ${recovered.length}`);
+    assert(restored.getMeta('alpha').publicKey === used[1], 'Newest key tagged alpha is the agent');
+    assert(restored.getMeta('alpha').previousKeys?.[0].publicKey === used[0], 'Older key in the chain is retired');
+    assert(restored.generateKey('gamma').derivationIndex === 3, 'New keys continue past the recovered indices');
+  });
+
+  // ── Test 26: Key import/export and backups ────────────────────────────────
+  await test('Keys import and export in Solana CLI and base58 formats; backups restore elsewhere', async () => {
+    const keysDir = fs.mkdtempSync(path.join(workDir, 'transfer-'));
+    const manager = new KeyManager('transfer-test-secret-0123456789ab', { keysDir, kdf: { logN: 10 } });
+    const keypair = Keypair.generate();
+    const cliFile = JSON.stringify(Array.from(keypair.secretKey)); // as solana-keygen writes it
+    assert(manager.importKey('imported', cliFile, 'ops').publicKey === keypair.publicKey.toBase58(), 'CLI keypair file imports');
+    assert(manager.exportKey('imported', 'json') === cliFile, 'JSON export matches the CLI format');
+    const base58 = manager.exportKey('imported', 'base58');
+    assert(parseSecretKey(base58).publicKey.equals(keypair.publicKey), 'base58 export round-trips');
+    let duplicate = false;
+    try {
+      manager.importKey('again', base58);
+    } catch (err) {
+      duplicate = err instanceof KeyFileError;
+    }
+    assert(duplicate, 'A key already stored under another agent is refused');
+    for (const agentId of ['../escape', '.hidden', 'a/b']) {
+      let invalid = false;
+      try {
+        manager.importKey(agentId, JSON.stringify(Array.from(Keypair.generate().secretKey)));
+      } catch (err) {
+        invalid = err instanceof KeyFileError && /Invalid agent id/.test(err.message);
+      }
+      assert(invalid, `Agent id ${agentId} is refused on import`);
+    }
+    assert(!fs.existsSync(path.join(workDir, 'escape.key')), 'Nothing is written outside the keys directory');
+    const tampered = Array.from(keypair.secretKey);
+    tampered[40] ^= 1;
+    let inconsistent = false;
+    try {
+      parseSecretKey(JSON.stringify(tampered));
+    } catch (err) {
+      inconsistent = err instanceof KeyFormatError;
+    }
+    assert(inconsistent, 'A secret key whose public half does not match is rejected');
+
+    manager.initHd('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+    const derived = manager.generateKey('derived');
+    const archive = manager.createBackup('correct horse battery');
+    assert(archive.subarray(0, 4).toString() === 'SAWB' && !archive.includes(Buffer.from('imported')), 'Archive is opaque');
+
+    const restoreDir = fs.mkdtempSync(path.join(workDir, 'restore-'));
+    const target = new KeyManager('another-host-secret-0123456789abc', { keysDir: restoreDir, kdf: { logN: 10 } });
+    const opens = (bytes: Buffer, passphrase: string) => {
+      try {
+        target.restoreBackup(bytes, passphrase);
+        return true;
+      } catch (err) {
+        if (!(err instanceof KeyFileError)) throw err;
+        return false;
+      }
+    };
+    assert(!opens(archive, 'wrong horse battery'), 'Wrong passphrase is refused');
+    const corrupted = Buffer.from(archive);
+    corrupted[corrupted.length - 1] ^= 1;
+    assert(!opens(corrupted, 'correct horse battery'), 'Tampered archive fails verification');
+    assert(target.listKeyFiles().length === 0, 'Nothing is written from a failed restore');
+    assert(opens(archive, 'correct horse battery'), 'Archive restores with the right passphrase');
+    assert(target.loadKey('imported').publicKey.equals(keypair.publicKey), 'Restored key loads under the new secret');
+    assert(target.getMeta('imported').label === 'ops', 'Metadata is restored');
+    assert(target.isHd() && target.generateKey('next').derivationIndex === (derived.derivationIndex ?? -1) + 1, 'HD seed and index restored');
+    assert(!opens(archive, 'correct horse battery'), 'Restore refuses a directory that already holds keys');
+  });
+
+  // ── Test 27: Reconciler checkpoints ──────────────────────────────────────
+  await test('Reconciler resumes a history walk cut short and keeps pruned confirmed records', async () => {
+    const agentId = `reconcile-test-${process.pid}`;
+    const checkpoint = path.resolve(process.cwd(), '.agent-keys', `${agentId}.reconcile.json`);
+    let chain = Array.from({ length: 250 }, (_, i) => `sig${249 - i}`); // newest first
+    const scanned = new Set<string>();
+    const fake = {
+      agentId,
+      publicKey: Keypair.generate().publicKey.toBase58(),
+      getTransactionHistory: () => [],
+      recordTransaction: () => undefined,
+      captureAccounting: async () => false,
+      getOnChainHistory: async (limit: number, before?: string, until?: string) => {
+        const start = before ? chain.indexOf(before) + 1 : 0;
+        const end = until ? chain.indexOf(until) : chain.length;
+        return chain.slice(start, Math.min(start + limit, end)).map((signature) => {
+          scanned.add(signature);
+          return { signature, confirmationStatus: 'finalized' };
+        });
+      },
+      connection: { getParsedTransaction: async () => null },
+    } as unknown as AgentWallet;
+    try {
+      const reconciler = new TransactionReconciler(fake, { maxSignatures: 100 });
+      for (let run = 0; run < 3; run++) await reconciler.run();
+      assert(scanned.size === 250, `Every signature should be walked once, got ${scanned.size}`);
+      assert(JSON.parse(fs.readFileSync(checkpoint, 'utf-8')).lastSignature === 'sig249', 'Checkpoint moves to the newest');
+
+      chain = ['sig251', 'sig250', ...chain];
+      scanned.clear();
+      const report = await reconciler.run();
+      assert(report.scanned === 2 && scanned.size === 2, 'Only new history is walked afterwards');
+
+      // Statuses pruned from the RPC cache: a landed confirmed record is finalized, a lost pending one dropped
+      const hourAgo = new Date(Date.now() - 3_600_000);
+      const base = { amount: 0.1, from: fake.publicKey, timestamp: hourAgo, type: 'SOL_TRANSFER' as const };
+      const recorded: TransactionRecord[] = [];
+      const statuses = {
+        ...fake,
+        getOnChainHistory: async () => [],
+        getTransactionHistory: (): TransactionRecord[] => [
+          { ...base, id: 'landed', signature: 'landed-sig', status: 'confirmed' },
+          { ...base, id: 'lost', signature: 'lost-sig', status: 'pending' },
+        ],
+        recordTransaction: (r: TransactionRecord) => recorded.push(r),
+        connection: {
+          getSignatureStatuses: async () => ({ context: { slot: 1 }, value: [null, null] }),
+          getTransaction: async (sig: string) => (sig === 'landed-sig' ? { slot: 7, meta: { err: null } } : null),
+        },
+      } as unknown as AgentWallet;
+      const refreshed = await new TransactionReconciler(statuses).run();
+      const byId = (id: string) => recorded.find((r) => r.id === id);
+      assert(byId('landed')?.status === 'finalized' && byId('landed')?.slot === 7, 'A pruned confirmed record is finalized');
+      assert(byId('lost')?.status === 'dropped', 'A long-unknown pending record is dropped');
+      assert(refreshed.finalized === 1 && refreshed.dropped === 1, 'Report counts both');
+    } finally {
+      fs.rmSync(checkpoint, { force: true });
+    }
+  });
+
+  // ── Test 28: Send loop outcomes ──────────────────────────────────────────
+  await test('Sender retries an unseen blockhash and reports lost tracking as unknown', async () => {
+    const payer = Keypair.generate();
+    const tx = new Transaction({ feePayer: payer.publicKey, blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 });
+    tx.add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payer.publicKey, lamports: 1 }));
+    tx.sign(payer);
+    const signed = { tx, blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 };
+    const options = { skipSimulation: true, rebroadcastMs: 0 };
+
+    let sends = 0;
+    const lagging = {
+      sendRawTransaction: async () => {
+        if (sends++ === 0) {
+          throw new SendTransactionError({ action: 'send', signature: '', transactionMessage: 'Blockhash not found' });
+        }
+        return '';
+      },
+      getSignatureStatuses: async () => ({
+        context: { slot: 1 },
+        value: [sends > 1 ? { slot: 9, confirmations: 1, err: null, confirmationStatus: 'confirmed' } : null],
+      }),
+      getBlockHeight: async () => 50,
+    } as unknown as Connection;
+    const landed = await sendWithRetry(lagging, signed, options);
+    assert(landed.status === 'confirmed' && landed.slot === 9, `A lagging node is retried, got ${landed.status}`);
+
+    const flaky = {
+      sendRawTransaction: async () => '',
+      getSignatureStatuses: async () => {
+        throw new Error('503 Service Unavailable');
+      },
+    } as unknown as Connection;
+    const lost = await sendWithRetry(flaky, signed, options);
+    assert(lost.status === 'unknown' && lost.signature === bs58.encode(tx.signature!), 'RPC errors end as unknown');
+    assert(/503/.test(lost.error || ''), 'The RPC error is kept');
+  });
+
+  // ── Test 29: Key deletion ─────────────────────────────────────────────────
   await test('Key deletion removes from disk', async () => {
     const tempId = 'test-delete-me';
     registry.getOrCreate(tempId);
@@ -166,11 +1156,13 @@ async function main() {
   // ── Summary ───────────────────────────────────────────────────────────────
   console.log(`\n${chalk.green(`✔ ${passed} passed`)}  ${failed > 0 ? chalk.red(`✘ ${failed} failed`) : ''}`);
 
+  removeWorkDir();
   if (failed > 0) process.exit(1);
   else process.exit(0);
 }
 
 main().catch((err) => {
   logger.error(err);
+  removeWorkDir();
   process.exit(1);
 });
@@ -0,0 +1,205 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { createTransferCheckedInstruction, createTransferInstruction } from '@solana/spl-token';
+import { PolicyEngine, PolicyViolation, SpendPolicy } from '../wallet/SpendPolicy';
+import { ApprovalQueue } from '../wallet/ApprovalQueue';
+import { AddressBook } from '../wallet/AddressBook';
+import { summarizeSolOutflows } from '../utils/txBuilder';
+import { summarizeTokenOutflows } from '../utils/tokenProgram';
+
+function assert(condition: boolean, msg: string) {
+  if (!condition) throw new Error(msg);
+}
+
+async function test(name: string, fn: () => Promise<void>) {
+  process.stdout.write(`  ${name}… `);
+  try {
+    await fn();
+    console.log(chalk.green('✔ PASS'));
+  } catch (err) {
+    console.log(chalk.red(`✘ FAIL: ${err}`));
+    process.exitCode = 1;
+  }
+}
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-test-'));
+let ledgerSeq = 0;
+
+function engine(policy: SpendPolicy): PolicyEngine {
+  return new PolicyEngine('test-agent', policy, path.join(tmpDir, `ledger-${ledgerSeq++}.json`));
+}
+
+function violation(fn: () => void): PolicyViolation | null {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    if (err instanceof PolicyViolation) return err;
+    throw err;
+  }
+}
+
+const DEST = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+const MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+async function main() {
+  console.log(chalk.cyan('\n🧪 Spend policy unit tests\n'));
+
+  await test('Per-tx cap rejects oversized SOL transfer', async () => {
+    const e = engine({ maxPerTxSOL: 0.1 });
+    const v = violation(() => e.evaluate({ kind: 'SOL', amount: 0.2, destinations: [DEST] }));
+    assert(v?.rule === 'MAX_PER_TX', `Expected MAX_PER_TX, got ${v?.rule}`);
+  });
+
+  await test('Denylist and allowlist apply to destinations', async () => {
+    const denied = engine({ denylist: [DEST] });
+    assert(violation(() => denied.evaluate({ kind: 'SOL', amount: 0.01, destinations: [DEST] }))?.rule === 'DENYLIST', 'Should deny');
+    const allowed = engine({ allowlist: ['11111111111111111111111111111111'] });
+    assert(violation(() => allowed.evaluate({ kind: 'SOL', amount: 0.01, destinations: [DEST] }))?.rule === 'ALLOWLIST', 'Should require allowlist');
+  });
+
+  await test('Rolling limit counts recorded spends', async () => {
+    const e = engine({ rollingLimits: [{ windowMs: 60_000, max: 0.15 }] });
+    const intent = { kind: 'SOL' as const, amount: 0.1, destinations: [DEST] };
+    e.evaluate(intent);
+    e.record(intent);
+    assert(violation(() => e.evaluate(intent))?.rule === 'ROLLING_LIMIT', 'Second spend should exceed window');
+    const later = new Date(Date.now() + 61_000);
+    assert(violation(() => e.evaluate(intent, later)) === null, 'Window should have rolled over');
+  });
+
+  await test('Rate limit counts transactions of every kind', async () => {
+    const e = engine({ rateLimits: [{ windowMs: 60_000, maxTx: 2 }] });
+    e.record({ kind: 'SOL', amount: 0.01, destinations: [DEST] });
+    e.record({ kind: 'SPL', amount: 5, mint: MINT, destinations: [DEST] });
+    const v = violation(() => e.evaluate({ kind: 'CUSTOM', amount: 0, destinations: [] }));
+    assert(v?.rule === 'RATE_LIMIT', `Expected RATE_LIMIT, got ${v?.rule}`);
+  });
+
+  await test('Mint caps are tracked separately from SOL', async () => {
+    const e = engine({ maxDailySOL: 0.05, mintCaps: { [MINT]: { maxDaily: 10 } } });
+    e.record({ kind: 'SPL', amount: 8, mint: MINT, destinations: [DEST] });
+    assert(violation(() => e.evaluate({ kind: 'SOL', amount: 0.04, destinations: [DEST] })) === null, 'SOL unaffected by SPL spend');
+    const v = violation(() => e.evaluate({ kind: 'SPL', amount: 3, mint: MINT, destinations: [DEST] }));
+    assert(v?.rule === 'MINT_CAP', `Expected MINT_CAP, got ${v?.rule}`);
+  });
+
+  await test('Custom transactions are charged for account creation, seeded and token transfers', async () => {
+    const owner = Keypair.generate().publicKey;
+    const dest = new PublicKey(DEST);
+    const sol = summarizeSolOutflows(
+      [
+        SystemProgram.createAccount({ fromPubkey: owner, newAccountPubkey: dest, lamports: 1_000_000, space: 0, programId: owner }),
+        SystemProgram.transfer({ fromPubkey: Keypair.generate().publicKey, toPubkey: dest, lamports: 5 }), // not ours
+        SystemProgram.transfer({
+          fromPubkey: await PublicKey.createWithSeed(owner, 'vault', SystemProgram.programId),
+          basePubkey: owner,
+          seed: 'vault',
+          programId: SystemProgram.programId,
+          toPubkey: dest,
+          lamports: 2_000_000,
+        }),
+      ],
+      owner
+    );
+    assert(sol.lamports === 3_000_000 && sol.destinations.length === 2, `Expected 3000000 lamports, got ${sol.lamports}`);
+
+    const noAccounts = { getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(() => null) } as unknown as Connection;
+    const mint = new PublicKey(MINT);
+    const tokens = await summarizeTokenOutflows(
+      noAccounts,
+      [createTransferCheckedInstruction(Keypair.generate().publicKey, mint, dest, owner, 12_500_000n, 6)],
+      owner
+    );
+    assert(tokens.length === 1 && tokens[0].mint === MINT && tokens[0].amount === 12.5, 'transferChecked is read in UI units');
+    let unclassified = false;
+    try {
+      await summarizeTokenOutflows(noAccounts, [createTransferInstruction(Keypair.generate().publicKey, dest, owner, 1n)], owner);
+    } catch {
+      unclassified = true;
+    }
+    assert(unclassified, 'A plain transfer from an unreadable account is rejected');
+
+    const e = engine({ mintCaps: { [MINT]: { maxPerTx: 20, maxDaily: 30 } } });
+    const custom = { kind: 'CUSTOM' as const, amount: 0, destinations: [DEST], tokens: [{ mint: MINT, amount: 12.5 }] };
+    assert(violation(() => e.evaluate(custom)) === null, 'Within the mint caps');
+    e.record(custom);
+    e.record(custom);
+    assert(e.spentSince(0, MINT) === 25 && e.spentSince(0) === 0, 'Custom token spend counts against the mint only');
+    const v = violation(() => e.evaluate(custom));
+    assert(v?.rule === 'MINT_CAP', `Expected MINT_CAP, got ${v?.rule}`);
+  });
+
+  await test('Time-of-day window wraps midnight', async () => {
+    const e = engine({ activeHours: [{ startHour: 22, endHour: 6, utc: true }] });
+    const intent = { kind: 'SOL' as const, amount: 0.01, destinations: [DEST] };
+    assert(violation(() => e.evaluate(intent, new Date('2026-01-01T23:00:00Z'))) === null, '23:00 should be allowed');
+    assert(violation(() => e.evaluate(intent, new Date('2026-01-01T12:00:00Z')))?.rule === 'TIME_WINDOW', '12:00 should be blocked');
+  });
+
+  await test('Approval is required above threshold or for unknown destinations', async () => {
+    const e = engine({ approval: { thresholdSOL: 0.5, unknownDestinations: true, knownDestinations: [DEST] } });
+    assert(e.approvalReason({ kind: 'SOL', amount: 0.1, destinations: [DEST] }) === null, 'Small known transfer needs no approval');
+    assert(e.approvalReason({ kind: 'SOL', amount: 1, destinations: [DEST] }) !== null, 'Large transfer needs approval');
+    assert(e.approvalReason({ kind: 'SOL', amount: 0.1, destinations: [MINT] }) !== null, 'Unknown destination needs approval');
+  });
+
+  await test('Approval queue decisions persist and stale requests expire', async () => {
+    const file = path.join(tmpDir, 'approvals.json');
+    const intent = { kind: 'SOL' as const, amount: 1, destinations: [DEST] };
+    const queue = new ApprovalQueue(file);
+    const kept = queue.submit('test-agent', { type: 'SOL', to: DEST, amount: 1 }, intent, 'test');
+    const stale = queue.submit('test-agent', { type: 'SOL', to: DEST, amount: 1 }, intent, 'test', -1);
+
+    assert(queue.expireStale().map((r) => r.id).join() === stale.id, 'Only the stale request should expire');
+    new ApprovalQueue(file).approve(kept.id, 'tester');
+    assert(queue.get(kept.id).status === 'approved', 'Decision should be visible to other instances');
+    assert(queue.claim(kept.id) && !queue.claim(kept.id), 'An approved request can only be claimed once');
+    let threw = false;
+    try {
+      queue.reject(stale.id);
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Expired requests cannot be decided');
+    assert(!fs.existsSync(`${file}.lock`), 'The lock is released after each change');
+    fs.writeFileSync(`${file}.lock`, '0');
+    fs.utimesSync(`${file}.lock`, new Date(0), new Date(0));
+    const late = queue.submit('test-agent', { type: 'SOL', to: DEST, amount: 1 }, intent, 'test');
+    assert(queue.reject(late.id).status === 'rejected', 'A lock left by a crashed process is taken over');
+
+    fs.writeFileSync(file, '[{"id": "trunc');
+    let corrupt = false;
+    try {
+      queue.submit('test-agent', { type: 'SOL', to: DEST, amount: 1 }, intent, 'test');
+    } catch (err) {
+      corrupt = /unreadable/.test(String(err));
+    }
+    assert(corrupt, 'A corrupt queue is not read as empty');
+    assert(fs.readFileSync(file, 'utf-8') === '[{"id": "trunc', 'A corrupt queue is not overwritten');
+    assert(!fs.existsSync(`${file}.lock`), 'The lock is released when the read fails');
+  });
+
+  await test('Policy lists resolve address book references per agent', async () => {
+    const book = new AddressBook(path.join(tmpDir, 'address-book.json'));
+    const [exchange, restricted] = [Keypair.generate(), Keypair.generate()].map((k) => k.publicKey.toBase58());
+    book.save({ label: 'exchange', address: exchange, type: 'exchange' });
+    book.save({ label: 'other-only', address: restricted, type: 'exchange', allowedAgents: ['other-agent'] });
+    const e = new PolicyEngine('test-agent', { allowlist: ['@type:exchange'], denylist: ['@other-only'] }, path.join(tmpDir, `ledger-${ledgerSeq++}.json`), book);
+    assert(violation(() => e.evaluate({ kind: 'SOL', amount: 0.01, destinations: [exchange] })) === null, 'Exchange entry should be allowed');
+    // other-only is invisible to test-agent: not denylisted, but not on the allowlist either
+    assert(violation(() => e.evaluate({ kind: 'SOL', amount: 0.01, destinations: [restricted] }))?.rule === 'ALLOWLIST', 'Restricted entry should not expand');
+    const empty = new PolicyEngine('test-agent', { allowlist: ['@missing'] }, path.join(tmpDir, `ledger-${ledgerSeq++}.json`), book);
+    assert(violation(() => empty.evaluate({ kind: 'SOL', amount: 0.01, destinations: [exchange] }))?.rule === 'ALLOWLIST', 'Unresolved allowlist should block');
+  });
+
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+/**
+ * feeStrategy.ts
+ * Priority fee and compute budget sizing for agent transactions.
+ *
+ *  - Priority fee: a percentile of getRecentPrioritizationFees for the
+ *    accounts the transaction writes, chosen by urgency
+ *  - Compute limit: units consumed in a signature-less simulation plus a margin
+ *  - Caps: the resulting priority fee is clamped to the agent's maximum
+ */
+
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  RecentPrioritizationFees,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { logger } from './logger';
+
+export type FeeUrgency = 'low' | 'normal' | 'urgent';
+
+export interface FeeOptions {
+  urgency?: FeeUrgency;
+  maxPriorityFeeLamports?: number; // cap on (unit price × unit limit)
+  computeUnitMargin?: number;      // multiplier on simulated units, default 1.1
+}
+
+export interface FeeEstimate {
+  computeUnitLimit: number;
+  computeUnitPrice: number; // micro-lamports per compute unit
+  priorityFeeLamports: number;
+  baseFeeLamports: number;
+}
+
+const URGENCY_PERCENTILE: Record<FeeUrgency, number> = { low: 25, normal: 50, urgent: 90 };
+export const LAMPORTS_PER_SIGNATURE = 5000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+const FALLBACK_COMPUTE_UNITS = 200_000;
+const MIN_COMPUTE_UNITS = 1_000;
+
+/** Default options from env: PRIORITY_FEE_URGENCY, MAX_PRIORITY_FEE_LAMPORTS */
+export function defaultFeeOptions(): FeeOptions {
+  const urgency = (process.env.PRIORITY_FEE_URGENCY || 'normal') as FeeUrgency;
+  const cap = process.env.MAX_PRIORITY_FEE_LAMPORTS;
+  return {
+    urgency: URGENCY_PERCENTILE[urgency] !== undefined ? urgency : 'normal',
+    maxPriorityFeeLamports: cap !== undefined && cap !== '' ? parseInt(cap) : undefined,
+  };
+}
+
+/**
+ * Micro-lamport unit price at the urgency percentile of recent fees for these
+ * accounts; 0 (no priority fee) if the RPC cannot report them
+ */
+export async function estimateUnitPrice(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  urgency: FeeUrgency = 'normal'
+): Promise<number> {
+  let recent: RecentPrioritizationFees[];
+  try {
+    recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+  } catch (err) {
+    logger.warn(`[Fees] Recent prioritization fees unavailable, sending without a priority fee: ${err}`);
+    return 0;
+  }
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  if (fees.length === 0) return 0;
+  const idx = Math.min(fees.length - 1, Math.floor((URGENCY_PERCENTILE[urgency] / 100) * fees.length));
+  return fees[idx];
+}
+
+/** Units consumed by the instructions, or a fallback if simulation cannot tell */
+export async function estimateComputeUnits(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  blockhash: string,
+  margin = 1.1
+): Promise<number> {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+  }).compileToV0Message();
+  try {
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    if (value.err || !value.unitsConsumed) return FALLBACK_COMPUTE_UNITS;
+    return Math.min(MAX_COMPUTE_UNITS, Math.max(MIN_COMPUTE_UNITS, Math.ceil(value.unitsConsumed * margin)));
+  } catch {
+    return FALLBACK_COMPUTE_UNITS;
+  }
+}
+
+/** Prepend ComputeBudget instructions sized for these instructions */
+export async function withComputeBudget(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  blockhash: string,
+  options: FeeOptions = {}
+): Promise<{ instructions: TransactionInstruction[]; fee: FeeEstimate }> {
+  const writable = uniqueWritable(payer, instructions);
+  const [unitLimit, rawPrice] = await Promise.all([
+    estimateComputeUnits(connection, payer, instructions, blockhash, options.computeUnitMargin),
+    estimateUnitPrice(connection, writable, options.urgency),
+  ]);
+
+  let unitPrice = rawPrice;
+  const cap = options.maxPriorityFeeLamports;
+  if (cap !== undefined && priorityLamports(unitPrice, unitLimit) > cap) {
+    unitPrice = Math.floor((cap * 1_000_000) / unitLimit);
+  }
+
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit })];
+  if (unitPrice > 0) budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: unitPrice }));
+
+  return {
+    instructions: [...budget, ...instructions],
+    fee: {
+      computeUnitLimit: unitLimit,
+      computeUnitPrice: unitPrice,
+      priorityFeeLamports: priorityLamports(unitPrice, unitLimit),
+      baseFeeLamports: LAMPORTS_PER_SIGNATURE,
+    },
+  };
+}
+
+/** Read the fee a caller-built transaction already commits to */
+export function readComputeBudget(instructions: TransactionInstruction[], signatures = 1): FeeEstimate {
+  let unitLimit = FALLBACK_COMPUTE_UNITS;
+  let unitPrice = 0;
+  for (const ix of instructions) {
+    if (!ix.programId.equals(ComputeBudgetProgram.programId)) continue;
+    try {
+      const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+      if (type === 'SetComputeUnitLimit') unitLimit = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+      if (type === 'SetComputeUnitPrice') {
+        unitPrice = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+      }
+    } catch {}
+  }
+  return {
+    computeUnitLimit: unitLimit,
+    computeUnitPrice: unitPrice,
+    priorityFeeLamports: priorityLamports(unitPrice, unitLimit),
+    baseFeeLamports: LAMPORTS_PER_SIGNATURE * signatures,
+  };
+}
+
+function priorityLamports(unitPrice: number, unitLimit: number): number {
+  return Math.ceil((unitPrice * unitLimit) / 1_000_000);
+}
+
+function uniqueWritable(payer: PublicKey, instructions: TransactionInstruction[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>([[payer.toBase58(), payer]]);
+  for (const ix of instructions) {
+    for (const k of ix.keys) if (k.isWritable) seen.set(k.pubkey.toBase58(), k.pubkey);
+  }
+  return Array.from(seen.values());
+}
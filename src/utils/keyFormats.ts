@@ -0,0 +1,53 @@
+/**
+ * keyFormats.ts
+ * Text encodings of a secret key shared with other Solana tooling:
+ *  - json: the Solana CLI keypair file (`solana-keygen`, ~/.config/solana/id.json),
+ *    a JSON array of the 64 secret key bytes
+ *  - base58: the 64-byte secret key as one base58 string (Phantom, Solflare export)
+ */
+
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+export type SecretKeyFormat = 'json' | 'base58';
+
+export class KeyFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyFormatError';
+  }
+}
+
+/** Read a keypair in either format; the format is detected from the text */
+export function parseSecretKey(text: string): Keypair {
+  const trimmed = text.trim();
+  let bytes: Uint8Array;
+  if (trimmed.startsWith('[')) {
+    let values: unknown;
+    try {
+      values = JSON.parse(trimmed);
+    } catch {
+      throw new KeyFormatError('Not a valid Solana CLI keypair file');
+    }
+    if (!Array.isArray(values) || !values.every((v) => Number.isInteger(v) && v >= 0 && v <= 255)) {
+      throw new KeyFormatError('A Solana CLI keypair file is a JSON array of bytes');
+    }
+    bytes = Uint8Array.from(values as number[]);
+  } else {
+    try {
+      bytes = bs58.decode(trimmed);
+    } catch {
+      throw new KeyFormatError('Not a base58 secret key');
+    }
+  }
+  if (bytes.length !== 64) throw new KeyFormatError(`A secret key is 64 bytes, got ${bytes.length}`);
+  try {
+    return Keypair.fromSecretKey(bytes); // checks the public half matches the private half
+  } catch {
+    throw new KeyFormatError('Secret key bytes are inconsistent');
+  }
+}
+
+export function formatSecretKey(keypair: Keypair, format: SecretKeyFormat): string {
+  return format === 'json' ? JSON.stringify(Array.from(keypair.secretKey)) : bs58.encode(keypair.secretKey);
+}
@@ -0,0 +1,88 @@
+/**
+ * memo.ts
+ * SPL Memo program instructions, and the activity tag agents write into them.
+ *
+ * Every transaction an agent builds carries a memo naming the agent, the
+ * decision cycle and the action that sent it, so activity can be audited
+ * from an explorer alone. The text follows a template (AGENT_MEMO_FORMAT,
+ * default "agent:{agent} cycle:{cycle} action:{action}"); a value the sender
+ * did not know is written as "-". An empty template turns tagging off.
+ */
+
+import { ParsedInstruction, ParsedTransactionWithMeta, PublicKey, TransactionInstruction } from '@solana/web3.js';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+export const DEFAULT_MEMO_FORMAT = 'agent:{agent} cycle:{cycle} action:{action}';
+
+/** What an agent was doing when it sent a transaction */
+export interface MemoTag {
+  agentId: string;
+  cycle?: number;   // BaseAgent decision cycle
+  action?: string;  // AgentAction.type
+}
+
+export type AgentActivity = Omit<MemoTag, 'agentId'>;
+
+const FIELDS = /\{(agent|cycle|action)\}/g;
+const UNKNOWN = '-';
+
+/** A memo instruction; every listed signer must also sign the transaction */
+export function createMemoInstruction(memo: string, signers: PublicKey[] = []): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: signers.map((pubkey) => ({ pubkey, isSigner: true, isWritable: false })),
+    data: Buffer.from(memo, 'utf-8'),
+  });
+}
+
+export function defaultMemoFormat(): string {
+  return process.env.AGENT_MEMO_FORMAT ?? DEFAULT_MEMO_FORMAT;
+}
+
+/** Memo text for a tag, or null when the format is empty (tagging off) */
+export function formatMemoTag(tag: MemoTag, format: string = defaultMemoFormat()): string | null {
+  if (!format) return null;
+  const values: Record<string, string> = {
+    agent: tag.agentId,
+    cycle: tag.cycle !== undefined ? String(tag.cycle) : UNKNOWN,
+    action: tag.action || UNKNOWN,
+  };
+  return format.replace(FIELDS, (_, field: string) => values[field]);
+}
+
+/** Read a tag back from memo text written with `format`; null if the text does not match it */
+export function parseMemoTag(memo: string, format: string = defaultMemoFormat()): MemoTag | null {
+  if (!format) return null;
+  const fields: string[] = [];
+  const pattern = format
+    .split(FIELDS)
+    .map((part, i) => {
+      if (i % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      fields.push(part);
+      return '(.*?)';
+    })
+    .join('');
+  const match = new RegExp(`^${pattern}$`).exec(memo);
+  if (!match) return null;
+  const values: Record<string, string | undefined> = {};
+  fields.forEach((field, i) => (values[field] = match[i + 1] === UNKNOWN ? undefined : match[i + 1]));
+  if (!values.agent) return null;
+  const cycle = values.cycle !== undefined ? Number(values.cycle) : undefined;
+  return {
+    agentId: values.agent,
+    cycle: cycle !== undefined && Number.isInteger(cycle) ? cycle : undefined,
+    action: values.action,
+  };
+}
+
+/** The first agent tag among a parsed transaction's memo instructions */
+export function readMemoTag(tx: ParsedTransactionWithMeta, format: string = defaultMemoFormat()): MemoTag | null {
+  for (const ix of tx.transaction.message.instructions) {
+    if (!ix.programId.equals(MEMO_PROGRAM_ID) || !('parsed' in ix)) continue;
+    const text = (ix as ParsedInstruction).parsed;
+    const tag = typeof text === 'string' ? parseMemoTag(text, format) : null;
+    if (tag) return tag;
+  }
+  return null;
+}
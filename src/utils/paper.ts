@@ -0,0 +1,98 @@
+/**
+ * paper.ts
+ * What a transaction would do to one owner's balances, from a simulation.
+ *
+ * Every account the message names (lookup-table accounts excluded) is read
+ * before and after: the owner's lamports give the SOL change (fees and rent
+ * included), and token accounts the owner holds on either side give per-mint
+ * token changes. Token accounts created and closed within the transaction,
+ * like a temporary wSOL account, exist on neither side and are ignored.
+ */
+
+import {
+  AccountInfo,
+  Commitment,
+  Connection,
+  PublicKey,
+  SimulatedTransactionAccountInfo,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from '@solana/spl-token';
+import { resolveMint } from './tokenProgram';
+import { simulateSigned } from './txSender';
+
+export interface SimulatedBalanceChanges {
+  signature: string;
+  error?: string;
+  logs?: string[];
+  lamports: number;               // owner's balance before
+  solDelta: number;               // lamports
+  tokenDeltas: Record<string, number>; // mint → UI amount
+}
+
+export async function simulateBalanceChanges(
+  connection: Connection,
+  tx: Transaction | VersionedTransaction,
+  owner: PublicKey,
+  commitment: Commitment = 'confirmed'
+): Promise<SimulatedBalanceChanges> {
+  const keys = tx instanceof VersionedTransaction ? tx.message.staticAccountKeys : tx.compileMessage().accountKeys;
+  const [before, sim] = await Promise.all([
+    connection.getMultipleAccountsInfo(keys, commitment),
+    simulateSigned(connection, tx, keys, commitment),
+  ]);
+  const index = keys.findIndex((k) => k.equals(owner));
+  const lamports = index >= 0 ? before[index]?.lamports ?? 0 : await connection.getBalance(owner, commitment);
+  const result: SimulatedBalanceChanges = {
+    signature: sim.signature,
+    error: sim.error,
+    logs: sim.logs,
+    lamports,
+    solDelta: index >= 0 && sim.accounts[index] ? sim.accounts[index]!.lamports - lamports : 0,
+    tokenDeltas: {},
+  };
+  if (sim.error) return result;
+
+  const raw = new Map<string, bigint>(); // mint → base units
+  keys.forEach((key, i) => {
+    const pre = tokenAmount(key, before[i], owner);
+    const post = tokenAmount(key, decode(sim.accounts[i]), owner);
+    const mint = pre?.mint || post?.mint;
+    if (!mint) return;
+    const delta = (post?.amount ?? BigInt(0)) - (pre?.amount ?? BigInt(0));
+    if (delta !== BigInt(0)) raw.set(mint, (raw.get(mint) ?? BigInt(0)) + delta);
+  });
+  for (const [mint, delta] of raw) {
+    const { decimals } = await resolveMint(connection, new PublicKey(mint));
+    result.tokenDeltas[mint] = Number(delta) / Math.pow(10, decimals);
+  }
+  return result;
+}
+
+/** Mint and amount of a token account held by `owner`; null for anything else */
+function tokenAmount(
+  address: PublicKey,
+  info: AccountInfo<Buffer> | null,
+  owner: PublicKey
+): { mint: string; amount: bigint } | null {
+  if (!info || info.lamports === 0) return null;
+  if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) return null;
+  try {
+    const account = unpackAccount(address, info, info.owner);
+    return account.owner.equals(owner) ? { mint: account.mint.toBase58(), amount: account.amount } : null;
+  } catch {
+    return null; // a mint or other non-account data owned by the token program
+  }
+}
+
+function decode(info: SimulatedTransactionAccountInfo | null): AccountInfo<Buffer> | null {
+  if (!info) return null;
+  return {
+    executable: info.executable,
+    owner: new PublicKey(info.owner),
+    lamports: info.lamports,
+    data: Buffer.from(info.data[0], 'base64'),
+    rentEpoch: info.rentEpoch,
+  };
+}
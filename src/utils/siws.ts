@@ -0,0 +1,238 @@
+/**
+ * siws.ts
+ * Off-chain ed25519 message signatures and Sign-In-With-Solana (SIWS) messages.
+ *
+ * Every signer refuses to sign bytes that parse as a transaction message the
+ * key must sign (assertOffchainMessage), so an off-chain signature can never
+ * authorize a transaction.
+ *
+ * A SIWS message is the CAIP-122 plain-text format ("<domain> wants you to sign
+ * in with your Solana account: …") that wallets show to users. Agents sign it
+ * with their wallet key to prove their identity to an off-chain API; the API
+ * issues the nonce, then checks the signature, domain, nonce and validity window.
+ */
+
+import { randomBytes } from 'crypto';
+import { PublicKey, VersionedMessage } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+export interface SiwsMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: string; // 'mainnet' | 'devnet' | 'testnet' | 'localnet'
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export class SiwsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiwsError';
+  }
+}
+
+const HEADER = ' wants you to sign in with your Solana account:';
+const FIELDS: [keyof SiwsMessage, string][] = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+export class UnsafeMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeMessageError';
+  }
+}
+
+/** Required signers if the bytes are exactly a legacy or v0 transaction message, else null */
+export function transactionSigners(message: Uint8Array): PublicKey[] | null {
+  try {
+    const parsed = VersionedMessage.deserialize(message);
+    if (!Buffer.from(parsed.serialize()).equals(Buffer.from(message))) return null;
+    return parsed.staticAccountKeys.slice(0, parsed.header.numRequiredSignatures);
+  } catch {
+    return null;
+  }
+}
+
+/** Throws UnsafeMessageError if `message` is a transaction message `signer` must sign */
+export function assertOffchainMessage(message: Uint8Array, signer: PublicKey): void {
+  if (transactionSigners(message)?.some((k) => k.equals(signer))) {
+    throw new UnsafeMessageError('Refusing to sign a transaction message as an off-chain message; use signTransaction');
+  }
+}
+
+/** Detached ed25519 signature (base58) over a UTF-8 string or raw bytes */
+export function signBytes(message: string | Uint8Array, secretKey: Uint8Array): string {
+  return bs58.encode(nacl.sign.detached(toBytes(message), secretKey));
+}
+
+/** Check a base58 detached signature; malformed input is simply invalid */
+export function verifyBytes(message: string | Uint8Array, signature: string, publicKey: string | PublicKey): boolean {
+  try {
+    const key = typeof publicKey === 'string' ? new PublicKey(publicKey) : publicKey;
+    return nacl.sign.detached.verify(toBytes(message), bs58.decode(signature), key.toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/** SIWS chain id of a cluster name ('mainnet-beta' is 'mainnet') */
+export function siwsChainId(cluster: string = process.env.SOLANA_CLUSTER || 'devnet'): string {
+  return cluster === 'mainnet-beta' ? 'mainnet' : cluster;
+}
+
+/** Random alphanumeric nonce (SIWS requires at least 8 characters) */
+export function createSiwsNonce(): string {
+  return bs58.encode(randomBytes(16));
+}
+
+export function buildSiwsMessage(message: SiwsMessage): string {
+  const lines = [`${message.domain}${HEADER}`, message.address];
+  if (message.statement) lines.push('', message.statement);
+  lines.push('');
+  for (const [key, label] of FIELDS) {
+    const value = message[key];
+    if (value !== undefined) lines.push(`${label}: ${value}`);
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map((r) => `- ${r}`));
+  }
+  return lines.join('\n');
+}
+
+export function parseSiwsMessage(text: string): SiwsMessage {
+  const lines = text.split('\n');
+  if (!lines[0]?.endsWith(HEADER)) throw new SiwsError('Not a Sign-In-With-Solana message');
+  const domain = lines[0].slice(0, -HEADER.length);
+  const address = lines[1] || '';
+
+  // An optional statement sits between two blank lines
+  let i = 2;
+  let statement: string | undefined;
+  if (lines[i] === '' && lines[i + 1] !== undefined && !lines[i + 1].startsWith('URI: ')) {
+    statement = lines[i + 1];
+    i += 2;
+  }
+  if (lines[i] !== '') throw new SiwsError('Malformed message: expected a blank line before the fields');
+  i++;
+
+  const fields: Partial<SiwsMessage> = {};
+  const labels = new Map(FIELDS.map(([key, label]) => [label, key]));
+  for (; i < lines.length && lines[i] !== 'Resources:'; i++) {
+    const sep = lines[i].indexOf(': ');
+    const key = sep > 0 ? labels.get(lines[i].slice(0, sep)) : undefined;
+    if (!key) throw new SiwsError(`Malformed message line: ${lines[i]}`);
+    (fields as Record<string, string>)[key] = lines[i].slice(sep + 2);
+  }
+  const resources = lines.slice(i + 1).map((line) => {
+    if (!line.startsWith('- ')) throw new SiwsError(`Malformed resource line: ${line}`);
+    return line.slice(2);
+  });
+
+  for (const required of ['uri', 'version', 'chainId', 'nonce', 'issuedAt'] as const) {
+    if (!fields[required]) throw new SiwsError(`Missing ${required}`);
+  }
+  return {
+    domain,
+    address,
+    statement,
+    ...(fields as Pick<SiwsMessage, 'uri' | 'version' | 'chainId' | 'nonce' | 'issuedAt'>),
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources: i < lines.length ? resources : undefined,
+  };
+}
+
+/**
+ * Verify a signed SIWS message and return it parsed. Throws SiwsError unless
+ * the signature is the address's, the domain (and nonce and chain id, if
+ * given) match and `now` lies inside the message's validity window. A
+ * timestamp that does not parse is rejected rather than ignored.
+ */
+export function verifySiws(
+  text: string,
+  signature: string,
+  expected: { domain: string; nonce?: string; chainId?: string; now?: Date }
+): SiwsMessage {
+  const message = parseSiwsMessage(text);
+  const now = expected.now || new Date();
+  if (message.domain !== expected.domain) throw new SiwsError(`Domain mismatch: ${message.domain}`);
+  if (expected.nonce !== undefined && message.nonce !== expected.nonce) throw new SiwsError('Nonce mismatch');
+  if (expected.chainId !== undefined && message.chainId !== expected.chainId) {
+    throw new SiwsError(`Chain mismatch: ${message.chainId}`);
+  }
+  parseTime(message.issuedAt, 'Issued At');
+  if (message.expirationTime && parseTime(message.expirationTime, 'Expiration Time') <= now) {
+    throw new SiwsError('Message has expired');
+  }
+  if (message.notBefore && parseTime(message.notBefore, 'Not Before') > now) throw new SiwsError('Message is not valid yet');
+  if (!verifyBytes(text, signature, message.address)) throw new SiwsError('Invalid signature');
+  return message;
+}
+
+/**
+ * Nonces a server has handed out; each verifies at most once, within its TTL.
+ * At most `maxOutstanding` are kept: issuing past that drops the oldest, so
+ * unauthenticated nonce requests cannot grow memory without bound.
+ */
+export class SiwsNonces {
+  private issued = new Map<string, number>(); // nonce → expiry (ms), oldest first
+  private ttlMs: number;
+  private maxOutstanding: number;
+
+  constructor(ttlMs = 5 * 60 * 1000, maxOutstanding = 10_000) {
+    this.ttlMs = ttlMs;
+    this.maxOutstanding = maxOutstanding;
+  }
+
+  issue(): string {
+    this.prune();
+    while (this.issued.size >= this.maxOutstanding) this.issued.delete(this.issued.keys().next().value!);
+    const nonce = createSiwsNonce();
+    this.issued.set(nonce, Date.now() + this.ttlMs);
+    return nonce;
+  }
+
+  /** True once per issued, unexpired nonce */
+  consume(nonce: string): boolean {
+    this.prune();
+    const expiry = this.issued.get(nonce);
+    this.issued.delete(nonce);
+    return expiry !== undefined && expiry > Date.now();
+  }
+
+  get size(): number {
+    return this.issued.size;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [nonce, expiry] of this.issued) if (expiry <= now) this.issued.delete(nonce);
+  }
+}
+
+function parseTime(value: string, field: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new SiwsError(`Invalid ${field}: ${value}`);
+  return date;
+}
+
+function toBytes(message: string | Uint8Array): Uint8Array {
+  return typeof message === 'string' ? new TextEncoder().encode(message) : message;
+}
@@ -0,0 +1,74 @@
+/**
+ * stake.ts
+ * Reading native stake accounts and their activation state.
+ */
+
+import { Connection, LAMPORTS_PER_SOL, ParsedAccountData, PublicKey, StakeProgram } from '@solana/web3.js';
+
+export type StakeState = 'inactive' | 'activating' | 'active' | 'deactivating';
+
+export interface StakeAccountInfo {
+  address: string;
+  lamports: number;
+  balance: number;     // SOL held, including the rent-exempt reserve
+  state: StakeState;
+  voter?: string;      // vote account the stake is delegated to
+  delegated?: number;  // SOL delegated
+  activationEpoch?: number;
+  deactivationEpoch?: number;
+  rentExemptReserve: number; // lamports
+}
+
+/** Parsed jsonParsed stake account data (the fields we read) */
+export interface ParsedStake {
+  type: string; // 'uninitialized' | 'initialized' | 'delegated' | 'rewardsPool'
+  info: {
+    meta: { rentExemptReserve: string; authorized: { staker: string; withdrawer: string } };
+    stake?: {
+      delegation: { voter: string; stake: string; activationEpoch: string; deactivationEpoch: string };
+    } | null;
+  };
+}
+
+const EPOCH_NONE = '18446744073709551615'; // u64::MAX: never deactivated
+const WITHDRAWER_OFFSET = 44; // 4-byte state tag, rent-exempt reserve, staker
+
+/**
+ * Activation state at `epoch` from the delegation epochs. Warmup and cooldown
+ * can spread over several epochs when much stake moves at once; this reports
+ * the state the account is heading to rather than the partial amounts.
+ */
+export function stakeState(parsed: ParsedStake, epoch: number): StakeState {
+  const delegation = parsed.info.stake?.delegation;
+  if (parsed.type !== 'delegated' || !delegation) return 'inactive';
+  if (delegation.deactivationEpoch !== EPOCH_NONE) {
+    return epoch > Number(delegation.deactivationEpoch) ? 'inactive' : 'deactivating';
+  }
+  return epoch > Number(delegation.activationEpoch) ? 'active' : 'activating';
+}
+
+/** Every stake account `withdrawer` can withdraw from, with its activation state */
+export async function listStakeAccounts(connection: Connection, withdrawer: PublicKey): Promise<StakeAccountInfo[]> {
+  const [accounts, { epoch }] = await Promise.all([
+    connection.getParsedProgramAccounts(StakeProgram.programId, {
+      filters: [{ memcmp: { offset: WITHDRAWER_OFFSET, bytes: withdrawer.toBase58() } }],
+    }),
+    connection.getEpochInfo(),
+  ]);
+  return accounts.map(({ pubkey, account }) => {
+    const parsed = (account.data as ParsedAccountData).parsed as ParsedStake;
+    const delegation = parsed.info.stake?.delegation;
+    return {
+      address: pubkey.toBase58(),
+      lamports: account.lamports,
+      balance: account.lamports / LAMPORTS_PER_SOL,
+      state: stakeState(parsed, epoch),
+      voter: delegation?.voter,
+      delegated: delegation ? Number(delegation.stake) / LAMPORTS_PER_SOL : undefined,
+      activationEpoch: delegation ? Number(delegation.activationEpoch) : undefined,
+      deactivationEpoch:
+        delegation && delegation.deactivationEpoch !== EPOCH_NONE ? Number(delegation.deactivationEpoch) : undefined,
+      rentExemptReserve: Number(parsed.info.meta.rentExemptReserve),
+    };
+  });
+}
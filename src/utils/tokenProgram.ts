@@ -0,0 +1,306 @@
+/**
+ * tokenProgram.ts
+ * Helpers shared by the SPL Token and Token-2022 paths.
+ *
+ * The owning program is read from the mint account instead of being assumed.
+ * Transfers always use transferChecked. Mints with a transfer-fee extension
+ * get TransferCheckedWithFee carrying the exact fee for the current epoch.
+ * Destinations that require incoming memos get a memo immediately before the
+ * transfer.
+ */
+
+import { AccountInfo, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  ExtensionType,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  TransferFeeInstruction,
+  amountToUiAmountForMintWithoutSimulation,
+  calculateEpochFee,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferCheckedWithFeeInstruction,
+  decodeTransferInstruction,
+  getAssociatedTokenAddressSync,
+  getExtensionTypes,
+  getMemoTransfer,
+  getTransferFeeConfig,
+  unpackAccount,
+  unpackMint,
+} from '@solana/spl-token';
+import { createMemoInstruction } from './memo';
+
+export type TokenProgramName = 'spl-token' | 'spl-token-2022';
+
+export interface MintDetails {
+  address: PublicKey;
+  programId: PublicKey;
+  program: TokenProgramName;
+  decimals: number;
+  mint: Mint;
+  extensions: string[]; // Token-2022 mint extensions, named as in jsonParsed RPC output ('transferFeeConfig')
+}
+
+export interface TokenBalanceRead {
+  mint: string;
+  account: string | null; // the associated token account, when the mint could be read
+  status: 'ok' | 'no-account' | 'no-mint' | 'error';
+  balance: number;        // UI units; 0 unless status is 'ok'
+  raw?: string;           // base units
+  program?: TokenProgramName;
+  error?: string;
+}
+
+export interface TokenTransfer {
+  recipient: PublicKey; // wallet owner; the associated token account is derived
+  amount: bigint;       // base units
+}
+
+/** Tokens an arbitrary transaction moves out of a wallet's accounts */
+export interface TokenOutflow {
+  mint: string;
+  amount: number;      // UI units
+  destination: string; // owner of the destination token account, or the account itself if it does not exist yet
+}
+
+interface OwnedTransfer {
+  source: PublicKey;
+  destination: PublicKey;
+  programId: PublicKey;
+  amount: bigint;     // base units
+  mint?: PublicKey;   // unknown for a plain transfer until the source is read
+  decimals?: number;
+}
+
+const DEFAULT_MEMO = 'agent transfer';
+const MAX_MULTIPLE_ACCOUNTS = 99; // getMultipleAccountsInfo takes 100 keys; keep mint triples whole
+
+export function tokenProgramName(programId: PublicKey): TokenProgramName {
+  if (programId.equals(TOKEN_PROGRAM_ID)) return 'spl-token';
+  if (programId.equals(TOKEN_2022_PROGRAM_ID)) return 'spl-token-2022';
+  throw new Error(`Not a token program: ${programId.toBase58()}`);
+}
+
+/** Fetch a mint and work out which token program owns it */
+export async function resolveMint(connection: Connection, address: PublicKey): Promise<MintDetails> {
+  const info = await connection.getAccountInfo(address);
+  if (!info) throw new Error(`Mint not found: ${address.toBase58()}`);
+  return mintDetails(address, info);
+}
+
+/** Decode an already-fetched mint account */
+export function mintDetails(address: PublicKey, info: AccountInfo<Buffer>): MintDetails {
+  const program = tokenProgramName(info.owner);
+  const mint = unpackMint(address, info, info.owner);
+  return {
+    address,
+    programId: info.owner,
+    program,
+    decimals: mint.decimals,
+    mint,
+    extensions: extensionNames(mint.tlvData),
+  };
+}
+
+/**
+ * Read `owner`'s associated-account balances for many mints without creating
+ * anything. Each mint is fetched together with both candidate token accounts
+ * (SPL Token and Token-2022 derivations), so up to 33 mints cost one
+ * getMultipleAccountsInfo call.
+ */
+export async function readTokenBalances(
+  connection: Connection,
+  owner: PublicKey,
+  mints: PublicKey[]
+): Promise<TokenBalanceRead[]> {
+  const keys = mints.flatMap((mint) => [
+    mint,
+    getAssociatedTokenAddressSync(mint, owner, true, TOKEN_PROGRAM_ID),
+    getAssociatedTokenAddressSync(mint, owner, true, TOKEN_2022_PROGRAM_ID),
+  ]);
+
+  let infos: (AccountInfo<Buffer> | null)[] = [];
+  try {
+    for (let i = 0; i < keys.length; i += MAX_MULTIPLE_ACCOUNTS) {
+      infos = infos.concat(await connection.getMultipleAccountsInfo(keys.slice(i, i + MAX_MULTIPLE_ACCOUNTS)));
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return mints.map((mint) => ({ mint: mint.toBase58(), account: null, status: 'error', balance: 0, error }));
+  }
+
+  return Promise.all(
+    mints.map(async (mint, i): Promise<TokenBalanceRead> => {
+      const base = { mint: mint.toBase58(), balance: 0 };
+      const mintInfo = infos[3 * i];
+      if (!mintInfo) return { ...base, account: null, status: 'no-mint' };
+      try {
+        const details = mintDetails(mint, mintInfo);
+        const index = details.program === 'spl-token' ? 3 * i + 1 : 3 * i + 2;
+        const address = keys[index];
+        const info = infos[index];
+        const read = { ...base, account: address.toBase58(), program: details.program };
+        if (!info) return { ...read, status: 'no-account' };
+        const account = unpackAccount(address, info, details.programId);
+        return {
+          ...read,
+          status: 'ok',
+          raw: account.amount.toString(),
+          balance: await toUiAmount(connection, details, account.amount),
+        };
+      } catch (err) {
+        return { ...base, account: null, status: 'error', error: err instanceof Error ? err.message : String(err) };
+      }
+    })
+  );
+}
+
+/**
+ * Tokens leaving accounts `owner` is the authority of through transfer,
+ * transferChecked and transferCheckedWithFee — used to apply mint caps to
+ * arbitrary transactions. A plain transfer names no mint, so its source account
+ * is read to find it; if that fails the transfer cannot be classified and this
+ * throws.
+ */
+export async function summarizeTokenOutflows(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  owner: PublicKey
+): Promise<TokenOutflow[]> {
+  const transfers: OwnedTransfer[] = [];
+  for (const ix of instructions) {
+    if (!ix.programId.equals(TOKEN_PROGRAM_ID) && !ix.programId.equals(TOKEN_2022_PROGRAM_ID)) continue;
+    const programId = ix.programId;
+    try {
+      if (ix.data[0] === TokenInstruction.Transfer) {
+        const { keys, data } = decodeTransferInstruction(ix, programId);
+        if (keys.owner.pubkey.equals(owner)) {
+          transfers.push({ source: keys.source.pubkey, destination: keys.destination.pubkey, programId, amount: data.amount });
+        }
+      } else if (ix.data[0] === TokenInstruction.TransferChecked) {
+        const { keys, data } = decodeTransferCheckedInstruction(ix, programId);
+        if (keys.owner.pubkey.equals(owner)) {
+          transfers.push({ ...transferKeys(keys), programId, amount: data.amount, decimals: data.decimals });
+        }
+      } else if (
+        ix.data[0] === TokenInstruction.TransferFeeExtension &&
+        ix.data[1] === TransferFeeInstruction.TransferCheckedWithFee
+      ) {
+        const { keys, data } = decodeTransferCheckedWithFeeInstruction(ix, programId);
+        if (keys.authority.pubkey.equals(owner)) {
+          transfers.push({ ...transferKeys(keys), programId, amount: data.amount, decimals: data.decimals });
+        }
+      }
+    } catch {
+      throw new Error('Cannot classify a token transfer instruction for the spend policy');
+    }
+  }
+  if (transfers.length === 0) return [];
+
+  // Source accounts of plain transfers (for their mint) and every destination (for its owner)
+  const accounts = await fetchAccounts(connection, [
+    ...transfers.filter((t) => !t.mint).map((t) => t.source),
+    ...transfers.map((t) => t.destination),
+  ]);
+  for (const t of transfers.filter((t) => !t.mint)) {
+    const info = accounts.get(t.source.toBase58());
+    if (!info) throw new Error(`Cannot read token account ${t.source.toBase58()} to classify a transfer`);
+    t.mint = unpackAccount(t.source, info, t.programId).mint;
+  }
+  const mints = await fetchAccounts(connection, transfers.filter((t) => t.decimals === undefined).map((t) => t.mint!));
+  return transfers.map((t) => {
+    let decimals = t.decimals;
+    if (decimals === undefined) {
+      const info = mints.get(t.mint!.toBase58());
+      if (!info) throw new Error(`Mint not found: ${t.mint!.toBase58()}`);
+      decimals = unpackMint(t.mint!, info, t.programId).decimals;
+    }
+    const destination = accounts.get(t.destination.toBase58());
+    return {
+      mint: t.mint!.toBase58(),
+      amount: Number(t.amount) / Math.pow(10, decimals),
+      destination: destination ? unpackAccount(t.destination, destination, t.programId).owner.toBase58() : t.destination.toBase58(),
+    };
+  });
+}
+
+function transferKeys(keys: { source: { pubkey: PublicKey }; mint: { pubkey: PublicKey }; destination: { pubkey: PublicKey } }) {
+  return { source: keys.source.pubkey, mint: keys.mint.pubkey, destination: keys.destination.pubkey };
+}
+
+/** Accounts by address; missing accounts are left out */
+async function fetchAccounts(connection: Connection, addresses: PublicKey[]): Promise<Map<string, AccountInfo<Buffer>>> {
+  const unique = Array.from(new Map(addresses.map((a) => [a.toBase58(), a])).values());
+  const found = new Map<string, AccountInfo<Buffer>>();
+  for (let i = 0; i < unique.length; i += MAX_MULTIPLE_ACCOUNTS) {
+    const batch = unique.slice(i, i + MAX_MULTIPLE_ACCOUNTS);
+    const infos = await connection.getMultipleAccountsInfo(batch);
+    infos.forEach((info, j) => info && found.set(batch[j].toBase58(), info));
+  }
+  return found;
+}
+
+export function extensionNames(tlvData: Buffer): string[] {
+  if (tlvData.length === 0) return [];
+  return getExtensionTypes(tlvData).map((t) => {
+    const name = ExtensionType[t] || `unknown${t}`;
+    return name[0].toLowerCase() + name.slice(1);
+  });
+}
+
+/** UI amount of a raw balance, applying interest-bearing or scaled-UI extensions */
+export async function toUiAmount(connection: Connection, details: MintDetails, amount: bigint): Promise<number> {
+  if (details.extensions.includes('interestBearingConfig') || details.extensions.includes('scaledUiAmountConfig')) {
+    return parseFloat(await amountToUiAmountForMintWithoutSimulation(connection, details.address, amount));
+  }
+  return Number(amount) / Math.pow(10, details.decimals);
+}
+
+/**
+ * Instructions for each transfer (creating missing recipient accounts) and the
+ * fee the mint withholds from each, in base units.
+ */
+export async function buildTokenTransfers(
+  connection: Connection,
+  details: MintDetails,
+  owner: PublicKey,
+  transfers: TokenTransfer[],
+  memo: string = DEFAULT_MEMO
+): Promise<{ instructions: TransactionInstruction[][]; fees: bigint[] }> {
+  const { address: mint, programId, decimals } = details;
+  const source = getAssociatedTokenAddressSync(mint, owner, false, programId);
+  const destinations = transfers.map((t) => getAssociatedTokenAddressSync(mint, t.recipient, true, programId));
+
+  const feeConfig = getTransferFeeConfig(details.mint);
+  const epoch = feeConfig ? BigInt((await connection.getEpochInfo()).epoch) : BigInt(0);
+  // Only Token-2022 accounts can demand memos; existing accounts are read in batches the RPC accepts
+  const existing = details.program === 'spl-token-2022' ? await fetchAccounts(connection, destinations) : new Map();
+  const memoRequired = destinations.map((destination) => {
+    const info = existing.get(destination.toBase58());
+    if (!info) return false;
+    const account = unpackAccount(destination, info, programId);
+    return getMemoTransfer(account)?.requireIncomingTransferMemos ?? false;
+  });
+
+  const instructions: TransactionInstruction[][] = [];
+  const fees: bigint[] = [];
+  transfers.forEach((t, i) => {
+    const fee = feeConfig ? calculateEpochFee(feeConfig, epoch, t.amount) : BigInt(0);
+    const group = [
+      createAssociatedTokenAccountIdempotentInstruction(owner, destinations[i], t.recipient, mint, programId),
+    ];
+    if (memoRequired[i]) group.push(createMemoInstruction(memo, [owner]));
+    group.push(
+      feeConfig
+        ? createTransferCheckedWithFeeInstruction(source, mint, destinations[i], owner, t.amount, decimals, fee, [], programId)
+        : createTransferCheckedInstruction(source, mint, destinations[i], owner, t.amount, decimals, [], programId)
+    );
+    instructions.push(group);
+    fees.push(fee);
+  });
+  return { instructions, fees };
+}
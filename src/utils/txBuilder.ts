@@ -1,36 +1,175 @@
-import { Connection, PublicKey, SystemProgram, Transaction, Commitment, Keypair } from '@solana/web3.js';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  SystemInstruction,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  Commitment,
+  Keypair,
+} from '@solana/web3.js';
+import { FeeOptions, withComputeBudget } from './feeStrategy';
+import { Resigner, TransactionSendError, sendWithRetry } from './txSender';
+
+/** Build an unsigned legacy transaction with a sized compute budget and fresh blockhash */
+export async function prepareTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  commitment: Commitment,
+  fees: FeeOptions = {}
+) {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+  const budgeted = await withComputeBudget(connection, payer, instructions, blockhash, fees);
+  const tx = new Transaction().add(...budgeted.instructions);
+  tx.feePayer = payer;
+  tx.recentBlockhash = blockhash;
+  return { tx, blockhash, lastValidBlockHeight, fee: budgeted.fee };
+}
 
 export async function prepareTransfer(
   connection: Connection,
   from: Keypair,
   to: PublicKey,
   lamports: number,
-  commitment: Commitment
+  commitment: Commitment,
+  fees: FeeOptions = {}
 ) {
-  const tx = new Transaction().add(
-    SystemProgram.transfer({
-      fromPubkey: from.publicKey,
-      toPubkey: to,
-      lamports,
-    })
+  const prepared = await prepareTransaction(
+    connection,
+    from.publicKey,
+    [SystemProgram.transfer({ fromPubkey: from.publicKey, toPubkey: to, lamports })],
+    commitment,
+    fees
   );
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
-  tx.feePayer = from.publicKey;
-  tx.recentBlockhash = blockhash;
-  tx.sign(from);
-  return { tx, blockhash, lastValidBlockHeight };
+  prepared.tx.sign(from);
+  return prepared;
 }
 
+/** Simulate, broadcast until confirmed or expired, and return the landed signature */
 export async function simulateAndSend(
   connection: Connection,
-  tx: Transaction,
+  tx: Transaction | VersionedTransaction,
   blockhash: string,
   lastValidBlockHeight: number,
-  commitment: Commitment
+  commitment: Commitment,
+  resign?: Resigner
 ) {
-  const sim = await connection.simulateTransaction(tx);
-  if (sim.value.err) throw new Error(JSON.stringify(sim.value.err));
-  const sig = await connection.sendRawTransaction(tx.serialize());
-  await connection.confirmTransaction({ signature: sig, blockhash, lastValidBlockHeight }, commitment);
-  return sig;
+  const outcome = await sendWithRetry(connection, { tx, blockhash, lastValidBlockHeight }, { commitment }, resign);
+  if (outcome.status !== 'confirmed') throw new TransactionSendError(outcome);
+  return outcome.signature!;
+}
+
+/**
+ * Split instruction groups (e.g. one payout each) into transactions that fit in
+ * a single packet alongside a compute budget and any `extra` instructions every
+ * transaction carries (e.g. a memo). Returns the group indices per transaction,
+ * in order; a group is never split across transactions.
+ */
+export function packInstructionGroups(
+  payer: PublicKey,
+  groups: TransactionInstruction[][],
+  extra: TransactionInstruction[] = []
+): number[][] {
+  const packed: number[][] = [];
+  let current: number[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const candidate = [...current, i];
+    if (legacySize(payer, [...candidate.flatMap((g) => groups[g]), ...extra]) <= PACKET_DATA_SIZE) {
+      current = candidate;
+      continue;
+    }
+    if (current.length === 0) throw new Error(`Instruction group ${i} does not fit in a transaction`);
+    packed.push(current);
+    current = [i];
+    if (legacySize(payer, [...groups[i], ...extra]) > PACKET_DATA_SIZE) {
+      throw new Error(`Instruction group ${i} does not fit in a transaction`);
+    }
+  }
+  if (current.length > 0) packed.push(current);
+  return packed;
+}
+
+/** Whether a legacy transaction carrying these instructions (and a compute budget) fits in one packet */
+export function fitsInPacket(payer: PublicKey, instructions: TransactionInstruction[]): boolean {
+  return legacySize(payer, instructions) <= PACKET_DATA_SIZE;
+}
+
+/** Wire size of a signed legacy transaction carrying these instructions and a compute budget */
+function legacySize(payer: PublicKey, instructions: TransactionInstruction[]): number {
+  const tx = new Transaction({ feePayer: payer, recentBlockhash: PublicKey.default.toBase58() }).add(
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 0 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+    ...instructions
+  );
+  const signers = tx.compileMessage().header.numRequiredSignatures;
+  return tx.serializeMessage().length + 1 + 64 * signers;
+}
+
+/**
+ * Sum the lamports `owner` pays out through SystemProgram instructions (transfers,
+ * account creation, and transfers from accounts derived from `owner` with a
+ * seed) — used to apply spend policy to arbitrary transactions. A system
+ * instruction that cannot be decoded throws rather than counting as nothing.
+ */
+export function summarizeSolOutflows(instructions: TransactionInstruction[], owner: PublicKey) {
+  let lamports = 0;
+  const destinations: string[] = [];
+  const pay = (payer: PublicKey, to: PublicKey, amount: number | bigint) => {
+    if (!payer.equals(owner)) return;
+    lamports += Number(amount);
+    destinations.push(to.toBase58());
+  };
+  for (const ix of instructions) {
+    if (!ix.programId.equals(SystemProgram.programId)) continue;
+    let type: string;
+    try {
+      type = SystemInstruction.decodeInstructionType(ix);
+    } catch {
+      throw new Error('Cannot classify a SystemProgram instruction for the spend policy');
+    }
+    if (type === 'Transfer') {
+      const d = SystemInstruction.decodeTransfer(ix);
+      pay(d.fromPubkey, d.toPubkey, d.lamports);
+    } else if (type === 'Create') {
+      const d = SystemInstruction.decodeCreateAccount(ix);
+      pay(d.fromPubkey, d.newAccountPubkey, d.lamports);
+    } else if (type === 'CreateWithSeed') {
+      const d = SystemInstruction.decodeCreateWithSeed(ix);
+      pay(d.fromPubkey, d.newAccountPubkey, d.lamports);
+    } else if (type === 'TransferWithSeed') {
+      const d = SystemInstruction.decodeTransferWithSeed(ix); // signed by the base key, paid from the derived account
+      pay(d.basePubkey, d.toPubkey, d.lamports);
+    }
+  }
+  return { lamports, destinations };
+}
+
+/** Fetch address lookup table accounts, failing loudly if any is missing or closed */
+export async function resolveLookupTables(
+  connection: Connection,
+  addresses: PublicKey[]
+): Promise<AddressLookupTableAccount[]> {
+  const tables = await Promise.all(addresses.map((a) => connection.getAddressLookupTable(a)));
+  return tables.map((t, i) => {
+    if (!t.value) throw new Error(`Address lookup table not found: ${addresses[i].toBase58()}`);
+    return t.value;
+  });
+}
+
+/** Recover the instructions of a v0 transaction, expanding any lookup-table accounts */
+export async function decompileInstructions(
+  connection: Connection,
+  tx: VersionedTransaction
+): Promise<TransactionInstruction[]> {
+  const tables = await resolveLookupTables(
+    connection,
+    tx.message.addressTableLookups.map((l) => l.accountKey)
+  );
+  return TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: tables }).instructions;
 }
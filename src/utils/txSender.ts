@@ -0,0 +1,268 @@
+/**
+ * txSender.ts
+ * Blockhash-expiry aware sender.
+ *
+ * Simulates once, then broadcasts the signed transaction at a fixed interval
+ * until one of its signatures reaches the requested commitment or the block
+ * height passes lastValidBlockHeight. Once a blockhash has expired the old
+ * signature can never land, so it is safe to re-sign with a fresh blockhash
+ * (when the caller supplies a resigner) and keep going. Every signature ever
+ * broadcast is tracked, so a late landing of an earlier attempt still counts.
+ *
+ * An RPC failure while tracking the transaction ends the loop with an
+ * `unknown` outcome that keeps every signature, since one may still land.
+ *
+ * Durable-nonce transactions never expire by block height; sendDurable waits
+ * until the transaction lands or its nonce is advanced by something else.
+ * simulateSigned stops after the simulation, for paper trading.
+ */
+
+import bs58 from 'bs58';
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  SignatureStatus,
+  SimulatedTransactionAccountInfo,
+  Transaction,
+  TransactionExpiredNonceInvalidError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { logger } from './logger';
+
+// 'unknown': the RPC failed while the transaction was being tracked, so it may still land
+export type SendStatus = 'confirmed' | 'expired' | 'simulation-failed' | 'rejected' | 'unknown';
+
+export interface SendOutcome {
+  status: SendStatus;
+  signature?: string;    // the signature that landed, or the last one broadcast
+  signatures: string[];  // every distinct signature broadcast
+  attempts: number;      // broadcasts, including rebroadcasts of the same bytes
+  resigns: number;
+  slot?: number;
+  error?: string;
+  logs?: string[];
+}
+
+export class TransactionSendError extends Error {
+  readonly outcome: SendOutcome;
+
+  constructor(outcome: SendOutcome) {
+    super(`Transaction ${outcome.status}${outcome.error ? `: ${outcome.error}` : ''}`);
+    this.name = 'TransactionSendError';
+    this.outcome = outcome;
+  }
+}
+
+const BLOCKHASH_NOT_FOUND = /blockhash not found/i;
+
+export interface SignedTransaction {
+  tx: Transaction | VersionedTransaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+/** Rebuild and re-sign against a fresh blockhash */
+export type Resigner = () => Promise<SignedTransaction>;
+
+export interface SendOptions {
+  commitment?: Commitment;
+  rebroadcastMs?: number;
+  maxResigns?: number;
+  skipSimulation?: boolean;
+}
+
+export async function sendWithRetry(
+  connection: Connection,
+  signed: SignedTransaction,
+  options: SendOptions = {},
+  resign?: Resigner
+): Promise<SendOutcome> {
+  const commitment = options.commitment || 'confirmed';
+  const rebroadcastMs = options.rebroadcastMs ?? 2000;
+  const maxResigns = options.maxResigns ?? 2;
+  const outcome: SendOutcome = { status: 'expired', signatures: [], attempts: 0, resigns: 0 };
+
+  if (!options.skipSimulation) {
+    const sim =
+      signed.tx instanceof VersionedTransaction
+        ? await connection.simulateTransaction(signed.tx, { commitment })
+        : await connection.simulateTransaction(signed.tx);
+    if (sim.value.err) {
+      return { ...outcome, status: 'simulation-failed', error: JSON.stringify(sim.value.err), logs: sim.value.logs || undefined };
+    }
+  }
+
+  let current = signed;
+  let fresh = true; // current bytes have not been accepted by the RPC yet
+  for (;;) {
+    const signature = signatureOf(current.tx);
+    if (!outcome.signatures.includes(signature)) outcome.signatures.push(signature);
+    outcome.signature = signature;
+
+    try {
+      await connection.sendRawTransaction(current.tx.serialize(), { skipPreflight: true, maxRetries: 0 });
+      outcome.attempts++;
+      fresh = false;
+    } catch (err) {
+      // The RPC refusing new bytes is terminal, unless it has not seen the blockhash yet (a lagging
+      // node behind a load balancer); network errors and refused rebroadcasts are retried
+      if (fresh && err instanceof SendTransactionError && !BLOCKHASH_NOT_FOUND.test(err.message)) {
+        return { ...outcome, status: 'rejected', error: err.message, logs: err.logs };
+      }
+      logger.debug(`[Sender] Broadcast of ${signature.slice(0, 12)}… failed: ${err}`);
+    }
+
+    await sleep(rebroadcastMs);
+    try {
+      const landed = await checkSignatures(connection, outcome.signatures, commitment, false);
+      if (landed) return settle(outcome, landed);
+
+      const height = await connection.getBlockHeight(commitment);
+      if (height <= current.lastValidBlockHeight) continue; // still valid — rebroadcast the same bytes
+
+      // Expired: one last look through history before deciding nothing landed
+      const late = await checkSignatures(connection, outcome.signatures, commitment, true);
+      if (late) return settle(outcome, late);
+    } catch (err) {
+      // What was broadcast may still land; the caller keeps the signatures to check later
+      return { ...outcome, status: 'unknown', error: `Lost track of the transaction: ${errorMessage(err)}` };
+    }
+    if (!resign || outcome.resigns >= maxResigns) {
+      return { ...outcome, status: 'expired', error: `Blockhash expired at height ${current.lastValidBlockHeight}` };
+    }
+    try {
+      current = await resign();
+    } catch (err) {
+      return { ...outcome, status: 'expired', error: `Blockhash expired and re-signing failed: ${errorMessage(err)}` };
+    }
+    fresh = true;
+    outcome.resigns++;
+    logger.info(`[Sender] Blockhash expired; re-signed with ${current.blockhash.slice(0, 8)}… (resign ${outcome.resigns})`);
+  }
+}
+
+export interface DurableNonceInfo {
+  nonceAccount: PublicKey;
+  nonce: string;          // nonce value the transaction was signed against
+  minContextSlot: number; // slot the nonce was read at
+}
+
+/** Send a transaction signed against a durable nonce and wait for it to land or be invalidated */
+export async function sendDurable(
+  connection: Connection,
+  tx: Transaction,
+  nonce: DurableNonceInfo,
+  options: SendOptions = {}
+): Promise<SendOutcome> {
+  const commitment = options.commitment || 'confirmed';
+  const signature = signatureOf(tx);
+  const outcome: SendOutcome = { status: 'expired', signature, signatures: [signature], attempts: 0, resigns: 0 };
+
+  if (!options.skipSimulation) {
+    const sim = await connection.simulateTransaction(tx);
+    if (sim.value.err) {
+      return { ...outcome, status: 'simulation-failed', error: JSON.stringify(sim.value.err), logs: sim.value.logs || undefined };
+    }
+  }
+
+  try {
+    await connection.sendRawTransaction(tx.serialize(), { skipPreflight: true });
+    outcome.attempts++;
+  } catch (err) {
+    if (err instanceof SendTransactionError) return { ...outcome, status: 'rejected', error: err.message, logs: err.logs };
+    throw err;
+  }
+
+  try {
+    const { context, value } = await connection.confirmTransaction(
+      {
+        signature,
+        nonceAccountPubkey: nonce.nonceAccount,
+        nonceValue: nonce.nonce,
+        minContextSlot: nonce.minContextSlot,
+      },
+      commitment
+    );
+    if (value.err) return { ...outcome, status: 'rejected', slot: context.slot, error: JSON.stringify(value.err) };
+    return { ...outcome, status: 'confirmed', slot: context.slot };
+  } catch (err) {
+    if (err instanceof TransactionExpiredNonceInvalidError) {
+      return { ...outcome, status: 'expired', error: `Nonce ${nonce.nonceAccount.toBase58()} advanced before the transaction landed` };
+    }
+    throw err;
+  }
+}
+
+export interface SimulationOutcome {
+  signature: string; // what the transaction would have landed under
+  slot: number;
+  error?: string;
+  logs?: string[];
+  accounts: (SimulatedTransactionAccountInfo | null)[]; // state of the requested accounts afterwards
+}
+
+/** Simulate a signed transaction without broadcasting it, reading back the requested accounts */
+export async function simulateSigned(
+  connection: Connection,
+  tx: Transaction | VersionedTransaction,
+  accounts: PublicKey[],
+  commitment: Commitment = 'confirmed'
+): Promise<SimulationOutcome> {
+  const { context, value } =
+    tx instanceof VersionedTransaction
+      ? await connection.simulateTransaction(tx, {
+          commitment,
+          accounts: { encoding: 'base64', addresses: accounts.map((a) => a.toBase58()) },
+        })
+      : await connection.simulateTransaction(tx, undefined, accounts);
+  return {
+    signature: signatureOf(tx),
+    slot: context.slot,
+    error: value.err ? JSON.stringify(value.err) : undefined,
+    logs: value.logs || undefined,
+    accounts: value.accounts || accounts.map(() => null),
+  };
+}
+
+function signatureOf(tx: Transaction | VersionedTransaction): string {
+  const sig = tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+  if (!sig) throw new Error('Transaction is not signed');
+  return bs58.encode(sig);
+}
+
+async function checkSignatures(
+  connection: Connection,
+  signatures: string[],
+  commitment: Commitment,
+  searchTransactionHistory: boolean
+): Promise<{ signature: string; status: SignatureStatus } | null> {
+  const { value } = await connection.getSignatureStatuses(signatures, { searchTransactionHistory });
+  for (let i = 0; i < value.length; i++) {
+    const status = value[i];
+    if (status && (status.err || reached(status, commitment))) return { signature: signatures[i], status };
+  }
+  return null;
+}
+
+function reached(status: SignatureStatus, commitment: Commitment): boolean {
+  const level = status.confirmationStatus;
+  if (commitment === 'finalized') return level === 'finalized';
+  if (commitment === 'confirmed') return level === 'confirmed' || level === 'finalized';
+  return level !== undefined;
+}
+
+function settle(outcome: SendOutcome, landed: { signature: string; status: SignatureStatus }): SendOutcome {
+  const base = { ...outcome, signature: landed.signature, slot: landed.status.slot };
+  if (landed.status.err) return { ...base, status: 'rejected', error: JSON.stringify(landed.status.err) };
+  return { ...base, status: 'confirmed' };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
@@ -0,0 +1,236 @@
+/**
+ * Accounting.ts
+ * Where an agent's SOL went: fees, rent and principal per transaction, and a
+ * per-agent statement built from them.
+ *
+ * Each landed transaction is broken down from its parsed meta:
+ *
+ *   solDelta = principal − networkFee − priorityFee − rentPaid + rentReclaimed
+ *
+ * Rent is what opening accounts locked up (system createAccount funded by the
+ * agent, capped at the rent-exempt minimum so stake deposits stay principal)
+ * and what closing them returned (token closeAccount, nonce and stake
+ * withdrawals that empty the account). Accounts opened and closed inside one
+ * transaction, like Jupiter's temporary wSOL account, net out and are ignored.
+ *
+ * Transactions with several records (batch payouts) carry the breakdown on the
+ * first record only, like the fee estimate.
+ */
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  NONCE_ACCOUNT_LENGTH,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  StakeProgram,
+} from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import type { TransactionRecord } from './AgentWallet';
+import { LAMPORTS_PER_SIGNATURE } from '../utils/feeStrategy';
+
+/** SOL amounts for one transaction, from the agent's point of view */
+export interface TxAccounting {
+  solDelta: number;      // change in the agent's SOL balance
+  principal: number;     // SOL sent (negative) or received (positive), excluding fees and rent
+  networkFee: number;    // signature fees, if the agent paid them
+  priorityFee: number;   // compute unit price × units, if the agent paid
+  rentPaid: number;
+  rentReclaimed: number;
+  tokenDeltas?: Record<string, number>; // mint → UI amount change of the agent's token balances
+}
+
+export interface OpenPosition {
+  mint: string;
+  quantity: number;
+  costSOL: number;
+}
+
+export interface AgentStatement {
+  agentId: string;
+  since?: string;
+  until?: string;
+  transactions: number;   // transactions with a breakdown
+  unaccounted: number;    // landed transactions not yet broken down (run reconcile)
+  principalIn: number;
+  principalOut: number;   // positive number
+  networkFees: number;
+  priorityFees: number;
+  rentPaid: number;
+  rentReclaimed: number;
+  tradingPnl: number;     // realized, average cost in SOL
+  netChange: number;      // sum of solDelta over the period
+  openPositions: OpenPosition[];
+}
+
+// jsonParsed program names; Token-2022 parses under its own name
+const TOKEN_PROGRAMS = new Set(['spl-token', 'spl-token-2022']);
+const NATIVE_MINT_ADDRESS = NATIVE_MINT.toBase58();
+
+/** Rent-exempt minimums by account size, cached per process */
+const rentBySpace = new Map<number, number>();
+
+async function rentFor(connection: Connection, space: number): Promise<number> {
+  if (!rentBySpace.has(space)) rentBySpace.set(space, await connection.getMinimumBalanceForRentExemption(space));
+  return rentBySpace.get(space)!;
+}
+
+/** Break a landed transaction down for `owner` (base58) */
+export async function accountTransaction(
+  connection: Connection,
+  tx: ParsedTransactionWithMeta,
+  owner: string
+): Promise<TxAccounting> {
+  const meta = tx.meta;
+  if (!meta) throw new Error('Transaction has no meta');
+  const keys = tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58());
+  const index = new Map(keys.map((k, i) => [k, i]));
+  const pre = (address: string) => meta.preBalances[index.get(address) ?? -1] ?? 0;
+  const post = (address: string) => meta.postBalances[index.get(address) ?? -1] ?? 0;
+
+  const paidFees = keys[0] === owner;
+  const baseFee = paidFees ? Math.min(meta.fee, LAMPORTS_PER_SIGNATURE * tx.transaction.signatures.length) : 0;
+  const priorityFee = paidFees ? meta.fee - baseFee : 0;
+
+  let rentPaid = 0;
+  let rentReclaimed = 0;
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(meta.innerInstructions || []).flatMap((ii) => ii.instructions),
+  ];
+  for (const ix of instructions) {
+    if (!isParsed(ix) || !ix.parsed) continue;
+    const { type, info } = ix.parsed as { type: string; info: Record<string, any> };
+
+    if (ix.program === 'system' && (type === 'createAccount' || type === 'createAccountWithSeed')) {
+      if (info.source !== owner || post(info.newAccount) === 0) continue;
+      rentPaid += Math.min(info.lamports, await rentFor(connection, info.space));
+    } else if (TOKEN_PROGRAMS.has(ix.program) && type === 'closeAccount') {
+      if (info.destination !== owner || post(info.account) !== 0) continue;
+      const balance = (meta.preTokenBalances || []).find((b) => keys[b.accountIndex] === info.account);
+      const wrapped = balance?.mint === NATIVE_MINT_ADDRESS ? Number(balance.uiTokenAmount.amount) : 0;
+      rentReclaimed += pre(info.account) - wrapped;
+    } else if (ix.program === 'system' && type === 'withdrawFromNonce') {
+      if (info.destination !== owner || post(info.nonceAccount) !== 0) continue;
+      rentReclaimed += Math.min(info.lamports, await rentFor(connection, NONCE_ACCOUNT_LENGTH));
+    } else if (ix.program === 'stake' && type === 'withdraw') {
+      if (info.destination !== owner || post(info.stakeAccount) !== 0) continue;
+      rentReclaimed += Math.min(info.lamports, await rentFor(connection, StakeProgram.space));
+    }
+  }
+
+  const solDelta = post(owner) - pre(owner);
+  const tokenDeltas: Record<string, number> = {};
+  for (const balance of meta.postTokenBalances || []) {
+    if (balance.owner !== owner) continue;
+    const before = (meta.preTokenBalances || []).find((b) => b.accountIndex === balance.accountIndex);
+    const delta = (balance.uiTokenAmount.uiAmount || 0) - (before?.uiTokenAmount.uiAmount || 0);
+    if (delta !== 0) tokenDeltas[balance.mint] = (tokenDeltas[balance.mint] || 0) + delta;
+  }
+  for (const balance of meta.preTokenBalances || []) {
+    // Accounts closed in this transaction have no post balance
+    const closed = !(meta.postTokenBalances || []).some((b) => b.accountIndex === balance.accountIndex);
+    if (balance.owner !== owner || !closed) continue;
+    const delta = -(balance.uiTokenAmount.uiAmount || 0);
+    if (delta !== 0) tokenDeltas[balance.mint] = (tokenDeltas[balance.mint] || 0) + delta;
+  }
+
+  return {
+    solDelta: solDelta / LAMPORTS_PER_SOL,
+    principal: (solDelta + baseFee + priorityFee + rentPaid - rentReclaimed) / LAMPORTS_PER_SOL,
+    networkFee: baseFee / LAMPORTS_PER_SOL,
+    priorityFee: priorityFee / LAMPORTS_PER_SOL,
+    rentPaid: rentPaid / LAMPORTS_PER_SOL,
+    rentReclaimed: rentReclaimed / LAMPORTS_PER_SOL,
+    tokenDeltas: Object.keys(tokenDeltas).length > 0 ? tokenDeltas : undefined,
+  };
+}
+
+/**
+ * Statement over an agent's records. Trades (records marked by a DEX adapter)
+ * feed realized P&L at average cost instead of principal; a trade without a
+ * token leg, like the simulated DEX's pool transfer, realizes its SOL at once.
+ */
+export function buildStatement(
+  agentId: string,
+  records: TransactionRecord[],
+  period: { since?: Date; until?: Date } = {}
+): AgentStatement {
+  const statement: AgentStatement = {
+    agentId,
+    since: period.since?.toISOString(),
+    until: period.until?.toISOString(),
+    transactions: 0,
+    unaccounted: 0,
+    principalIn: 0,
+    principalOut: 0,
+    networkFees: 0,
+    priorityFees: 0,
+    rentPaid: 0,
+    rentReclaimed: 0,
+    tradingPnl: 0,
+    netChange: 0,
+    openPositions: [],
+  };
+  const positions = new Map<string, OpenPosition>();
+  const landed = records
+    .filter((r) => r.status === 'confirmed' || r.status === 'finalized')
+    .filter((r) => {
+      const at = new Date(r.timestamp);
+      return (!period.since || at >= period.since) && (!period.until || at <= period.until);
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const seen = new Set<string>();
+
+  for (const record of landed) {
+    if (record.signature && seen.has(record.signature)) continue;
+    const a = record.accounting;
+    if (!a) {
+      // Later records of the same transaction carry no breakdown
+      if (!record.batchId || !landed.some((r) => r.signature === record.signature && r.accounting)) {
+        statement.unaccounted++;
+      }
+      continue;
+    }
+    if (record.signature) seen.add(record.signature);
+    statement.transactions++;
+    statement.networkFees += a.networkFee;
+    statement.priorityFees += a.priorityFee;
+    statement.rentPaid += a.rentPaid;
+    statement.rentReclaimed += a.rentReclaimed;
+    statement.netChange += a.solDelta;
+
+    if (!record.trade) {
+      if (a.principal >= 0) statement.principalIn += a.principal;
+      else statement.principalOut -= a.principal;
+      continue;
+    }
+    const legs = Object.entries(a.tokenDeltas || {}).filter(([mint]) => mint !== NATIVE_MINT_ADDRESS);
+    if (legs.length === 0) {
+      statement.tradingPnl += a.principal;
+      continue;
+    }
+    // One token leg per swap; the SOL side is the principal
+    const [mint, quantity] = legs[0];
+    const position = positions.get(mint) || { mint, quantity: 0, costSOL: 0 };
+    if (quantity > 0) {
+      position.costSOL -= a.principal;
+      position.quantity += quantity;
+    } else {
+      const share = position.quantity > 0 ? Math.min(1, -quantity / position.quantity) : 0;
+      const basis = position.costSOL * share;
+      statement.tradingPnl += a.principal - basis;
+      position.costSOL -= basis;
+      position.quantity = Math.max(0, position.quantity + quantity);
+    }
+    positions.set(mint, position);
+  }
+
+  statement.openPositions = Array.from(positions.values()).filter((p) => p.quantity > 0);
+  return statement;
+}
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
@@ -0,0 +1,191 @@
+/**
+ * AddressBook.ts
+ * Persistent, labelled counterparties shared by every agent.
+ *
+ * Send APIs accept a label wherever they take an address, spend policies can
+ * name entries instead of raw keys, and the dashboard and observer show labels
+ * instead of base58. An entry can be limited to some agents; a label outside
+ * its allowedAgents does not resolve for anyone else.
+ *
+ * Entries are checked when added: the address must be a valid public key, and
+ * a `wallet` must be on the ed25519 curve (an off-curve address is a PDA that
+ * no one can sign for, so funds sent there as a "wallet" are stuck).
+ *
+ * Policy lists (allowlist, denylist, approval.knownDestinations) may contain:
+ *   "@<label>"        the entry's address
+ *   "@type:<type>"    every entry of that type
+ *
+ * One JSON file shared by every process: .agent-keys/address-book.json
+ * (or ADDRESS_BOOK_PATH), re-read on every call so CLI edits apply at once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+
+export type AddressType = 'wallet' | 'agent' | 'pool' | 'program' | 'exchange' | 'other';
+
+export interface AddressEntry {
+  label: string;
+  address: string;
+  type: AddressType;
+  allowedAgents?: string[]; // agents that may resolve this label; omitted means all
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class AddressBookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AddressBookError';
+  }
+}
+
+export const ADDRESS_TYPES: AddressType[] = ['wallet', 'agent', 'pool', 'program', 'exchange', 'other'];
+
+/** Counterparties the code itself uses; file entries with the same label take precedence */
+const BUILTIN_ENTRIES: AddressEntry[] = [
+  {
+    label: 'simulated-dex-pool',
+    address: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+    type: 'pool',
+    notes: 'Devnet counterparty for SimulatedDex buys',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+export class AddressBook {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath =
+      filePath || process.env.ADDRESS_BOOK_PATH || path.resolve(process.cwd(), '.agent-keys', 'address-book.json');
+  }
+
+  list(filter: { type?: AddressType; agentId?: string } = {}): AddressEntry[] {
+    return this.entries().filter(
+      (e) => (!filter.type || e.type === filter.type) && (!filter.agentId || allows(e, filter.agentId))
+    );
+  }
+
+  /** Entry by label (case-insensitive) or address */
+  get(labelOrAddress: string): AddressEntry | undefined {
+    const key = labelOrAddress.toLowerCase();
+    return this.entries().find((e) => e.label.toLowerCase() === key || e.address === labelOrAddress);
+  }
+
+  /** Add or replace the entry with this label */
+  save(entry: Omit<AddressEntry, 'createdAt' | 'updatedAt'>): AddressEntry {
+    validate(entry);
+    const stored = this.read();
+    const existing = stored.find((e) => e.label.toLowerCase() === entry.label.toLowerCase());
+    const clash = this.entries().find(
+      (e) => e.address === entry.address && e.label.toLowerCase() !== entry.label.toLowerCase()
+    );
+    if (clash) throw new AddressBookError(`${entry.address} is already in the book as ${clash.label}`);
+    const now = new Date().toISOString();
+    const saved: AddressEntry = { ...entry, createdAt: existing?.createdAt || now, updatedAt: now };
+    this.write([...stored.filter((e) => e !== existing), saved]);
+    return saved;
+  }
+
+  remove(label: string): boolean {
+    const stored = this.read();
+    const kept = stored.filter((e) => e.label.toLowerCase() !== label.toLowerCase());
+    if (kept.length === stored.length) return false;
+    this.write(kept);
+    return true;
+  }
+
+  /**
+   * The address a send API should use. A valid public key passes through
+   * unchanged; anything else must be a label `agentId` may use.
+   */
+  resolve(nameOrAddress: string, agentId?: string): string {
+    if (isAddress(nameOrAddress)) return nameOrAddress;
+    const entry = this.get(nameOrAddress);
+    if (!entry) throw new AddressBookError(`Unknown address or label: ${nameOrAddress}`);
+    if (agentId && !allows(entry, agentId)) {
+      throw new AddressBookError(`${agentId} may not use address book entry ${entry.label}`);
+    }
+    return entry.address;
+  }
+
+  /** Addresses a policy list stands for, with "@label" and "@type:<type>" references expanded */
+  expand(list: string[], agentId?: string): string[] {
+    const entries = list.some((item) => item.startsWith('@')) ? this.list({ agentId }) : [];
+    return list.flatMap((item) => {
+      if (!item.startsWith('@')) return [item];
+      const ref = item.slice(1).toLowerCase();
+      if (ref.startsWith('type:')) return entries.filter((e) => e.type === ref.slice(5)).map((e) => e.address);
+      return entries.filter((e) => e.label.toLowerCase() === ref).map((e) => e.address);
+    });
+  }
+
+  /** Label for display, or undefined if the address is not in the book */
+  labelFor(address: string): string | undefined {
+    return this.entries().find((e) => e.address === address)?.label;
+  }
+
+  /** address → label for every entry; one read when labelling many rows */
+  labels(): Record<string, string> {
+    return Object.fromEntries(this.entries().map((e) => [e.address, e.label]));
+  }
+
+  /** Label if known, otherwise the shortened address */
+  display(address: string): string {
+    return this.labelFor(address) || `${address.slice(0, 8)}…${address.slice(-4)}`;
+  }
+
+  private entries(): AddressEntry[] {
+    const stored = this.read();
+    const labels = new Set(stored.map((e) => e.label.toLowerCase()));
+    return [...stored, ...BUILTIN_ENTRIES.filter((e) => !labels.has(e.label.toLowerCase()))];
+  }
+
+  /** Only a missing file is an empty book; a corrupt one throws so save and remove never write over it */
+  private read(): AddressEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    let entries: unknown;
+    try {
+      entries = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (err) {
+      throw new AddressBookError(`Address book ${this.filePath} is unreadable: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(entries)) throw new AddressBookError(`Address book ${this.filePath} is not a list of entries`);
+    return entries as AddressEntry[];
+  }
+
+  private write(entries: AddressEntry[]): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+export function isAddress(value: string): boolean {
+  try {
+    return new PublicKey(value).toBase58() === value;
+  } catch {
+    return false;
+  }
+}
+
+function allows(entry: AddressEntry, agentId: string): boolean {
+  return !entry.allowedAgents || entry.allowedAgents.length === 0 || entry.allowedAgents.includes(agentId);
+}
+
+function validate(entry: Omit<AddressEntry, 'createdAt' | 'updatedAt'>): void {
+  if (!entry.label || entry.label.startsWith('@') || isAddress(entry.label)) {
+    throw new AddressBookError(`Invalid label: "${entry.label}"`);
+  }
+  if (!ADDRESS_TYPES.includes(entry.type)) throw new AddressBookError(`Unknown address type: ${entry.type}`);
+  if (!isAddress(entry.address)) throw new AddressBookError(`Not a valid address: ${entry.address}`);
+  if (entry.type === 'wallet' && !PublicKey.isOnCurve(new PublicKey(entry.address).toBytes())) {
+    throw new AddressBookError(`${entry.address} is off-curve (a program-derived address), not a wallet`);
+  }
+}
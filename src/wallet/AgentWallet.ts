@@ -4,54 +4,175 @@
  *
  * Responsibilities:
  *  - Programmatic keypair creation
- *  - Balance queries (SOL + SPL tokens)
- *  - Transaction construction and signing
+ *  - Balance queries (SOL + SPL Token / Token-2022)
+ *  - Transaction construction and signing (through the KeyStore, which may be a
+ *    remote signer; the wallet itself only holds the public key)
  *  - Airdrop requests on devnet
+ *  - Durable-nonce transactions for deferred signing
+ *  - Human approval queue for writes the spend policy flags
+ *  - m-of-n co-signing with supervisor keys
+ *  - Native SOL staking
+ *  - Off-chain message signing and Sign-In-With-Solana
+ *  - Paper mode: writes are simulated against a virtual balance, never broadcast
+ *  - Address book labels accepted wherever a destination address is
+ *  - Memo tag (agent, cycle, action) on every transaction it builds
  *  - Event emission for observability
  */
 
 import {
+  AddressLookupTableAccount,
   Connection,
   Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PACKET_DATA_SIZE,
   PublicKey,
+  SimulatedTransactionResponse,
   SystemProgram,
   Transaction,
-  sendAndConfirmTransaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
   LAMPORTS_PER_SOL,
   TransactionSignature,
   Commitment,
   ParsedAccountData,
+  Authorized,
+  Lockup,
+  StakeProgram,
 } from '@solana/web3.js';
-import {
-  getOrCreateAssociatedTokenAccount,
-  transfer as splTransfer,
-  getMint,
-  getAccount,
-} from '@solana/spl-token';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, createCloseAccountInstruction } from '@solana/spl-token';
 import { EventEmitter } from 'events';
-import { KeyStore } from './KeyStore';
+import bs58 from 'bs58';
+import { KeyStore, RetiredKey } from './KeyStore';
 import { logger } from '../utils/logger';
-import * as fs from 'fs';
 import * as path from 'path';
-import { prepareTransfer, simulateAndSend } from '../utils/txBuilder';
+import { randomUUID } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  fitsInPacket,
+  prepareTransaction,
+  simulateAndSend,
+  summarizeSolOutflows,
+  packInstructionGroups,
+  decompileInstructions,
+  resolveLookupTables,
+} from '../utils/txBuilder';
+import {
+  TokenBalanceRead,
+  TokenProgramName,
+  buildTokenTransfers,
+  readTokenBalances,
+  resolveMint,
+  summarizeTokenOutflows,
+} from '../utils/tokenProgram';
+import {
+  FeeEstimate,
+  FeeOptions,
+  FeeUrgency,
+  LAMPORTS_PER_SIGNATURE,
+  defaultFeeOptions,
+  readComputeBudget,
+} from '../utils/feeStrategy';
+import { SendStatus, SignedTransaction, TransactionSendError, sendDurable } from '../utils/txSender';
+import { simulateBalanceChanges } from '../utils/paper';
 import { metrics } from '../metrics/Metrics';
+import { TransactionJournal } from './TransactionJournal';
+import { TransactionReconciler, ReconcileReport } from './Reconciler';
+import { AgentStatement, TxAccounting, accountTransaction, buildStatement } from './Accounting';
+import {
+  DeferredTransaction,
+  DurableNonceStore,
+  NonceAccountEntry,
+  buildNonceTransaction,
+  missingSignatures,
+} from './DurableNonce';
+import { AgentActivity, MemoTag, createMemoInstruction, defaultMemoFormat, formatMemoTag } from '../utils/memo';
+import { StakeAccountInfo, listStakeAccounts } from '../utils/stake';
+import { SiwsMessage, buildSiwsMessage, siwsChainId, verifyBytes } from '../utils/siws';
+import {
+  ApprovalAction,
+  ApprovalPending,
+  ApprovalQueue,
+  ApprovalRequest,
+  deserializeInstruction,
+  serializeInstruction,
+} from './ApprovalQueue';
+import { PolicyEngine, PolicyViolation, SpendIntent, SpendPolicy, loadSpendPolicy } from './SpendPolicy';
+import { AddressBook } from './AddressBook';
 
 export interface WalletConfig {
   agentId: string;
   connection: Connection;
   keyManager: KeyStore;
   label?: string;
+  policy?: SpendPolicy; // defaults to the agent's entry in SPEND_POLICY_PATH
+  journal?: TransactionJournal;
+  fees?: FeeOptions; // urgency and compute margin; the cap comes from the spend policy
+  approvals?: ApprovalQueue;
+  paper?: boolean; // simulate writes instead of broadcasting; defaults to PAPER_MODE
+  addressBook?: AddressBook;
+  memoFormat?: string; // memo tag template; defaults to AGENT_MEMO_FORMAT, '' disables tagging
+  sessionParent?: () => string | undefined; // a session sub-wallet's parent address (set by WalletRegistry)
 }
 
 export interface TransactionRecord {
+  id: string;
   signature: string;
-  type: 'SOL_TRANSFER' | 'SPL_TRANSFER' | 'AIRDROP' | 'CUSTOM';
+  type: 'SOL_TRANSFER' | 'SPL_TRANSFER' | 'AIRDROP' | 'DEPOSIT' | 'CUSTOM' | 'NONCE' | 'SWEEP' | 'STAKE';
   amount: number;
   token?: string;
   from: string;
   to?: string;
   timestamp: Date;
-  status: 'pending' | 'confirmed' | 'failed';
+  status: 'pending' | 'awaiting_signatures' | 'confirmed' | 'finalized' | 'failed' | 'dropped' | 'simulated';
+  error?: string;
+  slot?: number;
+  origin?: 'agent' | 'external'; // 'external' = imported from chain by the reconciler
+  version?: 'legacy' | 0;
+  fee?: FeeEstimate;
+  outcome?: SendStatus; // terminal result of the send loop
+  transferFee?: number; // token units withheld by a Token-2022 transfer-fee mint
+  batchId?: string; // shared by the payouts of one batch transaction; only the first carries the fee
+  accounting?: TxAccounting; // fee / rent / principal breakdown from the landed transaction
+  trade?: 'buy' | 'sell';    // set by DEX adapters; trades count toward realized P&L
+  tag?: MemoTag;             // agent, cycle and action that sent it; read from the memo for imported records
+}
+
+export interface TokenBalance {
+  mint: string;
+  balance: number;
+  program: TokenProgramName;
+  extensions: string[];      // token account extensions, e.g. 'memoTransfer'
+  mintExtensions?: string[]; // Token-2022 mint extensions, e.g. 'transferFeeConfig'
+}
+
+export interface Payout {
+  to: string;
+  amount: number; // SOL, or UI units of the mint
+}
+
+export interface PayoutResult extends Payout {
+  status: 'confirmed' | 'failed';
+  signature?: string;
+  error?: string;
+  batch: number; // index of the transaction that carried this payout
+}
+
+export interface SweepResult {
+  destination: string;
+  sol: number;                               // SOL moved by the final transfer
+  tokens: { mint: string; amount: number }[]; // token balances moved (token accounts are closed)
+  signatures: string[];
+  complete: boolean; // false if anything is left behind; the wallet still holds it
+  error?: string;
+}
+
+export interface KeyRotation {
+  previous: string;  // public key that was retired
+  current?: string;  // public key now in use; unset if the rotation did not finish
+  sweep: SweepResult;
+  retired?: RetiredKey;
   error?: string;
 }
 
@@ -59,13 +180,21 @@ export class AgentWallet extends EventEmitter {
   readonly agentId: string;
   readonly connection: Connection;
   private keyManager: KeyStore;
-  private keypair: Keypair;
-  private txHistory: TransactionRecord[] = [];
+  private owner: PublicKey;
+  private txHistory: TransactionRecord[];
+  private journal: TransactionJournal;
   private label: string;
-  private maxSpendPerTx: number;
-  private maxDailySpend: number;
-  private spendLedger: Record<string, number> = {};
-  private spendLedgerPath: string;
+  private policy: PolicyEngine;
+  private fees: FeeOptions;
+  private nonces: DurableNonceStore;
+  private approvals: ApprovalQueue;
+  private addressBook: AddressBook;
+  private sessionParent?: () => string | undefined;
+  private activity = new AsyncLocalStorage<AgentActivity>();
+  readonly memoFormat: string;
+  readonly paper: boolean;
+  private paperLamports = 0;                   // virtual SOL change from simulated writes
+  private paperTokens = new Map<string, number>(); // mint → virtual UI amount change
 
   constructor(config: WalletConfig) {
     super();
@@ -73,41 +202,54 @@ export class AgentWallet extends EventEmitter {
     this.connection = config.connection;
     this.keyManager = config.keyManager;
     this.label = config.label || config.agentId;
-    this.maxSpendPerTx = parseFloat(process.env.MAX_SPEND_SOL_PER_TX || '0');
-    this.maxDailySpend = parseFloat(process.env.MAX_DAILY_SPEND_SOL || '0');
-    this.spendLedgerPath = path.resolve(process.cwd(), '.agent-keys', `${this.agentId}.spend.json`);
-    this.loadSpendLedger();
+    this.addressBook = config.addressBook || new AddressBook();
+    this.paper = config.paper ?? process.env.PAPER_MODE === 'true';
+    // Paper spend is tracked in its own ledger so simulated runs never use up the live budget
+    this.policy = new PolicyEngine(
+      this.agentId,
+      config.policy || loadSpendPolicy(this.agentId),
+      path.resolve(process.cwd(), '.agent-keys', `${this.agentId}.${this.paper ? 'paper-spend' : 'spend'}.json`),
+      this.addressBook
+    );
+    this.fees = { ...defaultFeeOptions(), ...config.fees };
+    this.journal = config.journal || new TransactionJournal();
+    this.txHistory = this.journal.load(this.agentId);
+    this.nonces = new DurableNonceStore(this.agentId);
+    this.approvals = config.approvals || new ApprovalQueue();
+    this.memoFormat = config.memoFormat ?? defaultMemoFormat();
+    this.sessionParent = config.sessionParent;
 
-    // Load or create keypair
+    // Load or create keypair; a remote KeyStore needs the key created up front (WalletRegistry.create)
     if (this.keyManager.hasKey(config.agentId)) {
-      this.keypair = this.keyManager.loadKey(config.agentId);
+      this.owner = new PublicKey(this.keyManager.getPublicKey(config.agentId));
       logger.info(`[${this.label}] Loaded existing keypair: ${this.publicKey}`);
     } else {
-      this.keypair = Keypair.generate();
-      this.keyManager.storeKey(config.agentId, this.keypair, config.label);
+      this.owner = new PublicKey(this.keyManager.generateKey(config.agentId, config.label).publicKey);
       logger.info(`[${this.label}] Created new keypair: ${this.publicKey}`);
       this.emit('created', { agentId: this.agentId, publicKey: this.publicKey });
     }
+    if (this.paper) logger.info(`[${this.label}] Paper mode: writes are simulated, never broadcast`);
   }
 
   /** Public key as Base58 string */
   get publicKey(): string {
-    return this.keypair.publicKey.toBase58();
+    return this.owner.toBase58();
   }
 
   get pubkey(): PublicKey {
-    return this.keypair.publicKey;
+    return this.owner;
   }
 
   // ─── Balance ─────────────────────────────────────────────────────────────
+  // In paper mode every balance read includes the virtual changes of simulated writes
 
   async getSOLBalance(): Promise<number> {
     let attempts = 0;
     let lastErr: unknown = null;
     while (attempts < 3) {
       try {
-        const lamports = await this.connection.getBalance(this.keypair.publicKey);
-        return lamports / LAMPORTS_PER_SOL;
+        const lamports = await this.connection.getBalance(this.owner);
+        return (lamports + this.paperLamports) / LAMPORTS_PER_SOL;
       } catch (e) {
         lastErr = e;
         await new Promise((r) => setTimeout(r, 200 * Math.pow(2, attempts)));
@@ -117,214 +259,1411 @@ export class AgentWallet extends EventEmitter {
     throw lastErr instanceof Error ? lastErr : new Error(String(lastErr));
   }
 
+  /**
+   * Token balance for one mint, read-only. A missing token account reads as 0;
+   * an unknown mint or RPC failure throws.
+   */
   async getSPLBalance(mintAddress: string): Promise<number> {
-    try {
-      const mint = new PublicKey(mintAddress);
-      const ata = await getOrCreateAssociatedTokenAccount(
-        this.connection,
-        this.keypair,
-        mint,
-        this.keypair.publicKey
-      );
-      const account = await getAccount(this.connection, ata.address);
-      const mintInfo = await getMint(this.connection, mint);
-      return Number(account.amount) / Math.pow(10, mintInfo.decimals);
-    } catch {
-      return 0;
+    const [read] = await this.getSPLBalances([mintAddress]);
+    if (read.status === 'no-mint') throw new Error(`Mint not found: ${mintAddress}`);
+    if (read.status === 'error') throw new Error(`Failed to read ${mintAddress} balance: ${read.error}`);
+    return read.balance;
+  }
+
+  /** Balances for many mints in one batched read; each result says whether the account exists */
+  async getSPLBalances(mintAddresses: string[]): Promise<TokenBalanceRead[]> {
+    const reads = await readTokenBalances(
+      this.connection,
+      this.owner,
+      mintAddresses.map((m) => new PublicKey(m))
+    );
+    for (const read of reads) {
+      if (read.status === 'ok' || read.status === 'no-account') read.balance += this.paperTokens.get(read.mint) || 0;
     }
+    return reads;
   }
 
-  async getFullBalances(): Promise<{ sol: number; tokens: { mint: string; balance: number }[] }> {
+  /** SOL plus every token account under both SPL Token and Token-2022 */
+  async getFullBalances(): Promise<{ sol: number; tokens: TokenBalance[] }> {
     const sol = await this.getSOLBalance();
-    // Fetch all token accounts
-    const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
-      this.keypair.publicKey,
-      { programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') }
+    const byProgram = await Promise.all(
+      [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        this.connection.getParsedTokenAccountsByOwner(this.owner, { programId })
+      )
     );
 
-    const tokens = tokenAccounts.value.map((ta) => {
-      const data = ta.account.data as ParsedAccountData;
-      return {
-        mint: data.parsed.info.mint as string,
-        balance: data.parsed.info.tokenAmount.uiAmount as number,
-      };
-    });
+    const tokens: TokenBalance[] = [];
+    for (const [i, accounts] of byProgram.entries()) {
+      const program = i === 0 ? 'spl-token' : 'spl-token-2022';
+      for (const ta of accounts.value) {
+        const info = (ta.account.data as ParsedAccountData).parsed.info;
+        tokens.push({
+          mint: info.mint as string,
+          balance: (info.tokenAmount.uiAmount as number) + (this.paperTokens.get(info.mint as string) || 0),
+          program,
+          extensions: ((info.extensions as { extension: string }[] | undefined) || []).map((e) => e.extension),
+        });
+      }
+    }
+
+    // Tokens bought in paper mode may have no account on chain
+    for (const [mint, balance] of this.paperTokens) {
+      if (tokens.some((t) => t.mint === mint)) continue;
+      const { program } = await resolveMint(this.connection, new PublicKey(mint));
+      tokens.push({ mint, balance, program, extensions: [] });
+    }
+
+    // Account extensions come back parsed; mint-level ones (transfer fees, interest) need the mints
+    const token2022 = tokens.filter((t) => t.program === 'spl-token-2022');
+    if (token2022.length > 0) {
+      const mints = await this.connection.getMultipleParsedAccounts(token2022.map((t) => new PublicKey(t.mint)));
+      token2022.forEach((t, i) => {
+        const data = mints.value[i]?.data;
+        const parsed = data && 'parsed' in data ? (data.parsed.info.extensions as { extension: string }[] | undefined) : undefined;
+        t.mintExtensions = (parsed || []).map((e) => e.extension);
+      });
+    }
 
     return { sol, tokens };
   }
 
+  /** Virtual balance changes from simulated writes (all zero outside paper mode) */
+  getPaperOverlay(): { sol: number; tokens: Record<string, number> } {
+    return { sol: this.paperLamports / LAMPORTS_PER_SOL, tokens: Object.fromEntries(this.paperTokens) };
+  }
+
   // ─── Funding ─────────────────────────────────────────────────────────────
 
   async requestAirdrop(amountSOL: number = 1): Promise<TransactionSignature> {
     const lamports = amountSOL * LAMPORTS_PER_SOL;
     logger.info(`[${this.label}] Requesting airdrop of ${amountSOL} SOL…`);
 
-    const record: TransactionRecord = {
-      signature: '',
-      type: 'AIRDROP',
-      amount: amountSOL,
-      from: 'faucet',
-      to: this.publicKey,
-      timestamp: new Date(),
-      status: 'pending',
-    };
+    const record = this.newRecord('AIRDROP', amountSOL, { from: 'faucet', to: this.publicKey });
 
     try {
-      const sig = await this.connection.requestAirdrop(this.keypair.publicKey, lamports);
+      const sig = await this.connection.requestAirdrop(this.owner, lamports);
       await this.connection.confirmTransaction(sig, 'confirmed');
       record.signature = sig;
       record.status = 'confirmed';
-      this.txHistory.push(record);
+      this.recordTransaction(record);
       this.emit('airdrop', { sig, amount: amountSOL });
       logger.info(`[${this.label}] Airdrop confirmed: ${sig}`);
       return sig;
     } catch (err) {
       record.status = 'failed';
       record.error = String(err);
-      this.txHistory.push(record);
+      this.recordTransaction(record);
       throw err;
     }
   }
 
   // ─── Transfers ────────────────────────────────────────────────────────────
 
-  /** Send SOL to another address autonomously (no human approval needed) */
+  /** Send SOL to an address or address book label autonomously, unless the policy asks for human approval */
   async sendSOL(
+    to: string,
+    amountSOL: number,
+    commitment: Commitment = 'confirmed',
+    urgency?: FeeUrgency
+  ): Promise<TransactionSignature> {
+    const toAddress = this.resolveAddress(to);
+    const intent: SpendIntent = { kind: 'SOL', amount: amountSOL, destinations: [toAddress] };
+    this.authorize(intent, () => ({ type: 'SOL', to: toAddress, amount: amountSOL, commitment, urgency }));
+    return this.transferSOL(intent, toAddress, amountSOL, commitment, urgency);
+  }
+
+  private async transferSOL(
+    intent: SpendIntent,
     toAddress: string,
     amountSOL: number,
-    commitment: Commitment = 'confirmed'
+    commitment: Commitment,
+    urgency?: FeeUrgency
   ): Promise<TransactionSignature> {
-    if (this.maxSpendPerTx > 0 && amountSOL > this.maxSpendPerTx) {
-      throw new Error(`Spend limit exceeded: ${amountSOL} SOL > ${this.maxSpendPerTx} SOL`);
-    }
-    if (this.maxDailySpend > 0) {
-      const todaySpent = this.getTodaySpentFromLedger();
-      if (todaySpent + amountSOL > this.maxDailySpend) {
-        throw new Error(`Daily spend cap exceeded: ${(todaySpent + amountSOL).toFixed(4)} SOL > ${this.maxDailySpend} SOL`);
-      }
-    }
     const toPubkey = new PublicKey(toAddress);
     const lamports = Math.floor(amountSOL * LAMPORTS_PER_SOL);
 
     logger.info(`[${this.label}] Sending ${amountSOL} SOL to ${toAddress}`);
 
-    const record: TransactionRecord = {
-      signature: '',
-      type: 'SOL_TRANSFER',
-      amount: amountSOL,
-      from: this.publicKey,
+    const record = this.newRecord('SOL_TRANSFER', amountSOL, { to: toAddress });
+    const sig = await this.execute(record, intent, 'SOL transfer', () =>
+      this.sendPrepared(
+        record,
+        () =>
+          this.buildSigned(
+            [SystemProgram.transfer({ fromPubkey: this.owner, toPubkey, lamports })],
+            commitment,
+            urgency
+          ),
+        commitment
+      )
+    );
+    this.emit('transfer', { type: 'SOL', sig, amount: amountSOL, to: toAddress });
+    return sig;
+  }
+
+  /** Send SPL tokens to an address or address book label autonomously */
+  async sendSPL(
+    to: string,
+    mintAddress: string,
+    amount: number,
+    commitment: Commitment = 'confirmed',
+    urgency?: FeeUrgency
+  ): Promise<TransactionSignature> {
+    const toAddress = this.resolveAddress(to);
+    const intent: SpendIntent = { kind: 'SPL', amount, mint: mintAddress, destinations: [toAddress] };
+    this.authorize(intent, () => ({ type: 'SPL', to: toAddress, mint: mintAddress, amount, commitment, urgency }));
+    return this.transferSPL(intent, toAddress, mintAddress, amount, commitment, urgency);
+  }
+
+  private async transferSPL(
+    intent: SpendIntent,
+    toAddress: string,
+    mintAddress: string,
+    amount: number,
+    commitment: Commitment,
+    urgency?: FeeUrgency
+  ): Promise<TransactionSignature> {
+    const details = await resolveMint(this.connection, new PublicKey(mintAddress));
+    const rawAmount = BigInt(Math.floor(amount * Math.pow(10, details.decimals)));
+
+    logger.info(`[${this.label}] Sending ${amount} SPL tokens (${mintAddress}) to ${toAddress}`);
+
+    const { instructions, fees } = await buildTokenTransfers(this.connection, details, this.owner, [
+      { recipient: new PublicKey(toAddress), amount: rawAmount },
+    ]);
+    const record = this.newRecord('SPL_TRANSFER', amount, {
+      token: mintAddress,
       to: toAddress,
-      timestamp: new Date(),
-      status: 'pending',
-    };
+      transferFee: fees[0] > BigInt(0) ? Number(fees[0]) / Math.pow(10, details.decimals) : undefined,
+    });
+    const sig = await this.execute(record, intent, 'SPL transfer', () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions[0], commitment, urgency), commitment)
+    );
+    this.emit('transfer', { type: 'SPL', sig, amount, mint: mintAddress, to: toAddress });
+    return sig;
+  }
+
+  // ─── Batch payouts ────────────────────────────────────────────────────────
+
+  /** Pay many addresses in as few transactions as fit; the spend policy applies to the batch total */
+  async sendSOLBatch(
+    requested: Payout[],
+    commitment: Commitment = 'confirmed',
+    urgency?: FeeUrgency
+  ): Promise<PayoutResult[]> {
+    if (requested.length === 0) return [];
+    const payouts = this.resolvePayouts(requested);
+    this.authorize(batchIntent('SOL', payouts), () => ({ type: 'SOL_BATCH', payouts, commitment, urgency }));
+    return this.payoutSOL(payouts, commitment, urgency);
+  }
+
+  /** SPL variant of sendSOLBatch; recipients without a token account get one created */
+  async sendSPLBatch(
+    mintAddress: string,
+    requested: Payout[],
+    commitment: Commitment = 'confirmed',
+    urgency?: FeeUrgency
+  ): Promise<PayoutResult[]> {
+    if (requested.length === 0) return [];
+    const payouts = this.resolvePayouts(requested);
+    this.authorize(batchIntent('SPL', payouts, mintAddress), () => ({
+      type: 'SPL_BATCH',
+      mint: mintAddress,
+      payouts,
+      commitment,
+      urgency,
+    }));
+    return this.payoutSPL(mintAddress, payouts, commitment, urgency);
+  }
+
+  private async payoutSOL(payouts: Payout[], commitment: Commitment, urgency?: FeeUrgency): Promise<PayoutResult[]> {
+    const groups = payouts.map((p) => [
+      SystemProgram.transfer({
+        fromPubkey: this.owner,
+        toPubkey: new PublicKey(p.to),
+        lamports: Math.floor(p.amount * LAMPORTS_PER_SOL),
+      }),
+    ]);
+    return this.sendBatch('SOL', payouts, groups, commitment, urgency);
+  }
+
+  private async payoutSPL(
+    mintAddress: string,
+    payouts: Payout[],
+    commitment: Commitment,
+    urgency?: FeeUrgency
+  ): Promise<PayoutResult[]> {
+    const details = await resolveMint(this.connection, new PublicKey(mintAddress));
+    const { instructions: groups } = await buildTokenTransfers(
+      this.connection,
+      details,
+      this.owner,
+      payouts.map((p) => ({
+        recipient: new PublicKey(p.to),
+        amount: BigInt(Math.floor(p.amount * Math.pow(10, details.decimals))),
+      }))
+    );
+    return this.sendBatch('SPL', payouts, groups, commitment, urgency, mintAddress);
+  }
+
+  /**
+   * Send each packed transaction in turn. A failed transaction fails only the
+   * payouts it carried; later transactions are still attempted.
+   */
+  private async sendBatch(
+    kind: 'SOL' | 'SPL',
+    payouts: Payout[],
+    groups: TransactionInstruction[][],
+    commitment: Commitment,
+    urgency?: FeeUrgency,
+    mint?: string
+  ): Promise<PayoutResult[]> {
+    const total = payouts.reduce((sum, p) => sum + p.amount, 0);
+    const chunks = packInstructionGroups(this.owner, groups, this.memoInstructions());
+    logger.info(
+      `[${this.label}] Paying ${total} ${kind === 'SOL' ? 'SOL' : `tokens (${mint})`} to ${payouts.length} recipients in ${chunks.length} transaction(s)`
+    );
 
+    const results: PayoutResult[] = new Array(payouts.length);
+    for (let batch = 0; batch < chunks.length; batch++) {
+      const members = chunks[batch];
+      const batchId = randomUUID();
+      const records = members.map((i) =>
+        this.newRecord(kind === 'SOL' ? 'SOL_TRANSFER' : 'SPL_TRANSFER', payouts[i].amount, {
+          to: payouts[i].to,
+          token: mint,
+          batchId,
+        })
+      );
+      const intent: SpendIntent = {
+        kind,
+        amount: members.reduce((sum, i) => sum + payouts[i].amount, 0),
+        mint,
+        destinations: members.map((i) => payouts[i].to),
+      };
+      const instructions = members.flatMap((i) => groups[i]);
+      try {
+        const sig = await this.execute(records, intent, `Batch payout ${batch + 1}/${chunks.length}`, () =>
+          this.sendPrepared(records[0], () => this.buildSigned(instructions, commitment, urgency), commitment)
+        );
+        for (const i of members) {
+          results[i] = { ...payouts[i], status: 'confirmed', signature: sig, batch };
+          this.emit('transfer', { type: kind, sig, amount: payouts[i].amount, mint, to: payouts[i].to });
+        }
+      } catch (err) {
+        const signature = err instanceof TransactionSendError ? err.outcome.signature : undefined;
+        const error = err instanceof Error ? err.message : String(err);
+        for (const i of members) results[i] = { ...payouts[i], status: 'failed', signature, error, batch };
+      }
+    }
+
+    const failed = results.filter((r) => r.status === 'failed').length;
+    this.emit('batch_payout', { type: kind, mint, recipients: payouts.length, total, transactions: chunks.length, failed });
+    return results;
+  }
+
+  /** Sign an arbitrary legacy or v0 transaction — agent signs autonomously unless approval is required */
+  async signAndSend(
+    transaction: Transaction | VersionedTransaction,
+    commitment: Commitment = 'confirmed'
+  ): Promise<TransactionSignature> {
+    const versioned = transaction instanceof VersionedTransaction;
+    const instructions = versioned
+      ? await decompileInstructions(this.connection, transaction)
+      : transaction.instructions;
+    const fee = readComputeBudget(
+      instructions,
+      versioned ? transaction.message.header.numRequiredSignatures : Math.max(1, transaction.signatures.length)
+    );
+    const intent = await this.customIntent(instructions, fee);
+    this.authorize(intent, () => {
+      // Parking keeps the instructions, so only a transaction this wallet alone signs can be rebuilt later
+      const me = this.owner;
+      const foreignSigner =
+        (versioned
+          ? transaction.message.header.numRequiredSignatures > 1
+          : !!transaction.feePayer && !transaction.feePayer.equals(me)) ||
+        instructions.some((ix) => ix.keys.some((k) => k.isSigner && !k.pubkey.equals(me)));
+      if (foreignSigner) {
+        throw new Error('Transaction needs approval but has other signers; use prepareDeferred instead');
+      }
+      return {
+        type: 'CUSTOM',
+        instructions: instructions.map(serializeInstruction),
+        lookupTables: versioned
+          ? transaction.message.addressTableLookups.map((l) => l.accountKey.toBase58())
+          : undefined,
+        commitment,
+      };
+    });
+    return this.sendCustom(transaction, intent, fee, commitment);
+  }
+
+  private async sendCustom(
+    built: Transaction | VersionedTransaction,
+    intent: SpendIntent,
+    fee: FeeEstimate,
+    commitment: Commitment
+  ): Promise<TransactionSignature> {
+    const transaction = await this.tagCustom(built);
+    const versioned = transaction instanceof VersionedTransaction;
+    const record = this.newRecord('CUSTOM', intent.amount, {
+      to: intent.destinations.length === 1 ? intent.destinations[0] : undefined,
+      version: versioned ? 0 : 'legacy',
+      fee,
+    });
+
+    // Only a legacy tx whose blockhash we chose and that nobody else signed is safe to re-sign
+    const resignable = !versioned && !transaction.recentBlockhash && transaction.signatures.length <= 1;
+    const resign = resignable
+      ? async () => {
+          (transaction as Transaction).recentBlockhash = undefined;
+          return { tx: transaction, ...(await this.signTransaction(transaction, commitment)) };
+        }
+      : undefined;
+
+    const sig = await this.execute(record, intent, `Custom ${versioned ? 'v0' : 'legacy'} tx`, async () => {
+      const { blockhash, lastValidBlockHeight } = await this.signTransaction(transaction, commitment);
+      if (this.paper) return this.simulatePaper(transaction, commitment);
+      return simulateAndSend(this.connection, transaction, blockhash, lastValidBlockHeight, commitment, resign);
+    });
+    this.emit('custom_tx', { sig, version: record.version });
+    return sig;
+  }
+
+  /** Build an unsigned v0 transaction paid by this wallet, compressing accounts through lookup tables */
+  async buildVersionedTransaction(
+    instructions: TransactionInstruction[],
+    lookupTableAddresses: (string | PublicKey)[] = [],
+    commitment: Commitment = 'confirmed'
+  ): Promise<VersionedTransaction> {
+    const tables = await this.resolveLookupTables(lookupTableAddresses);
+    const { blockhash } = await this.connection.getLatestBlockhash(commitment);
+    const message = new TransactionMessage({
+      payerKey: this.owner,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(tables);
+    return new VersionedTransaction(message);
+  }
+
+  /** Build, sign and send a v0 transaction in one step */
+  async sendVersioned(
+    instructions: TransactionInstruction[],
+    lookupTableAddresses: (string | PublicKey)[] = [],
+    commitment: Commitment = 'confirmed'
+  ): Promise<TransactionSignature> {
+    const tx = await this.buildVersionedTransaction(instructions, lookupTableAddresses, commitment);
+    return this.signAndSend(tx, commitment);
+  }
+
+  async resolveLookupTables(addresses: (string | PublicKey)[]): Promise<AddressLookupTableAccount[]> {
+    return resolveLookupTables(
+      this.connection,
+      addresses.map((a) => (typeof a === 'string' ? new PublicKey(a) : a))
+    );
+  }
+
+  /** Simulate without signing or sending (signature verification is skipped) */
+  async simulate(transaction: Transaction | VersionedTransaction): Promise<SimulatedTransactionResponse> {
+    if (transaction instanceof VersionedTransaction) {
+      const { value } = await this.connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+      });
+      return value;
+    }
+    if (!transaction.feePayer) transaction.feePayer = this.owner;
+    if (!transaction.recentBlockhash) {
+      transaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
+    }
+    const { value } = await this.connection.simulateTransaction(transaction);
+    return value;
+  }
+
+  /**
+   * Add the agent's signature. Legacy transactions get a fresh blockhash and this
+   * wallet as fee payer when the caller left them unset; existing signatures are kept.
+   * A v0 message's blockhash is fixed by its builder, so the current block height
+   * limit is used as a conservative expiry bound.
+   */
+  private async signTransaction(
+    tx: Transaction | VersionedTransaction,
+    commitment: Commitment
+  ): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    const latest = await this.connection.getLatestBlockhash(commitment);
+    if (tx instanceof VersionedTransaction) {
+      await this.keyManager.signTransaction(this.agentId, tx);
+      return { blockhash: tx.message.recentBlockhash, lastValidBlockHeight: latest.lastValidBlockHeight };
+    }
+    if (!tx.feePayer) tx.feePayer = this.owner;
+    if (!tx.recentBlockhash) tx.recentBlockhash = latest.blockhash;
+    await this.keyManager.signTransaction(this.agentId, tx);
+    return { blockhash: tx.recentBlockhash, lastValidBlockHeight: latest.lastValidBlockHeight };
+  }
+
+  // ─── Staking ──────────────────────────────────────────────────────────────
+
+  /**
+   * Create a stake account holding `amountSOL` (plus its rent-exempt reserve) and
+   * delegate it to `voteAccount`. This wallet is staker and withdrawer. The total
+   * is checked like a sendSOL to the vote account, so allowlists can pin validators.
+   */
+  async stake(
+    validator: string,
+    amountSOL: number,
+    commitment: Commitment = 'confirmed',
+    urgency?: FeeUrgency
+  ): Promise<string> {
+    const voteAccount = this.resolveAddress(validator);
+    const reserve = await this.connection.getMinimumBalanceForRentExemption(StakeProgram.space);
+    const intent: SpendIntent = { kind: 'SOL', amount: amountSOL + reserve / LAMPORTS_PER_SOL, destinations: [voteAccount] };
+    this.authorize(intent, () => ({ type: 'STAKE', voteAccount, amount: amountSOL, commitment, urgency }));
+    return this.delegateNewStake(intent, voteAccount, amountSOL, commitment, urgency);
+  }
+
+  private async delegateNewStake(
+    intent: SpendIntent,
+    voteAccount: string,
+    amountSOL: number,
+    commitment: Commitment,
+    urgency?: FeeUrgency
+  ): Promise<string> {
+    const stakeKeypair = Keypair.generate();
+    const address = stakeKeypair.publicKey.toBase58();
+    const reserve = await this.connection.getMinimumBalanceForRentExemption(StakeProgram.space);
+    const instructions = [
+      ...StakeProgram.createAccount({
+        fromPubkey: this.owner,
+        stakePubkey: stakeKeypair.publicKey,
+        authorized: new Authorized(this.owner, this.owner),
+        lockup: new Lockup(0, 0, PublicKey.default),
+        lamports: Math.floor(amountSOL * LAMPORTS_PER_SOL) + reserve,
+      }).instructions,
+      ...StakeProgram.delegate({
+        stakePubkey: stakeKeypair.publicKey,
+        authorizedPubkey: this.owner,
+        votePubkey: new PublicKey(voteAccount),
+      }).instructions,
+    ];
+
+    logger.info(`[${this.label}] Staking ${amountSOL} SOL with ${voteAccount}`);
+    const record = this.newRecord('STAKE', intent.amount, { to: address });
+    const sig = await this.execute(record, intent, 'Stake delegation', () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions, commitment, urgency, [stakeKeypair]), commitment)
+    );
+    this.emit('stake', { action: 'delegated', sig, stakeAccount: address, voteAccount, amount: amountSOL });
+    return address;
+  }
+
+  /** Start cooling down a stake account; its SOL can be withdrawn once inactive */
+  async deactivateStake(stakeAccount: string, commitment: Commitment = 'confirmed'): Promise<TransactionSignature> {
+    const instructions = StakeProgram.deactivate({
+      stakePubkey: new PublicKey(stakeAccount),
+      authorizedPubkey: this.owner,
+    }).instructions;
+    return this.sendStakeOp('deactivated', stakeAccount, 0, instructions, commitment);
+  }
+
+  /** Withdraw inactive (or excess) lamports back to this wallet; the whole balance closes the account */
+  async withdrawStake(
+    stakeAccount: string,
+    amountSOL?: number,
+    commitment: Commitment = 'confirmed'
+  ): Promise<TransactionSignature> {
+    const stakePubkey = new PublicKey(stakeAccount);
+    const lamports =
+      amountSOL !== undefined
+        ? Math.floor(amountSOL * LAMPORTS_PER_SOL)
+        : await this.connection.getBalance(stakePubkey, commitment);
+    const instructions = StakeProgram.withdraw({
+      stakePubkey,
+      authorizedPubkey: this.owner,
+      toPubkey: this.owner,
+      lamports,
+    }).instructions;
+    return this.sendStakeOp('withdrawn', stakeAccount, lamports / LAMPORTS_PER_SOL, instructions, commitment, {
+      from: stakeAccount,
+      to: this.publicKey,
+    });
+  }
+
+  /** Move `amountSOL` of stake into a new stake account; this wallet funds the new account's rent reserve */
+  async splitStake(stakeAccount: string, amountSOL: number, commitment: Commitment = 'confirmed'): Promise<string> {
+    const splitKeypair = Keypair.generate();
+    const reserve = await this.connection.getMinimumBalanceForRentExemption(StakeProgram.space);
+    const instructions = StakeProgram.split(
+      {
+        stakePubkey: new PublicKey(stakeAccount),
+        authorizedPubkey: this.owner,
+        splitStakePubkey: splitKeypair.publicKey,
+        lamports: Math.floor(amountSOL * LAMPORTS_PER_SOL),
+      },
+      reserve
+    ).instructions;
+    const address = splitKeypair.publicKey.toBase58();
+    await this.sendStakeOp('split', stakeAccount, amountSOL, instructions, commitment, { to: address }, reserve, [
+      splitKeypair,
+    ]);
+    return address;
+  }
+
+  /** Merge `source` into `destination`; both must share authorities and activation state */
+  async mergeStake(destination: string, source: string, commitment: Commitment = 'confirmed'): Promise<TransactionSignature> {
+    const instructions = StakeProgram.merge({
+      stakePubkey: new PublicKey(destination),
+      sourceStakePubKey: new PublicKey(source),
+      authorizedPubkey: this.owner,
+    }).instructions;
+    return this.sendStakeOp('merged', destination, 0, instructions, commitment, { from: source, to: destination });
+  }
+
+  /** Stake accounts this wallet can withdraw from, with activation state */
+  async listStakeAccounts(): Promise<StakeAccountInfo[]> {
+    return listStakeAccounts(this.connection, this.owner);
+  }
+
+  /**
+   * Deactivate, withdraw, split and merge keep SOL inside this wallet's control,
+   * so only `outflowLamports` (a new account's rent reserve) counts as spend;
+   * rate limits and active hours still apply to every one.
+   */
+  private async sendStakeOp(
+    action: 'deactivated' | 'withdrawn' | 'split' | 'merged',
+    stakeAccount: string,
+    amountSOL: number,
+    instructions: TransactionInstruction[],
+    commitment: Commitment,
+    fields: Partial<TransactionRecord> = {},
+    outflowLamports = 0,
+    signers: Keypair[] = []
+  ): Promise<TransactionSignature> {
+    const intent: SpendIntent = { kind: 'CUSTOM', amount: outflowLamports / LAMPORTS_PER_SOL, destinations: [] };
+    this.enforcePolicy(intent);
+    const record = this.newRecord('STAKE', amountSOL, { to: stakeAccount, ...fields });
+    const sig = await this.execute(record, intent, `Stake ${action}`, () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions, commitment, undefined, signers), commitment)
+    );
+    this.emit('stake', { action, sig, stakeAccount, amount: amountSOL });
+    return sig;
+  }
+
+  // ─── Sweeping ─────────────────────────────────────────────────────────────
+
+  /**
+   * Move everything this wallet holds to `destination`: each token balance (its
+   * account is then closed to reclaim rent), then all remaining SOL. Bypasses the
+   * spend policy, so the only targets it accepts are a session wallet's parent and
+   * the successor of a key rotation; anything else throws PolicyViolation. SOL
+   * stays behind if a token sweep fails, to pay for a retry, and nothing moves
+   * while the wallet still has stake accounts.
+   */
+  async sweepTo(target: string, commitment: Commitment = 'confirmed'): Promise<SweepResult> {
+    const destination = this.resolveAddress(target);
+    const pendingId = `${this.agentId}.next`;
+    const successor = this.keyManager.hasKey(pendingId) ? this.keyManager.getPublicKey(pendingId) : undefined;
+    if (destination !== this.sessionParent?.() && destination !== successor) {
+      throw new PolicyViolation(
+        this.agentId,
+        'ALLOWLIST',
+        `Sweeps go only to the session parent or the rotation successor, not ${destination}`,
+        { kind: 'CUSTOM', amount: 0, destinations: [destination] }
+      );
+    }
+    const to = new PublicKey(destination);
+    const result: SweepResult = { destination, sol: 0, tokens: [], signatures: [], complete: false };
+    logger.info(`[${this.label}] Sweeping balances to ${destination}`);
+
+    // A simulated sweep would report success while the real funds stay put
+    if (this.paper) {
+      result.error = 'Sweeps are not available in paper mode';
+      return result;
+    }
+
+    // Stake has to cool down before it can be withdrawn; the sweep cannot wait for that
+    const stakes = await this.listStakeAccounts();
+    if (stakes.length > 0) {
+      result.error = `Holds ${stakes.length} stake account(s); deactivate and withdraw them first`;
+      return result;
+    }
+
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      // Lookups report failure like the sweeps do, so signatures already sent stay in the result
+      let accounts: Awaited<ReturnType<Connection['getParsedTokenAccountsByOwner']>>;
+      try {
+        accounts = await this.connection.getParsedTokenAccountsByOwner(this.owner, { programId });
+      } catch (err) {
+        result.error = `Token accounts: ${err instanceof Error ? err.message : err}`;
+        return result;
+      }
+      for (const ta of accounts.value) {
+        const info = (ta.account.data as ParsedAccountData).parsed.info;
+        const amount = BigInt(info.tokenAmount.amount as string);
+        try {
+          const instructions: TransactionInstruction[] = [];
+          if (amount > BigInt(0)) {
+            const details = await resolveMint(this.connection, new PublicKey(info.mint as string));
+            const built = await buildTokenTransfers(this.connection, details, this.owner, [
+              { recipient: to, amount },
+            ]);
+            instructions.push(...built.instructions[0]);
+          }
+          instructions.push(createCloseAccountInstruction(ta.pubkey, this.owner, this.owner, [], programId));
+          const uiAmount = (info.tokenAmount.uiAmount as number) || 0;
+          const record = this.newRecord('SWEEP', uiAmount, { token: info.mint as string, to: destination });
+          result.signatures.push(
+            await this.execute(record, null, 'Token sweep', () =>
+              this.sendPrepared(record, () => this.buildSigned(instructions, commitment), commitment)
+            )
+          );
+          if (amount > BigInt(0)) result.tokens.push({ mint: info.mint as string, amount: uiAmount });
+        } catch (err) {
+          result.error = `Token account ${ta.pubkey.toBase58()}: ${err instanceof Error ? err.message : err}`;
+          return result;
+        }
+      }
+    }
+
+    // Priority fees are disabled so the fee is exactly the signature fee and the account ends at zero
+    let lamports: number;
     try {
-      const { tx, blockhash, lastValidBlockHeight } = await prepareTransfer(
-        this.connection,
-        this.keypair,
-        toPubkey,
+      lamports = (await this.connection.getBalance(this.owner, commitment)) - LAMPORTS_PER_SIGNATURE;
+    } catch (err) {
+      result.error = `SOL balance: ${err instanceof Error ? err.message : err}`;
+      return result;
+    }
+    if (lamports > 0) {
+      const record = this.newRecord('SWEEP', lamports / LAMPORTS_PER_SOL, { to: destination });
+      try {
+        result.signatures.push(
+          await this.execute(record, null, 'SOL sweep', () =>
+            this.sendPrepared(
+              record,
+              () =>
+                this.buildSigned(
+                  [SystemProgram.transfer({ fromPubkey: this.owner, toPubkey: to, lamports })],
+                  commitment,
+                  undefined,
+                  [],
+                  { ...this.fees, maxPriorityFeeLamports: 0 }
+                ),
+              commitment
+            )
+          )
+        );
+        result.sol = record.amount;
+      } catch (err) {
+        result.error = `SOL sweep: ${err instanceof Error ? err.message : err}`;
+        return result;
+      }
+    }
+
+    result.complete = true;
+    this.emit('swept', result);
+    return result;
+  }
+
+  // ─── Key rotation ─────────────────────────────────────────────────────────
+
+  /**
+   * Replace this agent's keypair: generate a new one, sweep every balance to
+   * it, then archive the old key (as `<agentId>.retired.<prefix>`) and record
+   * it in the new key's `previousKeys`. The new key is staged as
+   * `<agentId>.next` until the sweep completes, so a failed rotation can be
+   * retried without losing track of funds already moved.
+   */
+  async rotateKey(commitment: Commitment = 'confirmed'): Promise<KeyRotation> {
+    const previous = this.publicKey;
+    const pendingId = `${this.agentId}.next`;
+    const fail = (error: string): KeyRotation => ({
+      previous,
+      sweep: { destination: '', sol: 0, tokens: [], signatures: [], complete: false, error },
+      error,
+    });
+    if (this.paper) return fail('Key rotation is not available in paper mode');
+    // Nonce accounts are owned by the old key's authority and would be stranded
+    const nonces = this.nonces.listNonceAccounts();
+    if (nonces.length > 0) return fail(`Holds ${nonces.length} nonce account(s); close them first`);
+
+    if (this.keyManager.hasKey(pendingId) && this.keyManager.getPublicKey(pendingId) === previous) {
+      await this.keyManager.deleteKey(pendingId);
+    }
+    let successor: string;
+    if (this.keyManager.hasKey(pendingId)) {
+      successor = this.keyManager.getPublicKey(pendingId);
+      logger.info(`[${this.label}] Resuming key rotation to ${successor}`);
+    } else {
+      successor = (await this.keyManager.createKey(pendingId, this.label, { replaces: previous })).publicKey;
+      logger.info(`[${this.label}] Rotating key ${previous} → ${successor}`);
+    }
+
+    const sweep = await this.sweepTo(successor, commitment);
+    if (!sweep.complete) {
+      logger.warn(`[${this.label}] Key rotation stopped; the sweep is incomplete: ${sweep.error}`);
+      return { previous, sweep, error: sweep.error };
+    }
+
+    const meta = this.keyManager.getMeta(this.agentId);
+    const retired: RetiredKey = {
+      publicKey: previous,
+      retiredAt: new Date().toISOString(),
+      archivedAs: `${this.agentId}.retired.${previous.slice(0, 8)}`,
+      sweepSignatures: sweep.signatures,
+    };
+    await this.keyManager.renameKey(this.agentId, retired.archivedAs, { retiredAt: retired.retiredAt, successor });
+    try {
+      await this.keyManager.renameKey(pendingId, this.agentId, { previousKeys: [...(meta.previousKeys || []), retired] });
+    } catch (err) {
+      // Put the old key back so the agent keeps a live key; a retry resumes with the staged one
+      await this.keyManager.renameKey(retired.archivedAs, this.agentId, {
+        previousKeys: meta.previousKeys,
+        retiredAt: meta.retiredAt,
+        successor: meta.successor,
+        replaces: meta.replaces,
+      });
+      logger.warn(`[${this.label}] Key rotation rolled back; the new key stays staged as ${pendingId}: ${err}`);
+      throw err;
+    }
+    this.owner = new PublicKey(successor);
+
+    const rotation: KeyRotation = { previous, current: successor, sweep, retired };
+    logger.info(`[${this.label}] Key rotated; old key archived as ${retired.archivedAs}`);
+    this.emit('key_rotated', rotation);
+    return rotation;
+  }
+
+  // ─── Durable nonces & deferred signing ────────────────────────────────────
+
+  /** Create a nonce account controlled by this wallet; the rent deposit is its only cost */
+  async createNonceAccount(commitment: Commitment = 'confirmed'): Promise<string> {
+    const nonceKeypair = Keypair.generate();
+    const address = nonceKeypair.publicKey.toBase58();
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+    const intent: SpendIntent = { kind: 'CUSTOM', amount: lamports / LAMPORTS_PER_SOL, destinations: [] };
+    this.enforcePolicy(intent);
+
+    const record = this.newRecord('NONCE', intent.amount, { to: address });
+    const instructions = SystemProgram.createNonceAccount({
+      fromPubkey: this.owner,
+      noncePubkey: nonceKeypair.publicKey,
+      authorizedPubkey: this.owner,
+      lamports,
+    }).instructions;
+    const sig = await this.execute(record, intent, 'Nonce account creation', () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions, commitment, undefined, [nonceKeypair]), commitment)
+    );
+    this.nonces.addNonceAccount(address);
+    this.emit('nonce_account', { action: 'created', address, sig });
+    return address;
+  }
+
+  /** Nonce accounts owned by this agent, with their current on-chain nonce (null if closed) */
+  async listNonceAccounts(): Promise<(NonceAccountEntry & { nonce: string | null; busy: boolean })[]> {
+    const entries = this.nonces.listNonceAccounts();
+    if (entries.length === 0) return [];
+    const busy = new Set(this.nonces.listDeferred().filter((d) => d.status === 'prepared').map((d) => d.nonceAccount));
+    const infos = await this.connection.getMultipleAccountsInfo(entries.map((e) => new PublicKey(e.address)));
+    return entries.map((e, i) => ({
+      ...e,
+      nonce: infos[i] ? NonceAccount.fromAccountData(infos[i]!.data).nonce : null,
+      busy: busy.has(e.address),
+    }));
+  }
+
+  /** Withdraw a nonce account's full balance back to this wallet, closing it */
+  async closeNonceAccount(address: string, commitment: Commitment = 'confirmed'): Promise<TransactionSignature> {
+    if (this.nonces.listDeferred().some((d) => d.nonceAccount === address && d.status === 'prepared')) {
+      throw new Error(`Nonce account ${address} has a prepared transaction; submit or cancel it first`);
+    }
+    const noncePubkey = new PublicKey(address);
+    const lamports = await this.connection.getBalance(noncePubkey, commitment);
+    const record = this.newRecord('NONCE', lamports / LAMPORTS_PER_SOL, { from: address, to: this.publicKey });
+    const instructions = [
+      SystemProgram.nonceWithdraw({
+        noncePubkey,
+        authorizedPubkey: this.owner,
+        toPubkey: this.owner,
         lamports,
-        commitment
-      );
-      const sig = await simulateAndSend(this.connection, tx, blockhash, lastValidBlockHeight, commitment);
+      }),
+    ];
+    const sig = await this.execute(record, null, 'Nonce account close', () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions, commitment), commitment)
+    );
+    this.nonces.removeNonceAccount(address);
+    this.emit('nonce_account', { action: 'closed', address, sig });
+    return sig;
+  }
 
-      record.signature = sig;
-      record.status = 'confirmed';
-      this.txHistory.push(record);
-      this.incrementTodaySpend(amountSOL);
-      metrics.incTx('confirmed');
-      this.emit('transfer', { type: 'SOL', sig, amount: amountSOL, to: toAddress });
-      logger.info(`[${this.label}] SOL transfer confirmed: ${sig}`);
+  /**
+   * Sign instructions against a durable nonce without sending them. The result
+   * stays valid until submitDeferred or cancelDeferred advances the nonce, so it
+   * can wait for approval or a schedule. Policy is checked now and again on submit.
+   */
+  async prepareDeferred(
+    instructions: TransactionInstruction[],
+    options: { nonceAccount?: string; description?: string; signers?: Keypair[] } = {}
+  ): Promise<DeferredTransaction> {
+    return this.deferInstructions(instructions, options);
+  }
+
+  /** prepareDeferred, optionally naming co-signers whose signatures are collected later */
+  private async deferInstructions(
+    instructions: TransactionInstruction[],
+    options: { nonceAccount?: string; description?: string; signers?: Keypair[] },
+    cosigners: PublicKey[] = []
+  ): Promise<DeferredTransaction> {
+    const nonceAccount = options.nonceAccount || this.nonces.freeNonceAccount();
+    if (!nonceAccount) throw new Error('No free nonce account; create one with createNonceAccount()');
+    if (this.nonces.listDeferred().some((d) => d.nonceAccount === nonceAccount && d.status === 'prepared')) {
+      throw new Error(`Nonce account ${nonceAccount} already has a prepared transaction`);
+    }
+    this.enforcePolicy(await this.customIntent(instructions, readComputeBudget(instructions)));
+
+    // A memo that lists the co-signers as signers makes the runtime require their signatures
+    const body = [
+      ...(cosigners.length > 0 ? [createMemoInstruction(`cosign:${this.agentId}`, cosigners)] : []),
+      ...instructions,
+      ...this.memoInstructions(),
+    ];
+    const { tx, nonce, minContextSlot } = await buildNonceTransaction(
+      this.connection,
+      this.owner,
+      new PublicKey(nonceAccount),
+      body
+    );
+    if (options.signers?.length) tx.partialSign(...options.signers);
+    await this.keyManager.signTransaction(this.agentId, tx);
+
+    const entry: DeferredTransaction = {
+      id: randomUUID(),
+      nonceAccount,
+      nonce,
+      minContextSlot,
+      signature: bs58.encode(tx.signature!),
+      serialized: tx.serialize({ requireAllSignatures: cosigners.length === 0 }).toString('base64'),
+      description: options.description,
+      createdAt: new Date().toISOString(),
+      status: 'prepared',
+      cosigners: cosigners.length > 0 ? cosigners.map((c) => c.toBase58()) : undefined,
+    };
+    this.nonces.saveDeferred(entry);
+    this.emit('deferred_prepared', { id: entry.id, nonceAccount, signature: entry.signature });
+    logger.info(`[${this.label}] Prepared deferred tx ${entry.id} on nonce ${nonceAccount}`);
+    return entry;
+  }
+
+  /** Submit a prepared transaction. A simulation failure leaves it prepared for a later retry. */
+  async submitDeferred(id: string, commitment: Commitment = 'confirmed'): Promise<TransactionSignature> {
+    const entry = this.nonces.getDeferred(id);
+    if (entry.status !== 'prepared') throw new Error(`Deferred transaction ${id} is ${entry.status}`);
+    const missing = missingSignatures(entry);
+    if (missing.length > 0) throw new Error(`Deferred transaction ${id} is awaiting signatures from ${missing.join(', ')}`);
+    const tx = Transaction.from(Buffer.from(entry.serialized, 'base64'));
+    const fee = readComputeBudget(tx.instructions, tx.signatures.length);
+    const intent = await this.customIntent(tx.instructions, fee);
+    // Supervisors already signed a co-signed transaction; it does not also need the approval queue
+    if (entry.cosigners) this.enforcePolicy(intent);
+    else this.authorize(intent, () => ({ type: 'DEFERRED', deferredId: id, commitment }));
+    return this.submitPrepared(entry, tx, intent, fee, commitment);
+  }
+
+  private async submitPrepared(
+    entry: DeferredTransaction,
+    tx: Transaction,
+    intent: SpendIntent,
+    fee: FeeEstimate,
+    commitment: Commitment
+  ): Promise<TransactionSignature> {
+    const id = entry.id;
+    const pending = entry.recordId ? this.txHistory.find((r) => r.id === entry.recordId) : undefined;
+    const record = pending
+      ? { ...pending, status: 'pending' as const, fee }
+      : this.newRecord('CUSTOM', intent.amount, {
+          to: intent.destinations.length === 1 ? intent.destinations[0] : undefined,
+          version: 'legacy',
+          fee,
+        });
+    try {
+      const sig = await this.execute(record, intent, 'Deferred tx', async () => {
+        if (this.paper) return this.simulatePaper(tx, commitment);
+        const outcome = await sendDurable(
+          this.connection,
+          tx,
+          { nonceAccount: new PublicKey(entry.nonceAccount), nonce: entry.nonce, minContextSlot: entry.minContextSlot },
+          { commitment }
+        );
+        if (outcome.status !== 'confirmed') throw new TransactionSendError(outcome);
+        return outcome.signature!;
+      });
+      entry.status = 'submitted';
+      entry.submittedAt = new Date().toISOString();
+      this.emit('deferred_submitted', { id, sig });
       return sig;
     } catch (err) {
-      record.status = 'failed';
-      record.error = String(err);
-      this.txHistory.push(record);
-      metrics.incTx('failed');
-      logger.error(`[${this.label}] SOL transfer failed: ${err}`);
+      entry.error = err instanceof Error ? err.message : String(err);
+      const retryable = err instanceof TransactionSendError && err.outcome.status === 'simulation-failed';
+      if (!retryable) entry.status = 'failed';
       throw err;
+    } finally {
+      this.nonces.saveDeferred(entry);
     }
   }
 
-  /** Send SPL tokens to another address autonomously */
-  async sendSPL(
-    toAddress: string,
-    mintAddress: string,
-    amount: number,
-    commitment: Commitment = 'confirmed'
-  ): Promise<TransactionSignature> {
-    const toPubkey = new PublicKey(toAddress);
-    const mint = new PublicKey(mintAddress);
-    const mintInfo = await getMint(this.connection, mint);
-    const rawAmount = BigInt(Math.floor(amount * Math.pow(10, mintInfo.decimals)));
+  /** Invalidate a prepared transaction by advancing its nonce */
+  async cancelDeferred(id: string, commitment: Commitment = 'confirmed'): Promise<TransactionSignature> {
+    const entry = this.nonces.getDeferred(id);
+    if (entry.status !== 'prepared') throw new Error(`Deferred transaction ${id} is ${entry.status}`);
+    const record = this.newRecord('NONCE', 0, { to: entry.nonceAccount });
+    const instructions = [
+      SystemProgram.nonceAdvance({
+        noncePubkey: new PublicKey(entry.nonceAccount),
+        authorizedPubkey: this.owner,
+      }),
+    ];
+    const sig = await this.execute(record, null, 'Deferred tx cancel', () =>
+      this.sendPrepared(record, () => this.buildSigned(instructions, commitment), commitment)
+    );
+    entry.status = 'cancelled';
+    this.nonces.saveDeferred(entry);
+    const awaiting = entry.recordId ? this.txHistory.find((r) => r.id === entry.recordId) : undefined;
+    if (awaiting) this.recordTransaction({ ...awaiting, status: 'failed', error: 'Cancelled before submission' });
+    this.emit('deferred_cancelled', { id, sig });
+    return sig;
+  }
 
-    logger.info(`[${this.label}] Sending ${amount} SPL tokens (${mintAddress}) to ${toAddress}`);
+  listDeferred(): DeferredTransaction[] {
+    return this.nonces.listDeferred();
+  }
+
+  // ─── Co-signing ───────────────────────────────────────────────────────────
+
+  /**
+   * Prepare a transaction that needs supervisor signatures as well as the
+   * agent's (m of the n supervisors in the policy's `cosign` rule). `supervisors`
+   * picks which m sign; by default the first m configured. The transaction is
+   * built on a durable nonce so collecting signatures can take as long as needed.
+   */
+  async proposeCoSigned(
+    instructions: TransactionInstruction[],
+    options: { supervisors?: string[]; nonceAccount?: string; description?: string } = {}
+  ): Promise<DeferredTransaction> {
+    const rule = this.policy.getPolicy().cosign;
+    if (!rule || rule.supervisors.length === 0) throw new Error('No co-signing supervisors in the spend policy');
+    const chosen = options.supervisors || rule.supervisors.slice(0, rule.threshold);
+    const unknown = chosen.filter((s) => !rule.supervisors.includes(s));
+    if (unknown.length > 0) throw new Error(`Not configured as supervisors: ${unknown.join(', ')}`);
+    if (new Set(chosen).size < rule.threshold) {
+      throw new Error(`Co-signing needs ${rule.threshold} supervisors, got ${new Set(chosen).size}`);
+    }
+
+    const entry = await this.deferInstructions(
+      instructions,
+      options,
+      Array.from(new Set(chosen)).map((s) => this.supervisorKey(s))
+    );
+    const intent = await this.customIntent(instructions, readComputeBudget(instructions));
+    const record = this.newRecord('CUSTOM', intent.amount, {
+      signature: entry.signature,
+      to: intent.destinations.length === 1 ? intent.destinations[0] : undefined,
+      status: 'awaiting_signatures',
+      version: 'legacy',
+    });
+    this.recordTransaction(record);
+    entry.recordId = record.id;
+    this.nonces.saveDeferred(entry);
+    this.emit('cosign_requested', { id: entry.id, cosigners: entry.cosigners });
+    return entry;
+  }
+
+  /** Sign a co-signed transaction with a supervisor key held in the KeyStore */
+  async cosignWithKeyStore(id: string, supervisorId: string): Promise<string[]> {
+    const { entry, tx } = this.openCoSigned(id);
+    const supervisor = this.keyManager.getPublicKey(supervisorId);
+    if (!entry.cosigners!.includes(supervisor)) {
+      throw new Error(`${supervisorId} is not a co-signer of ${id}`);
+    }
+    await this.keyManager.signTransaction(supervisorId, tx);
+    return this.saveCoSigned(entry, tx, supervisor);
+  }
+
+  /** Attach a signature produced out of band over getCoSignMessage(id) */
+  addCoSignature(id: string, publicKey: string, signature: string): string[] {
+    const { entry, tx } = this.openCoSigned(id);
+    if (!entry.cosigners!.includes(publicKey)) throw new Error(`${publicKey} is not a co-signer of ${id}`);
+    tx.addSignature(new PublicKey(publicKey), Buffer.from(bs58.decode(signature)));
+    if (!tx.verifySignatures(false)) throw new Error(`Invalid signature from ${publicKey}`);
+    return this.saveCoSigned(entry, tx, publicKey);
+  }
+
+  /** Message bytes (base64) a supervisor signs out of band */
+  getCoSignMessage(id: string): string {
+    return this.openCoSigned(id).tx.serializeMessage().toString('base64');
+  }
+
+  private openCoSigned(id: string): { entry: DeferredTransaction; tx: Transaction } {
+    const entry = this.nonces.getDeferred(id);
+    if (!entry.cosigners) throw new Error(`Deferred transaction ${id} is not co-signed`);
+    if (entry.status !== 'prepared') throw new Error(`Deferred transaction ${id} is ${entry.status}`);
+    return { entry, tx: Transaction.from(Buffer.from(entry.serialized, 'base64')) };
+  }
+
+  /** Persist a new signature; returns the co-signers still missing */
+  private saveCoSigned(entry: DeferredTransaction, tx: Transaction, signer: string): string[] {
+    entry.serialized = tx.serialize({ requireAllSignatures: false }).toString('base64');
+    this.nonces.saveDeferred(entry);
+    const missing = missingSignatures(entry);
+    this.emit('cosign_signature', { id: entry.id, signer, missing });
+    logger.info(`[${this.label}] Co-signature from ${signer} on ${entry.id}; ${missing.length} missing`);
+    return missing;
+  }
+
+  private supervisorKey(supervisor: string): PublicKey {
+    return this.keyManager.hasKey(supervisor)
+      ? new PublicKey(this.keyManager.getPublicKey(supervisor))
+      : new PublicKey(supervisor);
+  }
+
+  // ─── Approvals ────────────────────────────────────────────────────────────
+
+  /**
+   * Expire stale requests, report rejections and expiries, and execute approved
+   * requests for this agent. Called periodically by WalletRegistry's poller.
+   */
+  async processApprovals(): Promise<void> {
+    this.approvals.expireStale();
+    for (const request of this.approvals.list({ agentId: this.agentId })) {
+      if ((request.status === 'rejected' || request.status === 'expired') && !request.notifiedAt) {
+        const notified = this.approvals.update(request.id, { notifiedAt: new Date().toISOString() });
+        this.emit(`approval_${request.status}`, notified);
+        logger.info(`[${this.label}] Approval request ${request.id} ${request.status}`);
+      } else if (request.status === 'approved' && this.approvals.claim(request.id)) {
+        await this.executeApproved(request);
+      }
+    }
+  }
+
+  listApprovals(): ApprovalRequest[] {
+    return this.approvals.list({ agentId: this.agentId });
+  }
+
+  /** Run an approved write; the policy's other rules still apply at execution time */
+  private async executeApproved(request: ApprovalRequest): Promise<void> {
+    logger.info(`[${this.label}] Executing approved request ${request.id} (${request.action.type})`);
+    try {
+      this.enforcePolicy(request.intent);
+      const { signatures, error } = await this.activity.run(request.activity || {}, () =>
+        this.performAction(request.action, request.intent)
+      );
+      const done = this.approvals.update(request.id, {
+        status: error ? 'failed' : 'executed',
+        signatures,
+        error,
+        notifiedAt: new Date().toISOString(),
+      });
+      this.emit(error ? 'approval_failed' : 'approval_executed', done);
+    } catch (err) {
+      const done = this.approvals.update(request.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+        notifiedAt: new Date().toISOString(),
+      });
+      this.emit('approval_failed', done);
+    }
+  }
+
+  private async performAction(
+    action: ApprovalAction,
+    intent: SpendIntent
+  ): Promise<{ signatures: string[]; error?: string }> {
+    const commitment = action.commitment || 'confirmed';
+    switch (action.type) {
+      case 'SOL':
+        return { signatures: [await this.transferSOL(intent, action.to, action.amount, commitment, action.urgency)] };
+      case 'SPL':
+        return {
+          signatures: [await this.transferSPL(intent, action.to, action.mint, action.amount, commitment, action.urgency)],
+        };
+      case 'SOL_BATCH':
+      case 'SPL_BATCH': {
+        const results =
+          action.type === 'SOL_BATCH'
+            ? await this.payoutSOL(action.payouts, commitment, action.urgency)
+            : await this.payoutSPL(action.mint, action.payouts, commitment, action.urgency);
+        const failed = results.filter((r) => r.status === 'failed').length;
+        return {
+          signatures: Array.from(new Set(results.filter((r) => r.signature).map((r) => r.signature!))),
+          error: failed > 0 ? `${failed} of ${results.length} payouts failed` : undefined,
+        };
+      }
+      case 'CUSTOM': {
+        const instructions = action.instructions.map(deserializeInstruction);
+        const tx = action.lookupTables
+          ? await this.buildVersionedTransaction(instructions, action.lookupTables, commitment)
+          : new Transaction().add(...instructions);
+        return { signatures: [await this.sendCustom(tx, intent, readComputeBudget(instructions), commitment)] };
+      }
+      case 'STAKE':
+        return {
+          signatures: [await this.delegateNewStake(intent, action.voteAccount, action.amount, commitment, action.urgency)],
+        };
+      case 'DEFERRED': {
+        const entry = this.nonces.getDeferred(action.deferredId);
+        if (entry.status !== 'prepared') throw new Error(`Deferred transaction ${entry.id} is ${entry.status}`);
+        const tx = Transaction.from(Buffer.from(entry.serialized, 'base64'));
+        const fee = readComputeBudget(tx.instructions, tx.signatures.length);
+        return { signatures: [await this.submitPrepared(entry, tx, intent, fee, commitment)] };
+      }
+    }
+  }
+
+  // ─── Write helpers ────────────────────────────────────────────────────────
 
-    const record: TransactionRecord = {
+  private newRecord(
+    type: TransactionRecord['type'],
+    amount: number,
+    fields: Partial<TransactionRecord> = {}
+  ): TransactionRecord {
+    return {
+      id: randomUUID(),
       signature: '',
-      type: 'SPL_TRANSFER',
+      type,
       amount,
-      token: mintAddress,
       from: this.publicKey,
-      to: toAddress,
       timestamp: new Date(),
       status: 'pending',
+      tag: this.activity.getStore() ? this.memoTag() : undefined,
+      ...fields,
     };
+  }
 
-    try {
-      const fromATA = await getOrCreateAssociatedTokenAccount(
-        this.connection,
-        this.keypair,
-        mint,
-        this.keypair.publicKey
-      );
-      const toATA = await getOrCreateAssociatedTokenAccount(
-        this.connection,
-        this.keypair,
-        mint,
-        toPubkey
-      );
+  /** SOL and tokens leaving this wallet through arbitrary instructions */
+  private async customIntent(instructions: TransactionInstruction[], fee: FeeEstimate): Promise<SpendIntent> {
+    const outflow = summarizeSolOutflows(instructions, this.owner);
+    const tokens = await summarizeTokenOutflows(this.connection, instructions, this.owner);
+    return {
+      kind: 'CUSTOM',
+      amount: outflow.lamports / LAMPORTS_PER_SOL,
+      destinations: Array.from(new Set([...outflow.destinations, ...tokens.map((t) => t.destination)])),
+      priorityFeeLamports: fee.priorityFeeLamports,
+      tokens: tokens.length > 0 ? tokens.map(({ mint, amount }) => ({ mint, amount })) : undefined,
+    };
+  }
+
+  /** Build a legacy tx with a sized compute budget, signed by this wallet and any extra signers */
+  private async buildSigned(
+    instructions: TransactionInstruction[],
+    commitment: Commitment,
+    urgency?: FeeUrgency,
+    signers: Keypair[] = [],
+    fees: FeeOptions = this.feeOptions(urgency)
+  ): Promise<SignedTransaction & { fee: FeeEstimate }> {
+    const prepared = await prepareTransaction(
+      this.connection,
+      this.owner,
+      [...instructions, ...this.memoInstructions()],
+      commitment,
+      fees
+    );
+    if (signers.length > 0) prepared.tx.partialSign(...signers);
+    await this.keyManager.signTransaction(this.agentId, prepared.tx);
+    return prepared;
+  }
+
+  // ─── Memo tags ────────────────────────────────────────────────────────────
+
+  /**
+   * Run `fn` as part of an agent cycle: every transaction it sends (or parks for
+   * approval) carries the cycle and action in its memo and on its record.
+   */
+  withActivity<T>(activity: AgentActivity, fn: () => Promise<T>): Promise<T> {
+    return this.activity.run(activity, fn);
+  }
+
+  private memoTag(): MemoTag {
+    return { agentId: this.agentId, ...this.activity.getStore() };
+  }
+
+  /** The memo instruction for the current activity; none when tagging is off */
+  private memoInstructions(): TransactionInstruction[] {
+    const memo = formatMemoTag(this.memoTag(), this.memoFormat);
+    return memo ? [createMemoInstruction(memo)] : [];
+  }
 
-      const sig = await splTransfer(
+  /**
+   * Add the memo to a caller-built transaction that only this wallet signs and
+   * nobody has signed yet. Anything else, or a transaction the memo would push
+   * past the packet size, is sent as built.
+   */
+  private async tagCustom(tx: Transaction | VersionedTransaction): Promise<Transaction | VersionedTransaction> {
+    const memo = this.memoInstructions();
+    const me = this.owner;
+    if (memo.length === 0) return tx;
+    if (tx instanceof VersionedTransaction) {
+      const unsigned = tx.signatures.every((s) => s.every((b) => b === 0));
+      if (!unsigned || tx.message.header.numRequiredSignatures !== 1) return tx;
+      const tables = await resolveLookupTables(
         this.connection,
-        this.keypair,
-        fromATA.address,
-        toATA.address,
-        this.keypair,
-        rawAmount,
-        [],
-        { commitment }
+        tx.message.addressTableLookups.map((l) => l.accountKey)
       );
+      const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: tables });
+      if (!message.payerKey.equals(me)) return tx;
+      message.instructions.push(...memo);
+      const tagged = new VersionedTransaction(message.compileToV0Message(tables));
+      return tagged.serialize().length <= PACKET_DATA_SIZE ? tagged : tx;
+    }
+    if (tx.signatures.some((s) => s.signature) || (tx.feePayer && !tx.feePayer.equals(me))) return tx;
+    if (tx.instructions.some((ix) => ix.keys.some((k) => k.isSigner && !k.pubkey.equals(me)))) return tx;
+    if (!fitsInPacket(me, [...tx.instructions, ...memo])) return tx;
+    const tagged = new Transaction().add(...tx.instructions, ...memo);
+    tagged.feePayer = tx.feePayer;
+    tagged.recentBlockhash = tx.recentBlockhash;
+    tagged.nonceInfo = tx.nonceInfo;
+    return tagged;
+  }
 
-      record.signature = sig;
-      record.status = 'confirmed';
-      this.txHistory.push(record);
-      this.emit('transfer', { type: 'SPL', sig, amount, mint: mintAddress, to: toAddress });
-      logger.info(`[${this.label}] SPL transfer confirmed: ${sig}`);
+  /** Send a built transaction, rebuilding it on blockhash expiry; the latest fee estimate lands on the record */
+  private async sendPrepared(
+    record: TransactionRecord,
+    build: () => Promise<SignedTransaction & { fee: FeeEstimate }>,
+    commitment: Commitment
+  ): Promise<TransactionSignature> {
+    const rebuild = async () => {
+      const prepared = await build();
+      record.fee = prepared.fee;
+      return prepared;
+    };
+    const { tx, blockhash, lastValidBlockHeight } = await rebuild();
+    if (this.paper) return this.simulatePaper(tx, commitment);
+    return simulateAndSend(this.connection, tx, blockhash, lastValidBlockHeight, commitment, rebuild);
+  }
+
+  /**
+   * Run a write and settle its records (several when one transaction pays many
+   * recipients): journaled, counted against the spend policy (when an intent is
+   * given) and logged on success; failRecord otherwise.
+   */
+  private async execute(
+    records: TransactionRecord | TransactionRecord[],
+    intent: SpendIntent | null,
+    what: string,
+    send: () => Promise<TransactionSignature>
+  ): Promise<TransactionSignature> {
+    const list = Array.isArray(records) ? records : [records];
+    try {
+      const sig = await send();
+      const status = this.paper ? 'simulated' : 'confirmed';
+      for (const record of list) {
+        record.signature = sig;
+        record.status = status;
+        if (!this.paper) record.outcome = 'confirmed';
+        this.recordTransaction(record);
+      }
+      if (intent) this.policy.record(intent);
+      metrics.incTx(status);
+      logger.info(`[${this.label}] ${what} ${status}: ${sig}`);
+      if (this.paper) return sig;
+      // Best effort; the reconciler fills in anything missed
+      this.captureAccounting(list[0]).catch((err) =>
+        logger.debug(`[${this.label}] Accounting for ${sig} deferred to reconcile: ${err}`)
+      );
       return sig;
     } catch (err) {
-      record.status = 'failed';
-      record.error = String(err);
-      this.txHistory.push(record);
+      for (const record of list) this.failRecord(record, err);
+      // It may have landed, so it counts against the limits
+      if (intent && err instanceof TransactionSendError && err.outcome.status === 'unknown') this.policy.record(intent);
+      logger.error(`[${this.label}] ${what} failed: ${err}`);
       throw err;
     }
   }
 
-  /** Sign an arbitrary transaction — agent signs autonomously */
-  async signAndSend(transaction: Transaction): Promise<TransactionSignature> {
-    const sig = await sendAndConfirmTransaction(this.connection, transaction, [this.keypair]);
+  /**
+   * Paper mode's stand-in for broadcasting: simulate the signed transaction and
+   * apply the SOL (fees and rent included) and token changes it would have made
+   * to the virtual balances. Simulation runs against the real balances, so it
+   * also fails like a rejected send if a virtual balance would go negative.
+   */
+  private async simulatePaper(
+    tx: Transaction | VersionedTransaction,
+    commitment: Commitment
+  ): Promise<TransactionSignature> {
+    const sim = await simulateBalanceChanges(this.connection, tx, this.owner, commitment);
+    const outcome = { signature: sim.signature, signatures: [sim.signature], attempts: 0, resigns: 0, logs: sim.logs };
+    const reject = (error: string) => new TransactionSendError({ ...outcome, status: 'simulation-failed', error });
+    if (sim.error) throw reject(sim.error);
+    if (sim.lamports + this.paperLamports + sim.solDelta < 0) throw reject('Insufficient virtual SOL balance');
+    const tokens = await this.getSPLBalances(Object.keys(sim.tokenDeltas));
+    for (const read of tokens) {
+      if (read.balance + sim.tokenDeltas[read.mint] < 0) throw reject(`Insufficient virtual balance of ${read.mint}`);
+    }
 
-    const record: TransactionRecord = {
-      signature: sig,
-      type: 'CUSTOM',
-      amount: 0,
-      from: this.publicKey,
-      timestamp: new Date(),
-      status: 'confirmed',
-    };
-    this.txHistory.push(record);
-    this.emit('custom_tx', { sig });
-    return sig;
+    this.paperLamports += sim.solDelta;
+    for (const [mint, delta] of Object.entries(sim.tokenDeltas)) {
+      this.paperTokens.set(mint, (this.paperTokens.get(mint) || 0) + delta);
+    }
+    return sim.signature;
+  }
+
+  // ─── Off-chain signing ────────────────────────────────────────────────────
+
+  /** Detached ed25519 signature (base58) over a message; nothing touches the chain */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+    return bs58.encode(await this.keyManager.signMessage(this.agentId, bytes));
+  }
+
+  /** Check a signature over a message, by this wallet unless another public key is given */
+  verifyMessage(message: string | Uint8Array, signature: string, publicKey: string = this.publicKey): boolean {
+    return verifyBytes(message, signature, publicKey);
+  }
+
+  /**
+   * Build and sign a Sign-In-With-Solana message for an off-chain API. The server
+   * supplies `domain`, `uri` and `nonce`; the message expires after `ttlMs`.
+   */
+  async signIn(
+    fields: Omit<SiwsMessage, 'address' | 'version' | 'chainId' | 'issuedAt'> & { chainId?: string; ttlMs?: number }
+  ): Promise<{ message: string; signature: string; publicKey: string }> {
+    const { ttlMs = 5 * 60 * 1000, chainId, ...rest } = fields;
+    const now = Date.now();
+    const message = buildSiwsMessage({
+      ...rest,
+      address: this.publicKey,
+      version: '1',
+      chainId: chainId || siwsChainId(),
+      issuedAt: new Date(now).toISOString(),
+      expirationTime: rest.expirationTime || new Date(now + ttlMs).toISOString(),
+    });
+    logger.info(`[${this.label}] Signed in to ${fields.domain}`);
+    return { message, signature: await this.signMessage(message), publicKey: this.publicKey };
+  }
+
+  // ─── Accounting ───────────────────────────────────────────────────────────
+
+  /** Fetch a landed transaction and attach its fee / rent / principal breakdown */
+  async captureAccounting(record: TransactionRecord): Promise<TransactionRecord | null> {
+    const tx = await this.connection.getParsedTransaction(record.signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx || !tx.meta || tx.meta.err) return null;
+    const accounting = await accountTransaction(this.connection, tx, this.publicKey);
+    // Re-read: the record may have moved on (e.g. finalized) while we fetched
+    const latest = this.txHistory.find((r) => r.id === record.id) || record;
+    const next = { ...latest, accounting };
+    this.recordTransaction(next);
+    return next;
+  }
+
+  /** Mark the transaction behind `signature` as a trade, so statements count it toward P&L */
+  markTrade(signature: string, side: 'buy' | 'sell'): void {
+    for (const record of this.txHistory.filter((r) => r.signature === signature)) {
+      this.recordTransaction({ ...record, trade: side });
+    }
+  }
+
+  /** Principal, fees, rent and realized trading P&L over the journaled history */
+  getStatement(period: { since?: Date; until?: Date } = {}): AgentStatement {
+    return buildStatement(this.agentId, this.txHistory, period);
   }
 
   // ─── History & Observability ──────────────────────────────────────────────
@@ -333,46 +1672,130 @@ export class AgentWallet extends EventEmitter {
     return [...this.txHistory];
   }
 
-  private getTodayKey(): string {
-    const now = new Date();
-    const y = now.getFullYear();
-    const m = String(now.getMonth() + 1).padStart(2, '0');
-    const d = String(now.getDate()).padStart(2, '0');
-    return `${y}-${m}-${d}`;
+  /**
+   * Journal a failed write with its precise terminal outcome (an expired blockhash
+   * means dropped; an unknown one stays pending for the reconciler to settle)
+   */
+  private failRecord(record: TransactionRecord, err: unknown): void {
+    record.status = 'failed';
+    record.error = err instanceof Error ? err.message : String(err);
+    if (err instanceof TransactionSendError) {
+      record.outcome = err.outcome.status;
+      record.signature = err.outcome.signature || record.signature;
+      if (err.outcome.status === 'expired') record.status = 'dropped';
+      if (err.outcome.status === 'unknown') record.status = 'pending';
+    }
+    this.recordTransaction(record);
+    metrics.incTx('failed');
+    this.emit('transaction_failed', {
+      agentId: this.agentId,
+      type: record.type,
+      outcome: record.outcome,
+      signature: record.signature,
+      error: record.error,
+    });
   }
 
-  private loadSpendLedger(): void {
+  /** Keep a record in memory and persist it to the journal (replaces an existing record with the same id) */
+  recordTransaction(record: TransactionRecord): void {
+    const idx = this.txHistory.findIndex((r) => r.id === record.id);
+    if (idx >= 0) this.txHistory[idx] = record;
+    else this.txHistory.push(record);
     try {
-      if (fs.existsSync(this.spendLedgerPath)) {
-        const raw = fs.readFileSync(this.spendLedgerPath, 'utf-8');
-        const parsed = JSON.parse(raw);
-        if (parsed && typeof parsed === 'object') this.spendLedger = parsed as Record<string, number>;
-      }
-    } catch {}
+      this.journal.append(this.agentId, record);
+    } catch (err) {
+      logger.error(`[${this.label}] Failed to journal tx ${record.signature || record.id}: ${err}`);
+    }
   }
 
-  private saveSpendLedger(): void {
-    try {
-      const dir = path.dirname(this.spendLedgerPath);
-      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
-      fs.writeFileSync(this.spendLedgerPath, JSON.stringify(this.spendLedger, null, 2), { mode: 0o600 });
-    } catch {}
+  // ─── Address book ─────────────────────────────────────────────────────────
+
+  /** Address for a base58 key or an address book label this agent may use */
+  resolveAddress(nameOrAddress: string): string {
+    return this.addressBook.resolve(nameOrAddress, this.agentId);
   }
 
-  private getTodaySpentFromLedger(): number {
-    const key = this.getTodayKey();
-    return Number(this.spendLedger[key] || 0);
+  getAddressBook(): AddressBook {
+    return this.addressBook;
+  }
+
+  private resolvePayouts(payouts: Payout[]): Payout[] {
+    return payouts.map((p) => ({ ...p, to: this.resolveAddress(p.to) }));
+  }
+
+  // ─── Spend policy ─────────────────────────────────────────────────────────
+
+  getSpendPolicy(): SpendPolicy {
+    return this.policy.getPolicy();
+  }
+
+  setSpendPolicy(policy: SpendPolicy): void {
+    this.policy.setPolicy(policy);
+    logger.info(`[${this.label}] Spend policy updated`);
+  }
+
+  /** Fee options for one transaction: the agent's defaults, per-call urgency, tightest cap wins */
+  private feeOptions(urgency?: FeeUrgency): FeeOptions {
+    const caps = [this.fees.maxPriorityFeeLamports, this.policy.getPolicy().maxPriorityFeeLamports].filter(
+      (c): c is number => c !== undefined
+    );
+    return {
+      ...this.fees,
+      urgency: urgency || this.fees.urgency,
+      maxPriorityFeeLamports: caps.length > 0 ? Math.min(...caps) : undefined,
+    };
+  }
+
+  /**
+   * Gate for every public write: enforce the policy, then park the write in the
+   * approval queue (throwing ApprovalPending) if the policy wants a human to
+   * sign off. `action` is only built when the write is parked.
+   */
+  private authorize(intent: SpendIntent, action: () => ApprovalAction): void {
+    this.enforcePolicy(intent);
+    const reason = this.policy.approvalReason(intent);
+    if (!reason) return;
+    const request = this.approvals.submit(
+      this.agentId,
+      action(),
+      intent,
+      reason,
+      this.policy.getPolicy().approval?.ttlMs,
+      this.activity.getStore()
+    );
+    this.emit('approval_requested', request);
+    logger.warn(`[${this.label}] Parked for approval (${reason}): request ${request.id}`);
+    throw new ApprovalPending(request);
+  }
+
+  /** Evaluate an intent against the agent's policy; violations are emitted, counted and rethrown */
+  private enforcePolicy(intent: SpendIntent): void {
+    try {
+      this.policy.evaluate(intent);
+    } catch (err) {
+      if (err instanceof PolicyViolation) {
+        metrics.incPolicyViolation(this.agentId);
+        this.emit('policy_violation', {
+          agentId: this.agentId,
+          rule: err.rule,
+          message: err.message,
+          intent,
+        });
+        logger.warn(`[${this.label}] Policy violation (${err.rule}): ${err.message}`);
+      }
+      throw err;
     }
+  }
 
-  private incrementTodaySpend(amountSOL: number): void {
-    const key = this.getTodayKey();
-    const current = Number(this.spendLedger[key] || 0);
-    this.spendLedger[key] = current + amountSOL;
-    this.saveSpendLedger();
+  async getOnChainHistory(limit = 10, before?: string, until?: string) {
+    return this.connection.getSignaturesForAddress(this.owner, { limit, before, until });
   }
 
-  async getOnChainHistory(limit = 10) {
-    return this.connection.getConfirmedSignaturesForAddress2(this.keypair.publicKey, { limit });
+  /** Reconcile journaled records against the ledger and import external deposits */
+  async reconcile(): Promise<ReconcileReport> {
+    const report = await new TransactionReconciler(this).run();
+    this.emit('reconciled', report);
+    return report;
   }
 
   getSummary() {
@@ -381,6 +1804,7 @@ export class AgentWallet extends EventEmitter {
       label: this.label,
       publicKey: this.publicKey,
       txCount: this.txHistory.length,
+      paper: this.paper,
       lastActivity:
         this.txHistory.length > 0
           ? this.txHistory[this.txHistory.length - 1].timestamp
@@ -388,3 +1812,12 @@ export class AgentWallet extends EventEmitter {
     };
   }
 }
+
+function batchIntent(kind: 'SOL' | 'SPL', payouts: Payout[], mint?: string): SpendIntent {
+  return {
+    kind,
+    amount: payouts.reduce((sum, p) => sum + p.amount, 0),
+    mint,
+    destinations: payouts.map((p) => p.to),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * ApprovalQueue.ts
+ * Persistent human-in-the-loop queue for writes the spend policy will not sign alone.
+ *
+ * When a write crosses the policy's approval threshold (or pays an unknown
+ * destination) the wallet parks it here instead of sending it. A human approves
+ * or rejects it from the CLI or the dashboard; the owning wallet's poller then
+ * executes approved requests and reports every outcome on its event emitter.
+ *
+ * The queue is one JSON file shared by every process (.agent-keys/approvals.json,
+ * or APPROVALS_PATH). Every change is a read-modify-write under an exclusive
+ * lock file (`<file>.lock`, created with O_EXCL), so the CLI, dashboard and
+ * agents never overwrite each other's decisions and only one poller can claim
+ * an approved request.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Commitment, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import type { Payout } from './AgentWallet';
+import type { SpendIntent } from './SpendPolicy';
+import type { FeeUrgency } from '../utils/feeStrategy';
+import type { AgentActivity } from '../utils/memo';
+
+export interface SerializedInstruction {
+  programId: string;
+  keys: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string; // base64
+}
+
+/** Enough to redo the write once approved */
+export type ApprovalAction =
+  | { type: 'SOL'; to: string; amount: number; commitment?: Commitment; urgency?: FeeUrgency }
+  | { type: 'SPL'; to: string; mint: string; amount: number; commitment?: Commitment; urgency?: FeeUrgency }
+  | { type: 'SOL_BATCH'; payouts: Payout[]; commitment?: Commitment; urgency?: FeeUrgency }
+  | { type: 'SPL_BATCH'; mint: string; payouts: Payout[]; commitment?: Commitment; urgency?: FeeUrgency }
+  | { type: 'CUSTOM'; instructions: SerializedInstruction[]; lookupTables?: string[]; commitment?: Commitment }
+  | { type: 'DEFERRED'; deferredId: string; commitment?: Commitment }
+  | { type: 'STAKE'; voteAccount: string; amount: number; commitment?: Commitment; urgency?: FeeUrgency };
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executing' | 'executed' | 'failed';
+
+export interface ApprovalRequest {
+  id: string;
+  agentId: string;
+  action: ApprovalAction;
+  intent: SpendIntent;
+  reason: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  note?: string;
+  signatures?: string[];
+  error?: string;
+  notifiedAt?: string; // when the owning wallet emitted the outcome
+  activity?: AgentActivity; // agent cycle and action that asked; the eventual transaction's memo names them
+}
+
+export class ApprovalPending extends Error {
+  readonly request: ApprovalRequest;
+
+  constructor(request: ApprovalRequest) {
+    super(`Awaiting approval (${request.reason}): request ${request.id}`);
+    this.name = 'ApprovalPending';
+    this.request = request;
+  }
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000; // a lock this old was left by a crashed process
+const LOCK_RETRY_MS = 10;
+
+export class ApprovalQueue {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath =
+      filePath || process.env.APPROVALS_PATH || path.resolve(process.cwd(), '.agent-keys', 'approvals.json');
+  }
+
+  submit(
+    agentId: string,
+    action: ApprovalAction,
+    intent: SpendIntent,
+    reason: string,
+    ttlMs: number = DEFAULT_TTL_MS,
+    activity?: AgentActivity
+  ): ApprovalRequest {
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      id: randomUUID(),
+      agentId,
+      action,
+      intent,
+      reason,
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+      activity,
+    };
+    this.mutate((all) => {
+      all.push(request);
+      return true;
+    });
+    return request;
+  }
+
+  list(filter: { agentId?: string; status?: ApprovalStatus } = {}): ApprovalRequest[] {
+    return this.read().filter(
+      (r) => (!filter.agentId || r.agentId === filter.agentId) && (!filter.status || r.status === filter.status)
+    );
+  }
+
+  get(id: string): ApprovalRequest {
+    const request = this.read().find((r) => r.id === id);
+    if (!request) throw new Error(`No approval request: ${id}`);
+    return request;
+  }
+
+  approve(id: string, by = 'unknown', note?: string): ApprovalRequest {
+    return this.decide(id, 'approved', by, note);
+  }
+
+  reject(id: string, by = 'unknown', note?: string): ApprovalRequest {
+    return this.decide(id, 'rejected', by, note);
+  }
+
+  /** Mark pending requests past their expiry as expired; returns the ones changed */
+  expireStale(now: Date = new Date()): ApprovalRequest[] {
+    const expired: ApprovalRequest[] = [];
+    this.mutate((all) => {
+      all.forEach((r, i) => {
+        if (r.status !== 'pending' || new Date(r.expiresAt) > now) return;
+        all[i] = { ...r, status: 'expired', decidedAt: now.toISOString(), decidedBy: 'system' };
+        expired.push(all[i]);
+      });
+      return expired.length > 0;
+    });
+    return expired;
+  }
+
+  /** Move an approved request to executing; false if another poller got there first */
+  claim(id: string): boolean {
+    return this.mutate((all) => {
+      const request = all.find((r) => r.id === id);
+      if (!request || request.status !== 'approved') return false;
+      request.status = 'executing';
+      return true;
+    });
+  }
+
+  update(id: string, changes: Partial<ApprovalRequest>): ApprovalRequest {
+    let updated!: ApprovalRequest;
+    this.mutate((all) => {
+      const idx = all.findIndex((r) => r.id === id);
+      if (idx < 0) throw new Error(`No approval request: ${id}`);
+      updated = all[idx] = { ...all[idx], ...changes };
+      return true;
+    });
+    return updated;
+  }
+
+  private decide(id: string, status: 'approved' | 'rejected', by: string, note?: string): ApprovalRequest {
+    this.expireStale();
+    let decided!: ApprovalRequest;
+    this.mutate((all) => {
+      const idx = all.findIndex((r) => r.id === id);
+      if (idx < 0) throw new Error(`No approval request: ${id}`);
+      if (all[idx].status !== 'pending') throw new Error(`Approval request ${id} is already ${all[idx].status}`);
+      decided = all[idx] = { ...all[idx], status, decidedAt: new Date().toISOString(), decidedBy: by, note };
+      return true;
+    });
+    return decided;
+  }
+
+  /** Read, change and write the queue under the lock; `change` returns whether to write */
+  private mutate(change: (all: ApprovalRequest[]) => boolean): boolean {
+    const release = this.lock();
+    try {
+      const all = this.read();
+      const changed = change(all);
+      if (changed) this.write(all);
+      return changed;
+    } finally {
+      release();
+    }
+  }
+
+  private lock(): () => void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        const fd = fs.openSync(lockPath, 'wx', 0o600);
+        fs.writeSync(fd, String(process.pid));
+        fs.closeSync(fd);
+        return () => fs.rmSync(lockPath, { force: true });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue; // released between our open and stat
+      }
+      if (Date.now() > deadline) throw new Error(`Approval queue is locked (${lockPath})`);
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+
+  /** Only a missing file is an empty queue; a corrupt one throws so mutate never writes over it */
+  private read(): ApprovalRequest[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    let requests: unknown;
+    try {
+      requests = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (err) {
+      throw new Error(`Approval queue ${this.filePath} is unreadable: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(requests)) throw new Error(`Approval queue ${this.filePath} is not a list of requests`);
+    return requests as ApprovalRequest[];
+  }
+
+  private write(requests: ApprovalRequest[]): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(requests, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+export function serializeInstruction(ix: TransactionInstruction): SerializedInstruction {
+  return {
+    programId: ix.programId.toBase58(),
+    keys: ix.keys.map((k) => ({ pubkey: k.pubkey.toBase58(), isSigner: k.isSigner, isWritable: k.isWritable })),
+    data: ix.data.toString('base64'),
+  };
+}
+
+export function deserializeInstruction(ix: SerializedInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(ix.programId),
+    keys: ix.keys.map((k) => ({ pubkey: new PublicKey(k.pubkey), isSigner: k.isSigner, isWritable: k.isWritable })),
+    data: Buffer.from(ix.data, 'base64'),
+  });
+}
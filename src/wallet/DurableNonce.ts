@@ -0,0 +1,141 @@
+/**
+ * DurableNonce.ts
+ * Durable-nonce bookkeeping for deferred agent signing.
+ *
+ * A transaction built against a durable nonce (instead of a recent blockhash)
+ * stays valid until the nonce is advanced, so an agent can sign it now and
+ * submit it later — after human approval, on a schedule, or from another
+ * process. Each prepared transaction holds one nonce value; submitting or
+ * cancelling it advances the nonce and frees the account for reuse.
+ *
+ * Co-signed transactions are deferred transactions that also name supervisor
+ * keys as required signers; they cannot be submitted until every one has signed.
+ *
+ * Per agent, on disk:
+ *   .agent-keys/{agentId}.nonces.json    nonce accounts owned by the agent
+ *   .agent-keys/{agentId}.deferred.json  prepared transactions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+
+export interface NonceAccountEntry {
+  address: string;
+  createdAt: string;
+}
+
+export interface DeferredTransaction {
+  id: string;
+  nonceAccount: string;
+  nonce: string;       // nonce value the transaction was signed against
+  minContextSlot: number;
+  signature: string;
+  serialized: string;  // base64 wire transaction
+  description?: string;
+  createdAt: string;
+  status: 'prepared' | 'submitted' | 'failed' | 'cancelled';
+  submittedAt?: string;
+  error?: string;
+  cosigners?: string[]; // supervisor keys that must sign before submit
+  recordId?: string;    // journal record kept while awaiting signatures
+}
+
+export class DurableNonceStore {
+  private noncesPath: string;
+  private deferredPath: string;
+
+  constructor(agentId: string, dir: string = path.resolve(process.cwd(), '.agent-keys')) {
+    this.noncesPath = path.join(dir, `${agentId}.nonces.json`);
+    this.deferredPath = path.join(dir, `${agentId}.deferred.json`);
+  }
+
+  listNonceAccounts(): NonceAccountEntry[] {
+    return readJson<NonceAccountEntry[]>(this.noncesPath, []);
+  }
+
+  addNonceAccount(address: string): void {
+    const entries = this.listNonceAccounts();
+    entries.push({ address, createdAt: new Date().toISOString() });
+    writeJson(this.noncesPath, entries);
+  }
+
+  removeNonceAccount(address: string): void {
+    writeJson(this.noncesPath, this.listNonceAccounts().filter((e) => e.address !== address));
+  }
+
+  listDeferred(): DeferredTransaction[] {
+    return readJson<DeferredTransaction[]>(this.deferredPath, []);
+  }
+
+  getDeferred(id: string): DeferredTransaction {
+    const entry = this.listDeferred().find((d) => d.id === id);
+    if (!entry) throw new Error(`No deferred transaction: ${id}`);
+    return entry;
+  }
+
+  saveDeferred(entry: DeferredTransaction): void {
+    const entries = this.listDeferred().filter((d) => d.id !== entry.id);
+    entries.push(entry);
+    writeJson(this.deferredPath, entries);
+  }
+
+  /** A nonce account with no prepared transaction waiting on it */
+  freeNonceAccount(): string | null {
+    const busy = new Set(this.listDeferred().filter((d) => d.status === 'prepared').map((d) => d.nonceAccount));
+    const free = this.listNonceAccounts().find((e) => !busy.has(e.address));
+    return free ? free.address : null;
+  }
+}
+
+/** Co-signers of a deferred transaction that have not signed yet */
+export function missingSignatures(entry: DeferredTransaction): string[] {
+  if (!entry.cosigners || entry.cosigners.length === 0) return [];
+  const tx = Transaction.from(Buffer.from(entry.serialized, 'base64'));
+  const signed = new Set(tx.signatures.filter((s) => s.signature).map((s) => s.publicKey.toBase58()));
+  return entry.cosigners.filter((c) => !signed.has(c));
+}
+
+/** Build an unsigned transaction whose first instruction advances `nonceAccount` */
+export async function buildNonceTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  nonceAccount: PublicKey,
+  instructions: TransactionInstruction[]
+): Promise<{ tx: Transaction; nonce: string; minContextSlot: number }> {
+  const { context, value } = await connection.getNonceAndContext(nonceAccount);
+  if (!value) throw new Error(`Not a nonce account: ${nonceAccount.toBase58()}`);
+  if (!value.authorizedPubkey.equals(payer)) {
+    throw new Error(`Nonce account ${nonceAccount.toBase58()} is not controlled by ${payer.toBase58()}`);
+  }
+  const tx = new Transaction({
+    feePayer: payer,
+    minContextSlot: context.slot,
+    nonceInfo: {
+      nonce: value.nonce,
+      nonceInstruction: SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: payer }),
+    },
+  }).add(...instructions);
+  return { tx, nonce: value.nonce, minContextSlot: context.slot };
+}
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    if (!fs.existsSync(file)) return fallback;
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(file: string, value: unknown): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2), { mode: 0o600 });
+}
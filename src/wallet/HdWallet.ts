@@ -0,0 +1,159 @@
+/**
+ * HdWallet.ts
+ * Deterministic agent keys from one BIP39 mnemonic.
+ *
+ *  - Agent n's key is derived along m/44'/501'/n'/0' (SLIP-0010 ed25519, the
+ *    path Phantom, Solflare and `solana-keygen` use), so any of them can open it
+ *  - A KeyManager holding an HD seed (see KeyManager.initHd) derives every new
+ *    key at the next index and records it as `derivationIndex`
+ *  - recoverFromMnemonic rebuilds the key store from the mnemonic alone: it
+ *    walks the indices until `gapLimit` in a row have no on-chain history and
+ *    names each key after the agent in its memo tags (see utils/memo.ts)
+ */
+
+import { Connection, Keypair, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import * as bip39 from 'bip39';
+import { createHmac } from 'crypto';
+import type { KeyManager } from './KeyManager';
+import { RetiredKey, StoredKeyMeta } from './KeyStore';
+import { defaultMemoFormat, readMemoTag } from '../utils/memo';
+import { logger } from '../utils/logger';
+
+const HARDENED = 0x80000000;
+const ED25519_CURVE = Buffer.from('ed25519 seed');
+
+export interface RecoveryOptions {
+  gapLimit?: number;    // consecutive unused indices that end the scan
+  passphrase?: string;  // BIP39 passphrase, if the mnemonic was used with one
+  memoFormat?: string;
+  historyDepth?: number; // signatures read per address when looking for a memo tag
+}
+
+export interface RecoveredKey {
+  index: number;
+  agentId: string;
+  publicKey: string;
+  named: boolean; // false if no memo tag named the agent (stored as hd-<index>)
+  retired: boolean;
+}
+
+export function hdPath(index: number): string {
+  return `m/44'/501'/${index}'/0'`;
+}
+
+/** A new 24-word English mnemonic */
+export function generateMnemonic(): string {
+  return bip39.generateMnemonic(256);
+}
+
+export function validateMnemonic(mnemonic: string): boolean {
+  return bip39.validateMnemonic(normalizeMnemonic(mnemonic));
+}
+
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Buffer {
+  return bip39.mnemonicToSeedSync(normalizeMnemonic(mnemonic), passphrase);
+}
+
+/** SLIP-0010 ed25519 private key at `path`; ed25519 only has hardened children */
+export function deriveEd25519(seed: Uint8Array, path: string): Buffer {
+  const segments = path.split('/');
+  if (segments.shift() !== 'm') throw new Error(`Invalid derivation path: ${path}`);
+  let node = createHmac('sha512', ED25519_CURVE).update(seed).digest();
+  for (const segment of segments) {
+    const match = /^(\d+)'$/.exec(segment);
+    if (!match || Number(match[1]) >= HARDENED) throw new Error(`Invalid or non-hardened path segment: ${segment}`);
+    const index = Buffer.alloc(4);
+    index.writeUInt32BE(Number(match[1]) + HARDENED);
+    node = createHmac('sha512', node.subarray(32))
+      .update(Buffer.concat([Buffer.alloc(1), node.subarray(0, 32), index]))
+      .digest();
+  }
+  return node.subarray(0, 32);
+}
+
+export function deriveAgentKeypair(seed: Uint8Array, index: number): Keypair {
+  return Keypair.fromSeed(deriveEd25519(seed, hdPath(index)));
+}
+
+/**
+ * Store the mnemonic's seed in `keyManager` and re-create the keys it derived
+ * that have on-chain history. Keys naming the same agent are treated as a
+ * rotation chain: the highest index becomes the agent's key and the others are
+ * archived as retired (see AgentWallet.rotateKey).
+ */
+export async function recoverFromMnemonic(
+  keyManager: KeyManager,
+  connection: Connection,
+  mnemonic: string,
+  options: RecoveryOptions = {}
+): Promise<RecoveredKey[]> {
+  const gapLimit = options.gapLimit ?? 20;
+  const format = options.memoFormat ?? defaultMemoFormat();
+  const seed = mnemonicToSeed(mnemonic, options.passphrase);
+  keyManager.initHd(mnemonic, options.passphrase);
+
+  const found: { index: number; keypair: Keypair; agentId?: string }[] = [];
+  for (let index = 0, gap = 0; gap < gapLimit; index++) {
+    const keypair = deriveAgentKeypair(seed, index);
+    const signatures = await connection.getSignaturesForAddress(keypair.publicKey, {
+      limit: options.historyDepth ?? 25,
+    });
+    if (signatures.length === 0) {
+      gap++;
+      continue;
+    }
+    gap = 0;
+    found.push({ index, keypair, agentId: await findAgentId(connection, keypair.publicKey, signatures, format) });
+  }
+
+  const chains = new Map<string, typeof found>();
+  for (const key of found) {
+    const agentId = key.agentId || `hd-${key.index}`;
+    chains.set(agentId, [...(chains.get(agentId) || []), key]);
+  }
+
+  const recovered: RecoveredKey[] = [];
+  for (const [agentId, chain] of chains) {
+    const previousKeys: RetiredKey[] = [];
+    chain.forEach((key, i) => {
+      const publicKey = key.keypair.publicKey.toBase58();
+      const active = i === chain.length - 1;
+      let meta: StoredKeyMeta;
+      if (active) {
+        meta = keyManager.storeDerived(agentId, key.index, undefined, previousKeys.length ? { previousKeys } : {});
+      } else {
+        const retiredAt = new Date().toISOString();
+        const archivedAs = `${agentId}.retired.${publicKey.slice(0, 8)}`;
+        const successor = chain[i + 1].keypair.publicKey.toBase58();
+        meta = keyManager.storeDerived(archivedAs, key.index, undefined, { retiredAt, successor });
+        previousKeys.push({ publicKey, retiredAt, archivedAs, sweepSignatures: [] });
+      }
+      recovered.push({ index: key.index, agentId: meta.agentId, publicKey, named: !!key.agentId, retired: !active });
+    });
+  }
+  logger.info(`[HdWallet] Recovered ${recovered.length} key(s) from the mnemonic`);
+  return recovered.sort((a, b) => a.index - b.index);
+}
+
+/** Agent named by the newest memo tag on a transaction this address paid for */
+async function findAgentId(
+  connection: Connection,
+  address: PublicKey,
+  signatures: { signature: string; err: unknown }[],
+  format: string
+): Promise<string | undefined> {
+  for (const info of signatures) {
+    if (info.err) continue;
+    const tx: ParsedTransactionWithMeta | null = await connection.getParsedTransaction(info.signature, {
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx || !tx.transaction.message.accountKeys[0]?.pubkey.equals(address)) continue;
+    const tag = readMemoTag(tx, format);
+    if (tag) return tag.agentId;
+  }
+  return undefined;
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
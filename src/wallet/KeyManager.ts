@@ -4,87 +4,149 @@
  *
  * Security model:
  *  - Keys are encrypted at rest using AES-256-GCM via Node's built-in crypto.
- *  - Each key file uses a unique random IV (initialization vector).
+ *  - Each key file has its own random salt and IV; the AES key is derived from
+ *    the secret and the salt with scrypt, whose cost is tunable.
  *  - The encryption secret is loaded from environment variables, never hardcoded.
+ *    The built-in development secret is refused outside devnet.
+ *  - rotateSecret re-encrypts every key file under a new secret: all files are
+ *    staged and verified first, then swapped in, and a failed swap is rolled back.
+ *  - With an HD seed stored (initHd), new keys are derived from it along
+ *    m/44'/501'/n'/0' instead of generated at random; see HdWallet.ts.
+ *  - Signing happens here (signMessage / signTransaction); to keep keys out of
+ *    agent processes entirely, run this store behind a SignerDaemon and give
+ *    agents a RemoteKeyStore.
  *  - In production, replace the file-based store with HSM / KMS / Vault.
+ *
+ * Key file format (version 1), all of it authenticated:
+ *   "SAWK" | version(1) | kdf(1) | log2 N(1) | r(1) | p(1) | salt(16) | iv(12) | authTag(16) | ciphertext
+ * Version 0 files (iv(16) | authTag(16) | ciphertext, keyed by SHA-256 of the
+ * secret) are still read; `npm run migrate-keys` rewrites them as version 1.
+ *
+ * Backup archives (createBackup) use the same layout with magic "SAWB", keyed
+ * by a passphrase instead of the secret; the ciphertext is a JSON manifest of
+ * every key file and its metadata.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { Keypair } from '@solana/web3.js';
-import { KeyStore, StoredKeyMeta } from './KeyStore';
-import bs58 from 'bs58';
+import { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { KeyLineage, KeyStore, StoredKeyMeta, isAgentId } from './KeyStore';
+import { deriveAgentKeypair, mnemonicToSeed, validateMnemonic } from './HdWallet';
+import { SecretKeyFormat, formatSecretKey, parseSecretKey } from '../utils/keyFormats';
+import { assertOffchainMessage } from '../utils/siws';
+import { logger } from '../utils/logger';
 
 const KEYS_DIR = path.resolve(process.cwd(), '.agent-keys');
 const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
 const TAG_LENGTH = 16;
 const KEY_LENGTH = 32; // bytes for AES-256
 
+const MAGIC = Buffer.from('SAWK');
+const BACKUP_MAGIC = Buffer.from('SAWB');
+const BACKUP_MIN_LOG_N = 17;       // backups leave the machine, so guessing the passphrase costs more
+const BACKUP_MIN_PASSPHRASE = 12;
+const KDF_MAX_MEMORY = 1024 ** 3;  // scrypt needs 128·N·r bytes; a file header must not demand more
+const FORMAT_VERSION = 1;
+const KDF_SCRYPT = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = MAGIC.length + 5 + SALT_LENGTH;
+const LEGACY_IV_LENGTH = 16;
+const HD_SEED_ID = '_hd-seed'; // key file holding the BIP39 seed; it has no metadata
+const ROTATING = '.rotating'; // staged key file during secret rotation
+const BACKUP = '.bak';        // original key file while rotated files are swapped in
+
+/** Secrets that ship with the repo; usable on devnet only */
+const DEV_SECRETS = ['default-dev-secret-change-me!!', 'CHANGE_ME_TO_A_RANDOM_32+_CHAR_SECRET'];
+
+export interface KdfParams {
+  logN: number; // scrypt cost N = 2^logN
+  r: number;
+  p: number;
+}
+
+export interface KeyManagerOptions {
+  keysDir?: string;
+  kdf?: Partial<KdfParams>; // defaults from KEY_KDF_LOG_N / KEY_KDF_R / KEY_KDF_P
+  cluster?: string;         // defaults to SOLANA_CLUSTER; decides whether the dev secret is allowed
+}
+
+export type KeyFileInfo = { version: 0 } | { version: 1; kdf: KdfParams };
+
+export type MigrateResult = 'migrated' | 'rekeyed' | 'current';
+
+/** Decrypted contents of a backup archive */
+interface BackupManifest {
+  format: 'agent-keys-backup';
+  createdAt: string;
+  hdNextIndex?: number;
+  keys: { agentId: string; secretKey: string; meta?: StoredKeyMeta }[]; // secretKey: base64
+}
+
+export class KeyFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyFileError';
+  }
+}
+
 export class KeyManager implements KeyStore {
-  private encryptionKey: Buffer;
+  private secret: string;
+  private keysDir: string;
+  private kdf: KdfParams;
+  private derived: Map<string, Buffer> = new Map(); // salt + params → AES key
+  private legacyWarned: Set<string> = new Set();
 
-  constructor(secret?: string) {
-    const rawSecret = secret || process.env.ENCRYPTION_SECRET || 'default-dev-secret-change-me!!';
-    // Derive a 32-byte key from the secret using SHA-256
-    this.encryptionKey = crypto.createHash('sha256').update(rawSecret).digest();
+  constructor(secret?: string, options: KeyManagerOptions = {}) {
+    const rawSecret = secret || process.env.ENCRYPTION_SECRET || DEV_SECRETS[0];
+    const cluster = options.cluster || process.env.SOLANA_CLUSTER || 'devnet';
+    if (DEV_SECRETS.includes(rawSecret)) {
+      if (cluster !== 'devnet') {
+        throw new KeyFileError(`ENCRYPTION_SECRET is the development default; set a real secret to use ${cluster}`);
+      }
+      logger.warn('[KeyManager] Using the development encryption secret; set ENCRYPTION_SECRET before leaving devnet');
+    }
+    this.secret = rawSecret;
+    this.keysDir = options.keysDir || KEYS_DIR;
+    this.kdf = validateKdf({
+      logN: options.kdf?.logN ?? parseInt(process.env.KEY_KDF_LOG_N || '15'),
+      r: options.kdf?.r ?? parseInt(process.env.KEY_KDF_R || '8'),
+      p: options.kdf?.p ?? parseInt(process.env.KEY_KDF_P || '1'),
+    });
     this.ensureKeysDir();
   }
 
   private ensureKeysDir(): void {
-    if (!fs.existsSync(KEYS_DIR)) {
-      fs.mkdirSync(KEYS_DIR, { recursive: true, mode: 0o700 });
+    if (!fs.existsSync(this.keysDir)) {
+      fs.mkdirSync(this.keysDir, { recursive: true, mode: 0o700 });
     }
   }
 
   /** Encrypt a private key and persist it with metadata */
-  storeKey(agentId: string, keypair: Keypair, label?: string): StoredKeyMeta {
-    const privateKeyBytes = keypair.secretKey; // Uint8Array[64]
-    const iv = crypto.randomBytes(IV_LENGTH);
-
-    const cipher = crypto.createCipheriv(ALGORITHM, this.encryptionKey, iv);
-    const encrypted = Buffer.concat([
-      cipher.update(Buffer.from(privateKeyBytes)),
-      cipher.final(),
-    ]);
-    const authTag = cipher.getAuthTag();
-
-    // File format: iv(16) | authTag(16) | ciphertext
-    const stored = Buffer.concat([iv, authTag, encrypted]);
-    const keyPath = this.keyPath(agentId);
-    fs.writeFileSync(keyPath, stored, { mode: 0o600 });
+  storeKey(agentId: string, keypair: Keypair, label?: string, lineage: KeyLineage = {}): StoredKeyMeta {
+    this.writeKeyFile(agentId, keypair.secretKey);
 
     const meta: StoredKeyMeta = {
       agentId,
       publicKey: keypair.publicKey.toBase58(),
       createdAt: new Date().toISOString(),
       label,
+      ...lineage,
     };
-    fs.writeFileSync(this.metaPath(agentId), JSON.stringify(meta, null, 2), {
-      mode: 0o600,
-    });
-
+    this.writeMeta(meta);
     return meta;
   }
 
   /** Load and decrypt a stored keypair */
   loadKey(agentId: string): Keypair {
-    const keyPath = this.keyPath(agentId);
-    if (!fs.existsSync(keyPath)) {
-      throw new Error(`No key stored for agent: ${agentId}`);
+    const file = parseKeyFile(this.readKeyFile(agentId));
+    if (file.version === 0 && !this.legacyWarned.has(agentId)) {
+      this.legacyWarned.add(agentId);
+      logger.warn(`[KeyManager] Key for ${agentId} uses the legacy file format; run \`npm run migrate-keys\``);
     }
-
-    const stored = fs.readFileSync(keyPath);
-    const iv = stored.subarray(0, IV_LENGTH);
-    const authTag = stored.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
-    const ciphertext = stored.subarray(IV_LENGTH + TAG_LENGTH);
-
-    const decipher = crypto.createDecipheriv(ALGORITHM, this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-    const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
-
-    return Keypair.fromSecretKey(new Uint8Array(decrypted));
+    return Keypair.fromSecretKey(new Uint8Array(this.decrypt(agentId, file)));
   }
 
   /** Delete a key from disk (e.g., agent retirement) */
@@ -97,10 +159,10 @@ export class KeyManager implements KeyStore {
   /** List all stored agent key metadata */
   listKeys(): StoredKeyMeta[] {
     return fs
-      .readdirSync(KEYS_DIR)
+      .readdirSync(this.keysDir)
       .filter((f) => f.endsWith('.meta.json'))
       .map((f) => {
-        const raw = fs.readFileSync(path.join(KEYS_DIR, f), 'utf-8');
+        const raw = fs.readFileSync(path.join(this.keysDir, f), 'utf-8');
         return JSON.parse(raw) as StoredKeyMeta;
       });
   }
@@ -124,11 +186,404 @@ export class KeyManager implements KeyStore {
     return JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as StoredKeyMeta;
   }
 
+  /** A new key: derived at the next HD index when a seed is stored, random otherwise */
+  generateKey(agentId: string, label?: string, lineage: KeyLineage = {}): StoredKeyMeta {
+    if (this.hasKey(agentId)) throw new KeyFileError(`A key for ${agentId} already exists`);
+    if (this.isHd()) return this.storeDerived(agentId, this.readHdState().nextIndex, label, lineage);
+    return this.storeKey(agentId, Keypair.generate(), label, lineage);
+  }
+
+  async createKey(agentId: string, label?: string, lineage: KeyLineage = {}): Promise<StoredKeyMeta> {
+    return this.generateKey(agentId, label, lineage);
+  }
+
+  /** Re-encrypt a key under another agentId; the new files are written before the old ones go */
+  async renameKey(from: string, to: string, lineage: KeyLineage = {}): Promise<StoredKeyMeta> {
+    if (this.hasKey(to)) throw new KeyFileError(`A key for ${to} already exists`);
+    const secretKey = this.decrypt(from, parseKeyFile(this.readKeyFile(from)));
+    const { previousKeys, retiredAt, successor, replaces, ...base } = this.getMeta(from);
+    const meta: StoredKeyMeta = { ...base, ...lineage, agentId: to };
+    this.writeKeyFile(to, secretKey);
+    this.writeMeta(meta);
+    this.deleteKey(from);
+    return meta;
+  }
+
+  // ─── HD derivation ────────────────────────────────────────────────────────
+
+  /** Whether new keys are derived from a stored BIP39 seed */
+  isHd(): boolean {
+    return this.hasKey(HD_SEED_ID);
+  }
+
+  /** Store the seed of `mnemonic` (encrypted like any key); from now on new keys are derived from it */
+  initHd(mnemonic: string, passphrase = ''): void {
+    if (this.isHd()) throw new KeyFileError('An HD seed is already stored');
+    if (!validateMnemonic(mnemonic)) throw new KeyFileError('Invalid BIP39 mnemonic');
+    this.writeKeyFile(HD_SEED_ID, mnemonicToSeed(mnemonic, passphrase));
+    this.writeHdState({ nextIndex: 0 });
+    logger.info('[KeyManager] HD seed stored; new agent keys derive from it');
+  }
+
+  /** Store the key at HD index `index` under `agentId`; later keys derive past it */
+  storeDerived(agentId: string, index: number, label?: string, lineage: KeyLineage = {}): StoredKeyMeta {
+    if (this.hasKey(agentId)) throw new KeyFileError(`A key for ${agentId} already exists`);
+    const seed = this.decrypt(HD_SEED_ID, parseKeyFile(this.readKeyFile(HD_SEED_ID)));
+    const meta = this.storeKey(agentId, deriveAgentKeypair(seed, index), label, lineage);
+    meta.derivationIndex = index;
+    this.writeMeta(meta);
+    const state = this.readHdState();
+    if (index >= state.nextIndex) this.writeHdState({ nextIndex: index + 1 });
+    return meta;
+  }
+
+  private readHdState(): { nextIndex: number } {
+    const statePath = path.join(this.keysDir, 'hd-state.json');
+    if (!fs.existsSync(statePath)) {
+      // Rebuild from the metadata if the state file was lost
+      const used = this.listKeys().map((m) => m.derivationIndex ?? -1);
+      return { nextIndex: Math.max(-1, ...used) + 1 };
+    }
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  }
+
+  private writeHdState(state: { nextIndex: number }): void {
+    const statePath = path.join(this.keysDir, 'hd-state.json');
+    const tmp = `${statePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, statePath);
+  }
+
+  private writeMeta(meta: StoredKeyMeta): void {
+    fs.writeFileSync(this.metaPath(meta.agentId), JSON.stringify(meta, null, 2), { mode: 0o600 });
+  }
+
+  // ─── Signing ──────────────────────────────────────────────────────────────
+
+  async signMessage(agentId: string, message: Uint8Array): Promise<Uint8Array> {
+    const keypair = this.loadKey(agentId);
+    assertOffchainMessage(message, keypair.publicKey);
+    return nacl.sign.detached(message, keypair.secretKey);
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(agentId: string, tx: T): Promise<T> {
+    const keypair = this.loadKey(agentId);
+    if (tx instanceof VersionedTransaction) tx.sign([keypair]);
+    else (tx as Transaction).partialSign(keypair);
+    return tx;
+  }
+
+  // ─── Key file format ──────────────────────────────────────────────────────
+
+  /** Agent ids with a key file, including any without metadata */
+  listKeyFiles(): string[] {
+    return fs
+      .readdirSync(this.keysDir)
+      .filter((f) => f.endsWith('.key'))
+      .map((f) => f.slice(0, -'.key'.length));
+  }
+
+  /** Format version and KDF parameters of a stored key file */
+  inspectKey(agentId: string): KeyFileInfo {
+    const file = parseKeyFile(this.readKeyFile(agentId));
+    return file.version === 0 ? { version: 0 } : { version: 1, kdf: file.kdf };
+  }
+
+  /**
+   * Rewrite a key file in place in the current format: version 0 files are
+   * migrated, version 1 files with other KDF parameters are re-derived. The key
+   * must decrypt with this manager's secret, or with `legacySecret` for version 0
+   * files written under an older secret, and must match the stored public key.
+   */
+  migrateKey(agentId: string, legacySecret?: string): MigrateResult {
+    const file = parseKeyFile(this.readKeyFile(agentId));
+    if (file.version === 1 && sameKdf(file.kdf, this.kdf)) return 'current';
+    const secretKey =
+      file.version === 0 && legacySecret ? decryptLegacy(file, legacySecret, agentId) : this.decrypt(agentId, file);
+    if (agentId === HD_SEED_ID) {
+      this.writeKeyFile(agentId, secretKey);
+      return file.version === 0 ? 'migrated' : 'rekeyed';
+    }
+    const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+    if (fs.existsSync(this.metaPath(agentId))) {
+      const expected = this.getMeta(agentId).publicKey;
+      if (keypair.publicKey.toBase58() !== expected) {
+        throw new KeyFileError(`Key file for ${agentId} does not match its metadata (${expected})`);
+      }
+    }
+    this.writeKeyFile(agentId, keypair.secretKey);
+    return file.version === 0 ? 'migrated' : 'rekeyed';
+  }
+
+  /**
+   * Re-encrypt every key file under `newSecret`, after which this manager uses
+   * it. Nothing changes unless every file decrypts with the current secret and
+   * its staged replacement decrypts with the new one; if swapping the files in
+   * fails part way, the ones already swapped are restored. Processes still
+   * running with the old secret can no longer load keys, so stop them first.
+   */
+  rotateSecret(newSecret: string): string[] {
+    if (!newSecret || DEV_SECRETS.includes(newSecret)) throw new KeyFileError('The new secret must not be a development default');
+    if (newSecret === this.secret) throw new KeyFileError('The new secret is the current secret');
+    const leftovers = fs.readdirSync(this.keysDir).filter((f) => f.endsWith(ROTATING) || f.endsWith(BACKUP));
+    if (leftovers.length > 0) {
+      throw new KeyFileError(
+        `An interrupted rotation left ${leftovers.join(', ')}; restore each .key${BACKUP} over its .key (or delete them if the .key files load) first`
+      );
+    }
+
+    const ids = this.listKeyFiles();
+    const secretKeys = ids.map((id) => this.decrypt(id, parseKeyFile(this.readKeyFile(id))));
+    const next = new KeyManager(newSecret, { keysDir: this.keysDir, kdf: this.kdf, cluster: 'devnet' });
+    const swapped: string[] = [];
+    try {
+      ids.forEach((id, i) => {
+        const staged = this.keyPath(id) + ROTATING;
+        next.writeKeyFile(id, secretKeys[i], staged);
+        if (!next.decrypt(id, parseKeyFile(fs.readFileSync(staged))).equals(secretKeys[i])) {
+          throw new KeyFileError(`Staged key for ${id} does not round-trip`);
+        }
+      });
+      for (const id of ids) {
+        fs.renameSync(this.keyPath(id), this.keyPath(id) + BACKUP);
+        swapped.push(id);
+        fs.renameSync(this.keyPath(id) + ROTATING, this.keyPath(id));
+      }
+    } catch (err) {
+      for (const id of swapped) fs.renameSync(this.keyPath(id) + BACKUP, this.keyPath(id));
+      for (const id of ids) fs.rmSync(this.keyPath(id) + ROTATING, { force: true });
+      throw err;
+    }
+    for (const id of ids) fs.rmSync(this.keyPath(id) + BACKUP, { force: true });
+
+    this.secret = newSecret;
+    this.derived.clear();
+    logger.info(`[KeyManager] Re-encrypted ${ids.length} key file(s) under the new secret`);
+    return ids;
+  }
+
+  // ─── Import, export and backup ────────────────────────────────────────────
+
+  /** Store a key given as a Solana CLI keypair file or a base58 secret (see utils/keyFormats.ts) */
+  importKey(agentId: string, text: string, label?: string): StoredKeyMeta {
+    if (!isAgentId(agentId)) throw new KeyFileError(`Invalid agent id: ${agentId}`);
+    if (this.hasKey(agentId)) throw new KeyFileError(`A key for ${agentId} already exists`);
+    const keypair = parseSecretKey(text);
+    const publicKey = keypair.publicKey.toBase58();
+    const existing = this.listKeys().find((m) => m.publicKey === publicKey);
+    if (existing) throw new KeyFileError(`${publicKey} is already stored as ${existing.agentId}`);
+    const meta = this.storeKey(agentId, keypair, label);
+    logger.info(`[KeyManager] Imported ${publicKey} as ${agentId}`);
+    return meta;
+  }
+
+  /** An agent's secret key as plain text; anyone holding it controls the wallet */
+  exportKey(agentId: string, format: SecretKeyFormat = 'json'): string {
+    if (agentId === HD_SEED_ID) throw new KeyFileError('The HD seed is not a keypair; back it up with createBackup');
+    const keypair = this.loadKey(agentId);
+    logger.warn(`[KeyManager] Exported the secret key of ${agentId} (${keypair.publicKey.toBase58()})`);
+    return formatSecretKey(keypair, format);
+  }
+
+  /**
+   * Every key file (including an HD seed) and its metadata, encrypted under
+   * `passphrase` rather than ENCRYPTION_SECRET, so it can be restored on
+   * another host with a different secret.
+   */
+  createBackup(passphrase: string): Buffer {
+    if (passphrase.length < BACKUP_MIN_PASSPHRASE) {
+      throw new KeyFileError(`The backup passphrase must be at least ${BACKUP_MIN_PASSPHRASE} characters`);
+    }
+    const ids = this.listKeyFiles();
+    const manifest: BackupManifest = {
+      format: 'agent-keys-backup',
+      createdAt: new Date().toISOString(),
+      hdNextIndex: this.isHd() ? this.readHdState().nextIndex : undefined,
+      keys: ids.map((agentId) => ({
+        agentId,
+        secretKey: this.decrypt(agentId, parseKeyFile(this.readKeyFile(agentId))).toString('base64'),
+        meta: fs.existsSync(this.metaPath(agentId)) ? this.getMeta(agentId) : undefined,
+      })),
+    };
+    const kdf = { ...this.kdf, logN: Math.max(this.kdf.logN, BACKUP_MIN_LOG_N) };
+    const archive = seal(BACKUP_MAGIC, Buffer.from(JSON.stringify(manifest)), kdf, (salt) => scrypt(passphrase, salt, kdf));
+    logger.info(`[KeyManager] Backed up ${ids.length} key file(s)`);
+    return archive;
+  }
+
+  /**
+   * Restore a createBackup archive into this (empty) key directory, encrypted
+   * under this manager's secret. The whole archive is checked first: it must
+   * authenticate under `passphrase` and every key must match its metadata.
+   */
+  restoreBackup(archive: Buffer, passphrase: string): string[] {
+    if (this.listKeyFiles().length > 0) throw new KeyFileError(`${this.keysDir} already holds keys; restore into an empty directory`);
+    if (!archive.subarray(0, BACKUP_MAGIC.length).equals(BACKUP_MAGIC)) throw new KeyFileError('Not a key backup archive');
+    const file = parseSealed(archive);
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(unseal(file, scrypt(passphrase, file.salt, file.kdf)).toString('utf-8'));
+    } catch {
+      throw new KeyFileError('Cannot open backup: wrong passphrase or corrupted archive');
+    }
+    if (manifest?.format !== 'agent-keys-backup' || !Array.isArray(manifest.keys)) {
+      throw new KeyFileError('Backup manifest is malformed');
+    }
+
+    const entries = manifest.keys.map(({ agentId, secretKey, meta }) => {
+      if (!isAgentId(agentId)) {
+        throw new KeyFileError(`Invalid agent id in backup: ${agentId}`);
+      }
+      const bytes = Buffer.from(String(secretKey), 'base64');
+      if (bytes.length !== 64) throw new KeyFileError(`Backup entry ${agentId} is not a 64-byte key`);
+      if (agentId === HD_SEED_ID) return { agentId, bytes };
+      if (!meta || meta.agentId !== agentId) throw new KeyFileError(`Backup entry ${agentId} has no matching metadata`);
+      let publicKey: string;
+      try {
+        publicKey = Keypair.fromSecretKey(new Uint8Array(bytes)).publicKey.toBase58();
+      } catch {
+        throw new KeyFileError(`Backup entry ${agentId} is not a valid keypair`);
+      }
+      if (publicKey !== meta.publicKey) {
+        throw new KeyFileError(`Backup entry ${agentId} does not match its metadata (${meta.publicKey})`);
+      }
+      return { agentId, bytes, meta };
+    });
+
+    for (const { agentId, bytes, meta } of entries) {
+      this.writeKeyFile(agentId, bytes);
+      if (meta) this.writeMeta(meta);
+    }
+    if (this.isHd()) this.writeHdState({ nextIndex: manifest.hdNextIndex ?? this.readHdState().nextIndex });
+    logger.info(`[KeyManager] Restored ${entries.length} key file(s) from a backup made ${manifest.createdAt}`);
+    return entries.map((e) => e.agentId);
+  }
+
+  private writeKeyFile(agentId: string, secretKey: Uint8Array, target: string = this.keyPath(agentId)): void {
+    const sealed = seal(MAGIC, secretKey, this.kdf, (salt) => this.deriveKey(salt, this.kdf));
+    const tmp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, sealed, { mode: 0o600 });
+    fs.renameSync(tmp, target);
+  }
+
+  private readKeyFile(agentId: string): Buffer {
+    const keyPath = this.keyPath(agentId);
+    if (!fs.existsSync(keyPath)) {
+      throw new Error(`No key stored for agent: ${agentId}`);
+    }
+    return fs.readFileSync(keyPath);
+  }
+
+  private decrypt(agentId: string, file: ParsedKeyFile): Buffer {
+    if (file.version === 0) return decryptLegacy(file, this.secret, agentId);
+    try {
+      return unseal(file, this.deriveKey(file.salt, file.kdf));
+    } catch {
+      throw new KeyFileError(`Cannot decrypt key for ${agentId}: wrong ENCRYPTION_SECRET or corrupted file`);
+    }
+  }
+
+  private deriveKey(salt: Buffer, kdf: KdfParams): Buffer {
+    const id = `${kdf.logN}:${kdf.r}:${kdf.p}:${salt.toString('hex')}`;
+    let key = this.derived.get(id);
+    if (!key) {
+      key = scrypt(this.secret, salt, kdf);
+      this.derived.set(id, key);
+    }
+    return key;
+  }
+
   private keyPath(agentId: string): string {
-    return path.join(KEYS_DIR, `${agentId}.key`);
+    return path.join(this.keysDir, `${agentId}.key`);
   }
 
   private metaPath(agentId: string): string {
-    return path.join(KEYS_DIR, `${agentId}.meta.json`);
+    return path.join(this.keysDir, `${agentId}.meta.json`);
+  }
+}
+
+type ParsedKeyFile =
+  | { version: 0; iv: Buffer; authTag: Buffer; ciphertext: Buffer }
+  | { version: 1; header: Buffer; kdf: KdfParams; salt: Buffer; iv: Buffer; authTag: Buffer; ciphertext: Buffer };
+
+function parseKeyFile(stored: Buffer): ParsedKeyFile {
+  if (!stored.subarray(0, MAGIC.length).equals(MAGIC)) {
+    return {
+      version: 0,
+      iv: stored.subarray(0, LEGACY_IV_LENGTH),
+      authTag: stored.subarray(LEGACY_IV_LENGTH, LEGACY_IV_LENGTH + TAG_LENGTH),
+      ciphertext: stored.subarray(LEGACY_IV_LENGTH + TAG_LENGTH),
+    };
   }
+  return parseSealed(stored);
+}
+
+/** Split a version 1 file (key file or backup archive) into its parts */
+function parseSealed(stored: Buffer): Extract<ParsedKeyFile, { version: 1 }> {
+  if (stored.length < HEADER_LENGTH + IV_LENGTH + TAG_LENGTH) throw new KeyFileError('File is truncated');
+  const [version, kdfId, logN, r, p] = stored.subarray(MAGIC.length, MAGIC.length + 5);
+  if (version !== FORMAT_VERSION) throw new KeyFileError(`Unsupported key file version ${version}`);
+  if (kdfId !== KDF_SCRYPT) throw new KeyFileError(`Unsupported key derivation function ${kdfId}`);
+  const ivStart = HEADER_LENGTH;
+  const tagStart = ivStart + IV_LENGTH;
+  return {
+    version: 1,
+    header: stored.subarray(0, HEADER_LENGTH),
+    kdf: validateKdf({ logN, r, p }),
+    salt: stored.subarray(HEADER_LENGTH - SALT_LENGTH, HEADER_LENGTH),
+    iv: stored.subarray(ivStart, tagStart),
+    authTag: stored.subarray(tagStart, tagStart + TAG_LENGTH),
+    ciphertext: stored.subarray(tagStart + TAG_LENGTH),
+  };
+}
+
+/** Version 0: AES key is an unsalted SHA-256 of the secret */
+function decryptLegacy(file: Extract<ParsedKeyFile, { version: 0 }>, secret: string, agentId: string): Buffer {
+  try {
+    const key = crypto.createHash('sha256').update(secret).digest();
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, file.iv);
+    decipher.setAuthTag(file.authTag);
+    return Buffer.concat([decipher.update(file.ciphertext), decipher.final()]);
+  } catch {
+    throw new KeyFileError(`Cannot decrypt legacy key for ${agentId}: wrong secret or corrupted file`);
+  }
+}
+
+/** Encrypt `data` in the version 1 layout; the header (magic, KDF parameters, salt) is authenticated */
+function seal(magic: Buffer, data: Uint8Array, kdf: KdfParams, keyFor: (salt: Buffer) => Buffer): Buffer {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const header = Buffer.concat([magic, Buffer.from([FORMAT_VERSION, KDF_SCRYPT, kdf.logN, kdf.r, kdf.p]), salt]);
+  const cipher = crypto.createCipheriv(ALGORITHM, keyFor(salt), iv);
+  cipher.setAAD(header);
+  const encrypted = Buffer.concat([cipher.update(Buffer.from(data)), cipher.final()]);
+  return Buffer.concat([header, iv, cipher.getAuthTag(), encrypted]);
+}
+
+/** Decrypt and authenticate a version 1 file; throws if the key is wrong or the file was altered */
+function unseal(file: Extract<ParsedKeyFile, { version: 1 }>, key: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, file.iv);
+  decipher.setAAD(file.header);
+  decipher.setAuthTag(file.authTag);
+  return Buffer.concat([decipher.update(file.ciphertext), decipher.final()]);
+}
+
+function scrypt(secret: string, salt: Buffer, kdf: KdfParams): Buffer {
+  const N = 2 ** kdf.logN;
+  return crypto.scryptSync(secret, salt, KEY_LENGTH, { N, r: kdf.r, p: kdf.p, maxmem: 256 * N * kdf.r });
+}
+
+function validateKdf(kdf: KdfParams): KdfParams {
+  const ok = (v: number, min: number, max: number) => Number.isInteger(v) && v >= min && v <= max;
+  if (!ok(kdf.logN, 10, 22) || !ok(kdf.r, 1, 32) || !ok(kdf.p, 1, 16)) {
+    throw new KeyFileError(`Invalid scrypt parameters: log2 N=${kdf.logN}, r=${kdf.r}, p=${kdf.p}`);
+  }
+  if (128 * 2 ** kdf.logN * kdf.r > KDF_MAX_MEMORY) {
+    throw new KeyFileError(`scrypt parameters need more than 1 GiB: log2 N=${kdf.logN}, r=${kdf.r}`);
+  }
+  return kdf;
+}
+
+function sameKdf(a: KdfParams, b: KdfParams): boolean {
+  return a.logN === b.logN && a.r === b.r && a.p === b.p;
 }
@@ -1,14 +1,56 @@
+import * as path from 'path';
+import type { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
+
 export interface StoredKeyMeta {
   agentId: string;
   publicKey: string;
   createdAt: string;
   label?: string;
+  previousKeys?: RetiredKey[]; // keys this agent used before, oldest first
+  retiredAt?: string;          // set on an archived key that was rotated out
+  successor?: string;          // public key that replaced an archived key
+  replaces?: string;           // set on a key staged by a rotation that has not completed
+  derivationIndex?: number;    // n in m/44'/501'/n'/0' for keys derived from the HD seed
+}
+
+/** An agent key replaced by rotation; the keypair is kept under `archivedAs` for stray deposits */
+export interface RetiredKey {
+  publicKey: string;
+  retiredAt: string;
+  archivedAs: string;
+  sweepSignatures: string[];
+}
+
+export type KeyLineage = Pick<StoredKeyMeta, 'previousKeys' | 'retiredAt' | 'successor' | 'replaces'>;
+
+/** An agent id names files (keys, journals): no path separators and no leading dot */
+export function isAgentId(agentId: unknown): agentId is string {
+  return typeof agentId === 'string' && !!agentId && path.basename(agentId) === agentId && !agentId.startsWith('.');
+}
+
+/**
+ * Signs with a stored agent key, by agentId. The secret key never leaves the
+ * implementation: the process itself (KeyManager) or a signer daemon (RemoteKeyStore).
+ */
+export interface AgentSigner {
+  /** Detached ed25519 signature over arbitrary bytes */
+  signMessage(agentId: string, message: Uint8Array): Promise<Uint8Array>;
+  /** Add the agent's signature to a transaction in place, keeping any others */
+  signTransaction<T extends Transaction | VersionedTransaction>(agentId: string, tx: T): Promise<T>;
 }
 
-export interface KeyStore {
-  storeKey(agentId: string, keypair: import('@solana/web3.js').Keypair, label?: string): StoredKeyMeta;
-  loadKey(agentId: string): import('@solana/web3.js').Keypair;
-  deleteKey(agentId: string): void;
+export interface KeyStore extends AgentSigner {
+  /** Store an existing keypair; stores that keep keys out of process refuse this */
+  storeKey(agentId: string, keypair: Keypair, label?: string, lineage?: KeyLineage): StoredKeyMeta;
+  /** Generate a new keypair inside the store; stores that need a round trip refuse and require createKey */
+  generateKey(agentId: string, label?: string, lineage?: KeyLineage): StoredKeyMeta;
+  /** Generate a new keypair inside the store */
+  createKey(agentId: string, label?: string, lineage?: KeyLineage): Promise<StoredKeyMeta>;
+  /** Move a key to another agentId (which must be free); `lineage` replaces its lineage fields */
+  renameKey(from: string, to: string, lineage?: KeyLineage): Promise<StoredKeyMeta>;
+  /** The raw keypair; only available in process */
+  loadKey(agentId: string): Keypair;
+  deleteKey(agentId: string): void | Promise<void>;
   listKeys(): StoredKeyMeta[];
   hasKey(agentId: string): boolean;
   getPublicKey(agentId: string): string;
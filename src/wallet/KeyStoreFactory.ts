@@ -0,0 +1,17 @@
+import { KeyManager } from './KeyManager';
+import { KeyStore } from './KeyStore';
+import { RemoteKeyStore } from './RemoteKeyStore';
+
+/**
+ * The KeyStore agent processes use: a RemoteKeyStore when SIGNER_SOCKET or
+ * SIGNER_URL points at a signer daemon (`npm run signer`), otherwise the
+ * in-process KeyManager.
+ */
+export async function createKeyStore(): Promise<KeyStore> {
+  if (process.env.SIGNER_SOCKET || process.env.SIGNER_URL) {
+    const remote = new RemoteKeyStore();
+    await remote.connect();
+    return remote;
+  }
+  return new KeyManager();
+}
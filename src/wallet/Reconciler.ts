@@ -0,0 +1,304 @@
+/**
+ * Reconciler.ts
+ * Brings an agent's journaled transaction records in line with the ledger.
+ *
+ *  - Upgrades confirmed records to finalized once the cluster roots them
+ *  - Marks records failed if the cluster reports an error
+ *  - Marks pending records dropped when the signature is unknown long after
+ *    sending (expired blockhash, RPC drop, or a fork that was abandoned); a
+ *    confirmed record is only dropped if getTransaction cannot find it either
+ *  - Walks signature history and imports transactions this process never
+ *    recorded, including deposits initiated by other wallets; an agent memo
+ *    tag (see utils/memo.ts) on the transaction becomes the record's `tag`
+ *  - Attaches the fee / rent / principal breakdown (see Accounting.ts) to
+ *    landed records that do not have one yet
+ *
+ * A checkpoint (newest finalized signature processed) is kept per agent so
+ * each run only walks new history. A walk cut short by maxSignatures saves
+ * its cursor instead, and the next run finishes it before moving on.
+ */
+
+import {
+  LAMPORTS_PER_SOL,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  SignatureStatus,
+} from '@solana/web3.js';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentWallet, TransactionRecord } from './AgentWallet';
+import { accountTransaction } from './Accounting';
+import { readMemoTag } from '../utils/memo';
+import { logger } from '../utils/logger';
+
+export interface ReconcileReport {
+  agentId: string;
+  checked: number;
+  finalized: number;
+  failed: number;
+  dropped: number;
+  scanned: number;
+  imported: number;
+  accounted: number;
+}
+
+export interface ReconcilerOptions {
+  maxSignatures?: number; // history depth per run
+  dropAfterMs?: number;   // unknown signatures older than this are considered dropped
+}
+
+interface Checkpoint {
+  lastSignature?: string; // newest finalized signature; everything older has been walked
+  resume?: { before: string; newest?: string }; // a walk cut short: continue below `before`, then move to `newest`
+}
+
+const STATUS_BATCH = 256;
+const HISTORY_PAGE = 100;
+
+export class TransactionReconciler {
+  private wallet: AgentWallet;
+  private maxSignatures: number;
+  private dropAfterMs: number;
+  private checkpointPath: string;
+
+  constructor(wallet: AgentWallet, options: ReconcilerOptions = {}) {
+    this.wallet = wallet;
+    this.maxSignatures = options.maxSignatures ?? 500;
+    // ~150 blocks of blockhash validity plus slack
+    this.dropAfterMs = options.dropAfterMs ?? 120_000;
+    this.checkpointPath = path.resolve(process.cwd(), '.agent-keys', `${wallet.agentId}.reconcile.json`);
+  }
+
+  async run(): Promise<ReconcileReport> {
+    const report: ReconcileReport = {
+      agentId: this.wallet.agentId,
+      checked: 0,
+      finalized: 0,
+      failed: 0,
+      dropped: 0,
+      scanned: 0,
+      imported: 0,
+      accounted: 0,
+    };
+    await this.refreshStatuses(report);
+    await this.importHistory(report);
+    await this.fillAccounting(report);
+    logger.info(
+      `[Reconciler] ${report.agentId}: ${report.finalized} finalized, ${report.failed} failed, ` +
+        `${report.dropped} dropped, ${report.imported} imported, ${report.accounted} accounted ` +
+        `(${report.scanned} signatures scanned)`
+    );
+    return report;
+  }
+
+  // ─── Local records → ledger ───────────────────────────────────────────────
+
+  private async refreshStatuses(report: ReconcileReport): Promise<void> {
+    const open = this.wallet
+      .getTransactionHistory()
+      .filter((r) => r.signature && (r.status === 'pending' || r.status === 'confirmed'));
+
+    for (let i = 0; i < open.length; i += STATUS_BATCH) {
+      const batch = open.slice(i, i + STATUS_BATCH);
+      const { value } = await this.wallet.connection.getSignatureStatuses(
+        batch.map((r) => r.signature),
+        { searchTransactionHistory: true }
+      );
+      for (const [j, record] of batch.entries()) {
+        report.checked++;
+        const next = await this.nextStatus(record, value[j]);
+        if (next) {
+          report[next.status as 'finalized' | 'failed' | 'dropped']++;
+          this.wallet.recordTransaction(next);
+        }
+      }
+    }
+  }
+
+  private async nextStatus(record: TransactionRecord, status: SignatureStatus | null): Promise<TransactionRecord | null> {
+    if (!status) {
+      const age = Date.now() - new Date(record.timestamp).getTime();
+      if (age < this.dropAfterMs) return null;
+      if (record.status === 'confirmed') {
+        // A landed transaction can age out of the RPC's status cache; only the ledger can tell
+        const tx = await this.wallet.connection.getTransaction(record.signature, {
+          commitment: 'finalized',
+          maxSupportedTransactionVersion: 0,
+        });
+        if (tx?.meta?.err) return { ...record, status: 'failed', slot: tx.slot, error: JSON.stringify(tx.meta.err) };
+        if (tx) return { ...record, status: 'finalized', slot: tx.slot };
+      }
+      return { ...record, status: 'dropped', error: 'Signature not found on chain' };
+    }
+    if (status.err) {
+      return { ...record, status: 'failed', slot: status.slot, error: JSON.stringify(status.err) };
+    }
+    if (status.confirmationStatus === 'finalized') {
+      return { ...record, status: 'finalized', slot: status.slot };
+    }
+    return null;
+  }
+
+  // ─── Ledger → local records ───────────────────────────────────────────────
+
+  private async importHistory(report: ReconcileReport): Promise<void> {
+    const known = new Set(this.wallet.getTransactionHistory().map((r) => r.signature).filter(Boolean));
+    const checkpoint = this.loadCheckpoint();
+    const until = checkpoint.lastSignature;
+    // An earlier walk that hit maxSignatures continues where it stopped
+    let before = checkpoint.resume?.before;
+    let newestFinalized = checkpoint.resume?.newest;
+    let complete = false;
+
+    while (report.scanned < this.maxSignatures) {
+      const limit = Math.min(HISTORY_PAGE, this.maxSignatures - report.scanned);
+      const page = await this.wallet.getOnChainHistory(limit, before, until);
+      if (page.length === 0) {
+        complete = true;
+        break;
+      }
+
+      for (const info of page) {
+        report.scanned++;
+        if (!newestFinalized && info.confirmationStatus === 'finalized') newestFinalized = info.signature;
+        if (known.has(info.signature)) continue;
+
+        const tx = await this.wallet.connection.getParsedTransaction(info.signature, {
+          maxSupportedTransactionVersion: 0,
+        });
+        if (!tx) continue;
+        const records = this.toRecords(tx, info.signature, info.confirmationStatus === 'finalized');
+        if (records.length > 0) {
+          records[0].accounting = await accountTransaction(this.wallet.connection, tx, this.wallet.publicKey);
+        }
+        for (const record of records) {
+          this.wallet.recordTransaction(record);
+          report.imported++;
+        }
+        known.add(info.signature);
+      }
+      before = page[page.length - 1].signature;
+      if (page.length < limit) {
+        complete = true;
+        break;
+      }
+    }
+
+    // The checkpoint only moves once everything down to it has been walked
+    if (complete) {
+      const lastSignature = newestFinalized || until;
+      if (lastSignature !== until || checkpoint.resume) this.saveCheckpoint({ lastSignature });
+    } else if (before) {
+      this.saveCheckpoint({ lastSignature: until, resume: { before, newest: newestFinalized } });
+    }
+  }
+
+  // ─── Fee / rent breakdown ─────────────────────────────────────────────────
+
+  /** Break down landed transactions recorded before their accounting was captured */
+  private async fillAccounting(report: ReconcileReport): Promise<void> {
+    const history = this.wallet.getTransactionHistory();
+    const done = new Set(history.filter((r) => r.accounting).map((r) => r.signature));
+    let fetched = 0;
+    for (const record of history) {
+      if (fetched >= this.maxSignatures) break;
+      if (!record.signature || done.has(record.signature)) continue;
+      if (record.status !== 'confirmed' && record.status !== 'finalized') continue;
+      done.add(record.signature); // the first record of a transaction carries the breakdown
+      fetched++;
+      try {
+        if (await this.wallet.captureAccounting(record)) report.accounted++;
+      } catch (err) {
+        logger.warn(`[Reconciler] Accounting failed for ${record.signature}: ${err}`);
+      }
+    }
+  }
+
+  /** Translate a parsed transaction into the records this wallet would have written */
+  private toRecords(tx: ParsedTransactionWithMeta, signature: string, finalized: boolean): TransactionRecord[] {
+    const me = this.wallet.publicKey;
+    const meta = tx.meta;
+    if (!meta || meta.err) return [];
+
+    const base = {
+      signature,
+      timestamp: tx.blockTime ? new Date(tx.blockTime * 1000) : new Date(),
+      status: (finalized ? 'finalized' : 'confirmed') as TransactionRecord['status'],
+      slot: tx.slot,
+      origin: 'external' as const,
+      tag: readMemoTag(tx, this.wallet.memoFormat) || undefined,
+    };
+    const keys = tx.transaction.message.accountKeys.map((k) => k.pubkey.toBase58());
+
+    // Transactions we paid for but never journaled (e.g. sent by another process)
+    if (keys[0] === me) {
+      const spent = (meta.preBalances[0] - meta.postBalances[0] - meta.fee) / LAMPORTS_PER_SOL;
+      return [{ ...base, id: randomUUID(), type: 'CUSTOM', amount: Math.max(0, spent), from: me }];
+    }
+
+    const records: TransactionRecord[] = [];
+    const instructions = [
+      ...tx.transaction.message.instructions,
+      ...(meta.innerInstructions || []).flatMap((ii) => ii.instructions),
+    ];
+    for (const ix of instructions) {
+      if (!isParsed(ix) || ix.program !== 'system' || ix.parsed?.type !== 'transfer') continue;
+      const info = ix.parsed.info as { source: string; destination: string; lamports: number };
+      if (info.destination !== me) continue;
+      records.push({
+        ...base,
+        id: randomUUID(),
+        type: 'DEPOSIT',
+        amount: info.lamports / LAMPORTS_PER_SOL,
+        from: info.source,
+        to: me,
+      });
+    }
+
+    for (const post of meta.postTokenBalances || []) {
+      if (post.owner !== me) continue;
+      const pre = (meta.preTokenBalances || []).find((b) => b.accountIndex === post.accountIndex);
+      const delta = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount ?? '0');
+      if (delta <= 0n) continue;
+      const sender = (meta.preTokenBalances || []).find(
+        (b) => b.mint === post.mint && b.owner !== me && BigInt(b.uiTokenAmount.amount) > 0n
+      );
+      records.push({
+        ...base,
+        id: randomUUID(),
+        type: 'DEPOSIT',
+        amount: Number(delta) / Math.pow(10, post.uiTokenAmount.decimals),
+        token: post.mint,
+        from: sender?.owner || keys[0],
+        to: me,
+      });
+    }
+    return records;
+  }
+
+  private loadCheckpoint(): Checkpoint {
+    try {
+      if (!fs.existsSync(this.checkpointPath)) return {};
+      const { lastSignature, resume } = JSON.parse(fs.readFileSync(this.checkpointPath, 'utf-8'));
+      return { lastSignature, resume };
+    } catch {
+      return {};
+    }
+  }
+
+  private saveCheckpoint(checkpoint: Checkpoint): void {
+    try {
+      fs.writeFileSync(
+        this.checkpointPath,
+        JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() }, null, 2),
+        { mode: 0o600 }
+      );
+    } catch {}
+  }
+}
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
@@ -0,0 +1,191 @@
+/**
+ * RemoteKeyStore.ts
+ * KeyStore backed by a SignerDaemon in another process, so agent processes
+ * never hold secret keys. Signing requests carry the agentId and the bytes to
+ * sign; the daemon answers with a detached signature, which is checked against
+ * the agent's public key before use.
+ *
+ * Protocol (JSON over HTTP, on a Unix socket or TCP, bearer token optional):
+ *   GET    /keys                         → StoredKeyMeta[]
+ *   POST   /keys                         { agentId, label?, lineage? } → StoredKeyMeta
+ *   POST   /keys/:id/rename              { to, lineage? } → StoredKeyMeta
+ *   DELETE /keys/:id                     → { deleted }
+ *   POST   /keys/:id/sign-message        { message: base64 } → { signature: base64 }
+ *   POST   /keys/:id/sign-transaction    { message: base64 } → { signature: base64 }
+ * Errors are `{ error }` with a 4xx/5xx status.
+ *
+ * Key metadata is cached: connect() loads it, and key changes made through this
+ * store update it. Call connect() again to see keys created elsewhere.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { KeyLineage, KeyStore, StoredKeyMeta } from './KeyStore';
+import { logger } from '../utils/logger';
+
+export interface RemoteSignerOptions {
+  url?: string;        // http(s)://host:port of the daemon
+  socketPath?: string; // Unix socket of the daemon; takes precedence over url
+  token?: string;      // bearer token, if the daemon requires one
+  timeoutMs?: number;
+}
+
+export class RemoteSignerError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+export class RemoteKeyStore implements KeyStore {
+  private options: RemoteSignerOptions;
+  private metas = new Map<string, StoredKeyMeta>();
+
+  constructor(options: RemoteSignerOptions = {}) {
+    this.options = {
+      url: options.url ?? process.env.SIGNER_URL,
+      socketPath: options.socketPath ?? process.env.SIGNER_SOCKET,
+      token: options.token ?? process.env.SIGNER_TOKEN,
+      timeoutMs: options.timeoutMs ?? 10_000,
+    };
+    if (!this.options.url && !this.options.socketPath) {
+      throw new RemoteSignerError('Set SIGNER_SOCKET or SIGNER_URL to reach the signer daemon');
+    }
+  }
+
+  /** Load key metadata from the daemon; returns the number of keys */
+  async connect(): Promise<number> {
+    const metas = await this.request<StoredKeyMeta[]>('GET', '/keys');
+    this.metas = new Map(metas.map((m) => [m.agentId, m]));
+    logger.info(`[RemoteKeyStore] Connected to signer with ${metas.length} key(s)`);
+    return metas.length;
+  }
+
+  storeKey(agentId: string): StoredKeyMeta {
+    throw new RemoteSignerError(`Cannot import a keypair for ${agentId} into a remote signer; use createKey`);
+  }
+
+  generateKey(agentId: string): StoredKeyMeta {
+    throw new RemoteSignerError(`Create the key for ${agentId} with createKey (WalletRegistry.create)`);
+  }
+
+  loadKey(agentId: string): Keypair {
+    throw new RemoteSignerError(`The key for ${agentId} is held by the signer daemon and cannot be loaded`);
+  }
+
+  async createKey(agentId: string, label?: string, lineage?: KeyLineage): Promise<StoredKeyMeta> {
+    const meta = await this.request<StoredKeyMeta>('POST', '/keys', { agentId, label, lineage });
+    this.metas.set(meta.agentId, meta);
+    return meta;
+  }
+
+  async renameKey(from: string, to: string, lineage?: KeyLineage): Promise<StoredKeyMeta> {
+    const meta = await this.request<StoredKeyMeta>('POST', `/keys/${encodeURIComponent(from)}/rename`, { to, lineage });
+    this.metas.delete(from);
+    this.metas.set(meta.agentId, meta);
+    return meta;
+  }
+
+  async deleteKey(agentId: string): Promise<void> {
+    await this.request('DELETE', `/keys/${encodeURIComponent(agentId)}`);
+    this.metas.delete(agentId);
+  }
+
+  listKeys(): StoredKeyMeta[] {
+    return Array.from(this.metas.values());
+  }
+
+  hasKey(agentId: string): boolean {
+    return this.metas.has(agentId);
+  }
+
+  getPublicKey(agentId: string): string {
+    return this.getMeta(agentId).publicKey;
+  }
+
+  getMeta(agentId: string): StoredKeyMeta {
+    const meta = this.metas.get(agentId);
+    if (!meta) throw new Error(`No metadata for agent: ${agentId}`);
+    return meta;
+  }
+
+  // ─── Signing ──────────────────────────────────────────────────────────────
+
+  async signMessage(agentId: string, message: Uint8Array): Promise<Uint8Array> {
+    return this.sign(agentId, 'sign-message', message);
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(agentId: string, tx: T): Promise<T> {
+    const publicKey = new PublicKey(this.getPublicKey(agentId));
+    if (tx instanceof VersionedTransaction) {
+      tx.addSignature(publicKey, await this.sign(agentId, 'sign-transaction', tx.message.serialize()));
+    } else {
+      // serializeMessage also lays out the signature slots addSignature fills
+      const message = (tx as Transaction).serializeMessage();
+      (tx as Transaction).addSignature(publicKey, Buffer.from(await this.sign(agentId, 'sign-transaction', message)));
+    }
+    return tx;
+  }
+
+  private async sign(agentId: string, route: string, message: Uint8Array): Promise<Uint8Array> {
+    const publicKey = new PublicKey(this.getPublicKey(agentId));
+    const { signature } = await this.request<{ signature: string }>(
+      'POST',
+      `/keys/${encodeURIComponent(agentId)}/${route}`,
+      { message: Buffer.from(message).toString('base64') }
+    );
+    const bytes = new Uint8Array(Buffer.from(signature, 'base64'));
+    if (!nacl.sign.detached.verify(message, bytes, publicKey.toBytes())) {
+      throw new RemoteSignerError(`Signer returned an invalid signature for ${agentId}`);
+    }
+    return bytes;
+  }
+
+  // ─── Transport ────────────────────────────────────────────────────────────
+
+  private request<T = unknown>(method: string, route: string, body?: unknown): Promise<T> {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const headers: http.OutgoingHttpHeaders = { Accept: 'application/json' };
+    if (payload) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = Buffer.byteLength(payload);
+    }
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+
+    let transport: typeof http | typeof https = http;
+    let target: http.RequestOptions = { method, path: route, headers, timeout: this.options.timeoutMs };
+    if (this.options.socketPath) {
+      target.socketPath = this.options.socketPath;
+    } else {
+      const url = new URL(route, this.options.url);
+      if (url.protocol === 'https:') transport = https;
+      target = { ...target, hostname: url.hostname, port: url.port, path: url.pathname };
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const req = transport.request(target, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          let parsed: any;
+          try {
+            parsed = JSON.parse(Buffer.concat(chunks).toString('utf-8') || 'null');
+          } catch {
+            return reject(new RemoteSignerError(`Signer sent an invalid response (${res.statusCode})`, res.statusCode));
+          }
+          if ((res.statusCode || 500) >= 400) {
+            return reject(new RemoteSignerError(parsed?.error || `Signer answered ${res.statusCode}`, res.statusCode));
+          }
+          resolve(parsed as T);
+        });
+      });
+      req.on('timeout', () => req.destroy(new RemoteSignerError(`Signer did not answer within ${this.options.timeoutMs}ms`)));
+      req.on('error', (err) =>
+        reject(err instanceof RemoteSignerError ? err : new RemoteSignerError(`Signer unreachable: ${err.message}`))
+      );
+      req.end(payload);
+    });
+  }
+}
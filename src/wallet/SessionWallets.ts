@@ -0,0 +1,83 @@
+/**
+ * SessionWallets.ts
+ * Bookkeeping for ephemeral session sub-wallets.
+ *
+ * A session is a short-lived child wallet funded with a fixed budget from its
+ * parent agent. The agent runs an experimental strategy through the child only,
+ * so a bad strategy can lose at most the budget. When the session expires (or
+ * is closed early) the registry sweeps whatever is left back to the parent and
+ * deletes the child's key.
+ *
+ * Sessions are persisted so an expiry that falls during a restart still sweeps:
+ *   .agent-keys/sessions.json   (or SESSIONS_PATH)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SessionStatus = 'active' | 'closed' | 'sweep_failed';
+
+export interface WalletSession {
+  id: string;
+  parentId: string;
+  agentId: string;   // the child's agentId in the KeyStore while the session lives
+  publicKey: string;
+  budgetSOL: number;
+  createdAt: string;
+  expiresAt: string;
+  status: SessionStatus;
+  fundingSignature: string;
+  closedAt?: string;
+  sweptSOL?: number;
+  sweepSignatures?: string[];
+  error?: string; // last sweep failure; the child key is kept until a sweep completes
+}
+
+export class SessionStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath =
+      filePath || process.env.SESSIONS_PATH || path.resolve(process.cwd(), '.agent-keys', 'sessions.json');
+  }
+
+  list(filter: { parentId?: string; status?: SessionStatus } = {}): WalletSession[] {
+    return this.read().filter(
+      (s) => (!filter.parentId || s.parentId === filter.parentId) && (!filter.status || s.status === filter.status)
+    );
+  }
+
+  get(id: string): WalletSession {
+    const session = this.read().find((s) => s.id === id);
+    if (!session) throw new Error(`No session: ${id}`);
+    return session;
+  }
+
+  save(session: WalletSession): void {
+    this.write([...this.read().filter((s) => s.id !== session.id), session]);
+  }
+
+  /** Sessions that still hold a key and are past expiry (or failed to sweep earlier) */
+  due(now: Date = new Date()): WalletSession[] {
+    return this.read().filter(
+      (s) => s.status === 'sweep_failed' || (s.status === 'active' && new Date(s.expiresAt) <= now)
+    );
+  }
+
+  private read(): WalletSession[] {
+    try {
+      if (!fs.existsSync(this.filePath)) return [];
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as WalletSession[];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(sessions: WalletSession[]): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * SignerDaemon.ts
+ * Serves a local KeyStore (normally the encrypted KeyManager) to RemoteKeyStore
+ * clients, so the decrypted keys live only in this process. Speaks the protocol
+ * described in RemoteKeyStore.ts over a Unix socket (mode 0600) or TCP.
+ *
+ *  - TCP requires a bearer token; on a socket the file permissions guard access
+ *    and a token is optional
+ *  - sign-transaction only signs a transaction message that lists the agent
+ *    as a signer, through KeyStore.signTransaction; sign-message refuses one
+ *    (assertOffchainMessage, the check every KeyStore applies)
+ *  - Every signature is logged with the agent and what was signed
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { timingSafeEqual } from 'crypto';
+import { PublicKey, VersionedMessage, VersionedTransaction } from '@solana/web3.js';
+import { KeyLineage, KeyStore } from './KeyStore';
+import { logger } from '../utils/logger';
+import { UnsafeMessageError, assertOffchainMessage, transactionSigners } from '../utils/siws';
+
+export type SignerListenTarget = { socketPath: string } | { port: number; host?: string };
+
+const MAX_BODY = 64 * 1024;
+
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export class SignerDaemon {
+  private store: KeyStore;
+  private token?: string;
+  private server: http.Server | null = null;
+
+  constructor(store: KeyStore, token: string | undefined = process.env.SIGNER_TOKEN) {
+    this.store = store;
+    this.token = token || undefined;
+  }
+
+  /** Start serving; resolves once listening */
+  async listen(target: SignerListenTarget): Promise<void> {
+    if (this.server) throw new Error('Signer daemon is already listening');
+    if ('port' in target && !this.token) throw new Error('Set SIGNER_TOKEN to serve the signer over TCP');
+
+    const server = http.createServer((req, res) => {
+      this.handle(req)
+        .then((body) => respond(res, 200, body))
+        .catch((err) => {
+          const status = err instanceof RequestError ? err.status : 500;
+          if (status === 500) logger.error(`[Signer] ${req.method} ${req.url}: ${err}`);
+          respond(res, status, { error: err instanceof Error ? err.message : String(err) });
+        });
+    });
+
+    if ('socketPath' in target) {
+      fs.mkdirSync(path.dirname(target.socketPath), { recursive: true, mode: 0o700 });
+      if (fs.existsSync(target.socketPath)) fs.unlinkSync(target.socketPath); // stale socket from a previous run
+    }
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      if ('socketPath' in target) server.listen(target.socketPath, resolve);
+      else server.listen(target.port, target.host || '127.0.0.1', resolve);
+    });
+    if ('socketPath' in target) fs.chmodSync(target.socketPath, 0o600);
+    this.server = server;
+    logger.info(`[Signer] Listening on ${'socketPath' in target ? target.socketPath : `${target.host || '127.0.0.1'}:${target.port}`}`);
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage): Promise<unknown> {
+    this.authorize(req);
+    const route = new URL(req.url || '/', 'http://signer').pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const [root, agentId, action] = route;
+    if (root !== 'keys' || route.length > 3) throw new RequestError(404, 'Not found');
+
+    if (!agentId) {
+      if (req.method === 'GET') return this.store.listKeys();
+      if (req.method === 'POST') {
+        const body = await readBody(req);
+        if (typeof body.agentId !== 'string' || !body.agentId) throw new RequestError(400, 'agentId is required');
+        if (this.store.hasKey(body.agentId)) throw new RequestError(409, `A key for ${body.agentId} already exists`);
+        const meta = await this.store.createKey(body.agentId, body.label, body.lineage as KeyLineage | undefined);
+        logger.info(`[Signer] Created key for ${meta.agentId}: ${meta.publicKey}`);
+        return meta;
+      }
+      throw new RequestError(405, 'Method not allowed');
+    }
+
+    // Only agent keys (those with metadata) are served; this excludes an HD seed
+    if (!this.store.listKeys().some((m) => m.agentId === agentId)) throw new RequestError(404, `No key for agent: ${agentId}`);
+    if (!action) {
+      if (req.method !== 'DELETE') throw new RequestError(405, 'Method not allowed');
+      await this.store.deleteKey(agentId);
+      logger.info(`[Signer] Deleted key for ${agentId}`);
+      return { deleted: agentId };
+    }
+    if (req.method !== 'POST') throw new RequestError(405, 'Method not allowed');
+    const body = await readBody(req);
+
+    if (action === 'rename') {
+      if (typeof body.to !== 'string' || !body.to) throw new RequestError(400, 'to is required');
+      if (this.store.hasKey(body.to)) throw new RequestError(409, `A key for ${body.to} already exists`);
+      const meta = await this.store.renameKey(agentId, body.to, body.lineage as KeyLineage | undefined);
+      logger.info(`[Signer] Renamed key ${agentId} → ${body.to}`);
+      return meta;
+    }
+
+    if (typeof body.message !== 'string') throw new RequestError(400, 'message (base64) is required');
+    const message = new Uint8Array(Buffer.from(body.message, 'base64'));
+    const signer = new PublicKey(this.store.getPublicKey(agentId));
+    if (action === 'sign-transaction') {
+      const signs = transactionSigners(message);
+      if (!signs) throw new RequestError(400, 'Not a transaction message');
+      const index = signs.findIndex((k) => k.equals(signer));
+      if (index < 0) throw new RequestError(403, `${agentId} is not a signer of this transaction`);
+      const tx = await this.store.signTransaction(agentId, new VersionedTransaction(VersionedMessage.deserialize(message)));
+      logger.info(`[Signer] ${agentId} signed a transaction (${message.length} bytes, ${signs.length} signer(s))`);
+      return { signature: Buffer.from(tx.signatures[index]).toString('base64') };
+    }
+    if (action !== 'sign-message') throw new RequestError(404, 'Not found');
+    try {
+      assertOffchainMessage(message, signer);
+      const signature = await this.store.signMessage(agentId, message);
+      logger.info(`[Signer] ${agentId} signed a ${message.length}-byte message`);
+      return { signature: Buffer.from(signature).toString('base64') };
+    } catch (err) {
+      throw err instanceof UnsafeMessageError ? new RequestError(403, err.message) : err;
+    }
+  }
+
+  private authorize(req: http.IncomingMessage): void {
+    if (!this.token) return;
+    const given = Buffer.from((req.headers.authorization || '').replace(/^Bearer /, ''));
+    const expected = Buffer.from(this.token);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new RequestError(401, 'Unauthorized');
+    }
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new RequestError(413, 'Request too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+        if (!body || typeof body !== 'object') throw new Error();
+        resolve(body);
+      } catch {
+        reject(new RequestError(400, 'Body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function respond(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
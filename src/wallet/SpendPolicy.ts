@@ -0,0 +1,360 @@
+/**
+ * SpendPolicy.ts
+ * Per-agent spending policy engine.
+ *
+ * Every write path in AgentWallet describes what it is about to do as a
+ * SpendIntent and asks the engine to evaluate it before anything is signed.
+ *
+ * Supported rules:
+ *  - Destination allowlist / denylist (entries may reference the address book:
+ *    "@label" or "@type:pool")
+ *  - Per-transaction and daily SOL caps
+ *  - Per-mint caps for SPL transfers
+ *  - Rolling-window amount limits and transaction-count rate limits
+ *  - Time-of-day trading windows
+ *  - Priority fee cap
+ *  - Human approval above a threshold or for unknown destinations
+ *    (checked separately by approvalReason; see ApprovalQueue)
+ *  - Supervisor co-signing (cosign; enforced by AgentWallet.proposeCoSigned)
+ *
+ * Policies are loaded per agentId from a JSON file (SPEND_POLICY_PATH), so
+ * each agent can run with its own budget instead of process-wide env vars.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AddressBook } from './AddressBook';
+
+export interface RollingLimit {
+  windowMs: number;
+  max: number;
+}
+
+export interface RateLimit {
+  windowMs: number;
+  maxTx: number;
+}
+
+export interface MintCap {
+  maxPerTx?: number;
+  maxDaily?: number;
+  rollingLimits?: RollingLimit[];
+}
+
+export interface ActiveWindow {
+  startHour: number; // inclusive, 0-23
+  endHour: number;   // exclusive, 1-24; may be < startHour to wrap midnight
+  days?: number[];   // 0 = Sunday … 6 = Saturday; omitted means every day
+  utc?: boolean;
+}
+
+export interface ApprovalRule {
+  thresholdSOL?: number;                   // SOL / custom outflows above this need approval
+  mintThresholds?: Record<string, number>; // per-mint thresholds in UI units
+  unknownDestinations?: boolean;           // destinations outside allowlist + knownDestinations need approval
+  knownDestinations?: string[];
+  ttlMs?: number;                          // pending requests expire after this; default 24h
+}
+
+export interface CoSignRule {
+  supervisors: string[]; // KeyStore agentIds or base58 public keys (the n)
+  threshold: number;     // supervisor signatures each co-signed transaction needs (the m)
+}
+
+export interface SpendPolicy {
+  maxPerTxSOL?: number;
+  maxDailySOL?: number;
+  allowlist?: string[];
+  denylist?: string[];
+  rollingLimits?: RollingLimit[]; // SOL outflow limits
+  rateLimits?: RateLimit[];       // all write transactions
+  mintCaps?: Record<string, MintCap>;
+  activeHours?: ActiveWindow[];
+  maxPriorityFeeLamports?: number; // our builders clamp to this; caller-built txs above it are rejected
+  approval?: ApprovalRule;
+  cosign?: CoSignRule; // supervisors for AgentWallet.proposeCoSigned
+}
+
+export type SpendKind = 'SOL' | 'SPL' | 'CUSTOM';
+
+/** What a write path is about to do. SOL amounts in SOL, SPL amounts in UI units. */
+export interface SpendIntent {
+  kind: SpendKind;
+  amount: number;
+  mint?: string;
+  destinations: string[];
+  priorityFeeLamports?: number;
+  tokens?: TokenSpend[]; // CUSTOM: tokens moved alongside the SOL, charged to each mint's caps
+}
+
+export interface TokenSpend {
+  mint: string;
+  amount: number;
+}
+
+export type PolicyRule =
+  | 'DENYLIST'
+  | 'ALLOWLIST'
+  | 'MAX_PER_TX'
+  | 'DAILY_CAP'
+  | 'ROLLING_LIMIT'
+  | 'RATE_LIMIT'
+  | 'MINT_CAP'
+  | 'TIME_WINDOW'
+  | 'FEE_CAP';
+
+export class PolicyViolation extends Error {
+  readonly agentId: string;
+  readonly rule: PolicyRule;
+  readonly intent: SpendIntent;
+
+  constructor(agentId: string, rule: PolicyRule, message: string, intent: SpendIntent) {
+    super(message);
+    this.name = 'PolicyViolation';
+    this.agentId = agentId;
+    this.rule = rule;
+    this.intent = intent;
+  }
+}
+
+interface LedgerEntry {
+  ts: number;
+  kind: SpendKind;
+  amount: number;
+  mint?: string;
+  tokens?: TokenSpend[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PolicyEngine {
+  readonly agentId: string;
+  private policy: SpendPolicy;
+  private ledgerPath: string;
+  private ledger: LedgerEntry[] = [];
+  private book?: AddressBook;
+
+  constructor(agentId: string, policy: SpendPolicy, ledgerPath: string, book?: AddressBook) {
+    this.agentId = agentId;
+    this.policy = policy;
+    this.ledgerPath = ledgerPath;
+    this.book = book;
+    this.loadLedger();
+  }
+
+  getPolicy(): SpendPolicy {
+    return this.policy;
+  }
+
+  setPolicy(policy: SpendPolicy): void {
+    this.policy = policy;
+  }
+
+  /** Throws PolicyViolation if the intent breaks any rule */
+  evaluate(intent: SpendIntent, now: Date = new Date()): void {
+    const p = this.policy;
+    const fail = (rule: PolicyRule, msg: string) => {
+      throw new PolicyViolation(this.agentId, rule, msg, intent);
+    };
+
+    const denylist = this.addresses(p.denylist);
+    const allowlist = this.addresses(p.allowlist);
+    for (const dest of intent.destinations) {
+      if (denylist.includes(dest)) fail('DENYLIST', `Destination ${dest} is denylisted`);
+      // A configured allowlist whose references resolve to nothing blocks everything
+      if (p.allowlist && p.allowlist.length > 0 && !allowlist.includes(dest)) {
+        fail('ALLOWLIST', `Destination ${dest} is not on the allowlist`);
+      }
+    }
+
+    if (p.activeHours && p.activeHours.length > 0 && !p.activeHours.some((w) => inWindow(w, now))) {
+      fail('TIME_WINDOW', `Outside permitted trading hours`);
+    }
+
+    if (
+      p.maxPriorityFeeLamports !== undefined &&
+      intent.priorityFeeLamports !== undefined &&
+      intent.priorityFeeLamports > p.maxPriorityFeeLamports
+    ) {
+      fail('FEE_CAP', `Priority fee ${intent.priorityFeeLamports} lamports > cap of ${p.maxPriorityFeeLamports}`);
+    }
+
+    const ts = now.getTime();
+    for (const limit of p.rateLimits || []) {
+      const count = this.ledger.filter((e) => e.ts > ts - limit.windowMs).length;
+      if (count + 1 > limit.maxTx) {
+        fail('RATE_LIMIT', `Rate limit exceeded: ${limit.maxTx} tx per ${limit.windowMs}ms`);
+      }
+    }
+
+    if (intent.kind === 'SPL') {
+      if (intent.mint) this.checkMintCap(intent.mint, intent.amount, now, fail);
+      return;
+    }
+    for (const [mint, amount] of tokenTotals(intent.tokens)) this.checkMintCap(mint, amount, now, fail);
+
+    if (p.maxPerTxSOL !== undefined && p.maxPerTxSOL > 0 && intent.amount > p.maxPerTxSOL) {
+      fail('MAX_PER_TX', `Spend limit exceeded: ${intent.amount} SOL > ${p.maxPerTxSOL} SOL`);
+    }
+    if (p.maxDailySOL !== undefined && p.maxDailySOL > 0) {
+      const spent = this.spentSince(startOfDay(now));
+      if (spent + intent.amount > p.maxDailySOL) {
+        fail('DAILY_CAP', `Daily spend cap exceeded: ${(spent + intent.amount).toFixed(4)} SOL > ${p.maxDailySOL} SOL`);
+      }
+    }
+    for (const limit of p.rollingLimits || []) {
+      const spent = this.spentSince(ts - limit.windowMs);
+      if (spent + intent.amount > limit.max) {
+        fail('ROLLING_LIMIT', `Rolling limit exceeded: ${(spent + intent.amount).toFixed(4)} SOL > ${limit.max} SOL per ${limit.windowMs}ms`);
+      }
+    }
+  }
+
+  private checkMintCap(mint: string, amount: number, now: Date, fail: (rule: PolicyRule, msg: string) => never): void {
+    const cap = this.policy.mintCaps?.[mint];
+    if (!cap) return;
+    if (cap.maxPerTx !== undefined && amount > cap.maxPerTx) {
+      fail('MINT_CAP', `Mint cap exceeded: ${amount} > ${cap.maxPerTx} per tx (${mint})`);
+    }
+    if (cap.maxDaily !== undefined) {
+      const spent = this.spentSince(startOfDay(now), mint);
+      if (spent + amount > cap.maxDaily) {
+        fail('MINT_CAP', `Daily mint cap exceeded: ${spent + amount} > ${cap.maxDaily} (${mint})`);
+      }
+    }
+    for (const limit of cap.rollingLimits || []) {
+      const spent = this.spentSince(now.getTime() - limit.windowMs, mint);
+      if (spent + amount > limit.max) {
+        fail('MINT_CAP', `Rolling mint limit exceeded: ${spent + amount} > ${limit.max} per ${limit.windowMs}ms (${mint})`);
+      }
+    }
+  }
+
+  /** Why this intent needs a human to approve it, or null if the agent may sign it alone */
+  approvalReason(intent: SpendIntent): string | null {
+    const rule = this.policy.approval;
+    if (!rule) return null;
+    const tokens = tokenTotals(intent.kind === 'SPL' ? [{ mint: intent.mint || '', amount: intent.amount }] : intent.tokens);
+    for (const [mint, amount] of tokens) {
+      const threshold = rule.mintThresholds?.[mint];
+      if (threshold !== undefined && amount > threshold) {
+        return `${amount} tokens of ${mint} exceeds approval threshold of ${threshold}`;
+      }
+    }
+    if (intent.kind !== 'SPL' && rule.thresholdSOL !== undefined && intent.amount > rule.thresholdSOL) {
+      return `${intent.amount} SOL exceeds approval threshold of ${rule.thresholdSOL} SOL`;
+    }
+    if (rule.unknownDestinations) {
+      const known = new Set([...this.addresses(this.policy.allowlist), ...this.addresses(rule.knownDestinations)]);
+      const unknown = intent.destinations.find((d) => !known.has(d));
+      if (unknown) return `Destination ${unknown} is not a known destination`;
+    }
+    return null;
+  }
+
+  /** Record a successful spend so later evaluations see it */
+  record(intent: SpendIntent, now: Date = new Date()): void {
+    this.ledger.push({ ts: now.getTime(), kind: intent.kind, amount: intent.amount, mint: intent.mint, tokens: intent.tokens });
+    this.prune(now.getTime());
+    this.saveLedger();
+  }
+
+  /** SOL spent since `ts` (SOL + CUSTOM), or token units of `mint` when given (SPL + tokens in CUSTOM) */
+  spentSince(ts: number, mint?: string): number {
+    return this.ledger
+      .filter((e) => e.ts >= ts)
+      .reduce((sum, e) => {
+        if (!mint) return e.kind === 'SPL' ? sum : sum + e.amount;
+        const own = e.kind === 'SPL' && e.mint === mint ? e.amount : 0;
+        return sum + own + (tokenTotals(e.tokens).get(mint) || 0);
+      }, 0);
+  }
+
+  /** A policy address list with address book references expanded */
+  private addresses(list: string[] = []): string[] {
+    return this.book ? this.book.expand(list, this.agentId) : list;
+  }
+
+  private prune(now: number): void {
+    const windows = [
+      ...(this.policy.rollingLimits || []).map((l) => l.windowMs),
+      ...(this.policy.rateLimits || []).map((l) => l.windowMs),
+      ...Object.values(this.policy.mintCaps || {}).flatMap((c) => (c.rollingLimits || []).map((l) => l.windowMs)),
+    ];
+    const keepMs = Math.max(2 * DAY_MS, ...windows);
+    this.ledger = this.ledger.filter((e) => e.ts >= now - keepMs);
+  }
+
+  private loadLedger(): void {
+    try {
+      if (!fs.existsSync(this.ledgerPath)) return;
+      const parsed = JSON.parse(fs.readFileSync(this.ledgerPath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        this.ledger = parsed as LedgerEntry[];
+      } else if (parsed && typeof parsed === 'object') {
+        // Legacy format: { 'YYYY-MM-DD': solSpent }
+        this.ledger = Object.entries(parsed as Record<string, number>).map(([day, amount]) => ({
+          ts: new Date(`${day}T00:00:00`).getTime(),
+          kind: 'SOL' as SpendKind,
+          amount: Number(amount) || 0,
+        }));
+      }
+    } catch {}
+  }
+
+  private saveLedger(): void {
+    try {
+      const dir = path.dirname(this.ledgerPath);
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.ledgerPath, JSON.stringify(this.ledger, null, 2), { mode: 0o600 });
+    } catch {}
+  }
+}
+
+/**
+ * Load the policy for an agent. The policy file looks like
+ *   { "default": { ... }, "agents": { "agent-alpha": { ... } } }
+ * and agent entries override the default field by field. MAX_SPEND_SOL_PER_TX
+ * and MAX_DAILY_SPEND_SOL remain as fallbacks when the file sets no caps.
+ */
+export function loadSpendPolicy(agentId: string, policyPath?: string): SpendPolicy {
+  const file = policyPath || process.env.SPEND_POLICY_PATH || path.resolve(process.cwd(), 'spend-policies.json');
+  let base: SpendPolicy = {};
+  let own: SpendPolicy = {};
+  if (fs.existsSync(file)) {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as {
+      default?: SpendPolicy;
+      agents?: Record<string, SpendPolicy>;
+    };
+    base = parsed.default || {};
+    own = parsed.agents?.[agentId] || {};
+  }
+  const policy: SpendPolicy = { ...base, ...own };
+  if (policy.maxPerTxSOL === undefined) {
+    policy.maxPerTxSOL = parseFloat(process.env.MAX_SPEND_SOL_PER_TX || '0');
+  }
+  if (policy.maxDailySOL === undefined) {
+    policy.maxDailySOL = parseFloat(process.env.MAX_DAILY_SPEND_SOL || '0');
+  }
+  return policy;
+}
+
+/** Token amounts summed per mint */
+function tokenTotals(tokens: TokenSpend[] = []): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const t of tokens) totals.set(t.mint, (totals.get(t.mint) || 0) + t.amount);
+  return totals;
+}
+
+function startOfDay(now: Date): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+function inWindow(w: ActiveWindow, now: Date): boolean {
+  const hour = w.utc ? now.getUTCHours() : now.getHours();
+  const day = w.utc ? now.getUTCDay() : now.getDay();
+  if (w.days && !w.days.includes(day)) return false;
+  return w.startHour <= w.endHour
+    ? hour >= w.startHour && hour < w.endHour
+    : hour >= w.startHour || hour < w.endHour;
+}
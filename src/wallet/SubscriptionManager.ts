@@ -0,0 +1,293 @@
+/**
+ * SubscriptionManager.ts
+ * Push-based balance tracking for every registered wallet.
+ *
+ * Each wallet gets three websocket subscriptions: its own account (SOL), the
+ * token accounts it owns under SPL Token and Token-2022 (one program
+ * subscription each, filtered by owner, so new token accounts are covered),
+ * and the logs that mention it (to spot incoming transfers). Changes are
+ * emitted on the wallet and on the manager:
+ *
+ *   balance_changed    SOL or a token account changed
+ *   incoming_transfer  a transaction paid for by someone else credited the wallet
+ *
+ * web3.js reconnects dropped websockets itself, but notifications sent while a
+ * socket was down are lost and a half-open socket never errors. A watchdog
+ * therefore re-reads every SOL balance over HTTP; a change nobody notified us
+ * about is emitted and all subscriptions are rebuilt on a fresh connection.
+ * The watchdog also picks up wallets added to or removed from the registry.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  AccountInfo,
+  Connection,
+  KeyedAccountInfo,
+  LAMPORTS_PER_SOL,
+  Logs,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from '@solana/spl-token';
+import type { AgentWallet } from './AgentWallet';
+import { accountTransaction } from './Accounting';
+import { MintDetails, resolveMint, toUiAmount } from '../utils/tokenProgram';
+import { createConnection } from '../utils/connection';
+import { logger } from '../utils/logger';
+
+export interface BalanceChange {
+  agentId: string;
+  kind: 'SOL' | 'token';
+  mint?: string;
+  account?: string;        // token account, for token changes
+  balance: number;         // SOL or token UI units
+  previous: number | null; // null when the account was not seen before
+  delta: number;
+  slot: number;
+  source: 'subscription' | 'watchdog';
+}
+
+export interface IncomingTransfer {
+  agentId: string;
+  signature: string;
+  from: string; // fee payer of the transaction
+  sol: number;  // net SOL credited (0 for token-only transfers)
+  tokens: Record<string, number>; // mint → UI amount credited
+  slot: number;
+}
+
+export interface SubscriptionOptions {
+  watchdogMs?: number;
+  connectionFactory?: () => Connection; // websocket connection; a fresh one is made on resubscribe
+}
+
+interface WalletSubscription {
+  wallet: AgentWallet;
+  account: number; // web3.js client subscription ids
+  logs: number;
+  tokens: number[];
+}
+
+const OWNER_OFFSET = 32; // token account layout: mint, owner, …
+const SEEN_SIGNATURES = 1000;
+
+export class SubscriptionManager extends EventEmitter {
+  private wallets: () => AgentWallet[];
+  private rpc: Connection; // HTTP reads (watchdog, parsed transactions)
+  private ws: Connection;
+  private connectionFactory: () => Connection;
+  private watchdogMs: number;
+  private subs = new Map<string, WalletSubscription>();
+  private sol = new Map<string, number>();         // agentId → lamports
+  private tokenBalances = new Map<string, number>(); // token account → UI amount
+  private mints = new Map<string, MintDetails>();
+  private seen = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private resubscribes = 0;
+
+  constructor(rpc: Connection, wallets: () => AgentWallet[], options: SubscriptionOptions = {}) {
+    super();
+    this.rpc = rpc;
+    this.wallets = wallets;
+    this.connectionFactory = options.connectionFactory || createConnection;
+    this.watchdogMs = options.watchdogMs ?? parseInt(process.env.SUBSCRIPTION_WATCHDOG_MS || '30000');
+    this.ws = this.connectionFactory();
+  }
+
+  /** Seed balances, subscribe every wallet and start the watchdog */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.poll(false);
+    for (const wallet of this.wallets()) this.subscribe(wallet);
+    let running = false;
+    this.timer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await this.watchdog();
+      } catch (err) {
+        logger.warn(`[Subscriptions] Watchdog failed: ${err}`);
+      }
+      running = false;
+    }, this.watchdogMs);
+    this.timer.unref();
+    logger.info(`[Subscriptions] Watching ${this.subs.size} wallet(s)`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await Promise.all(Array.from(this.subs.keys()).map((agentId) => this.unsubscribe(agentId)));
+  }
+
+  /** Subscribe a newly registered wallet right away instead of at the next watchdog pass */
+  watch(wallet: AgentWallet): void {
+    if (this.timer && !this.subs.has(wallet.agentId)) this.subscribe(wallet);
+  }
+
+  async unwatch(agentId: string): Promise<void> {
+    await this.unsubscribe(agentId);
+    this.sol.delete(agentId);
+  }
+
+  /** Last SOL balance seen, if any; lets readers skip an RPC call */
+  getBalance(agentId: string): number | undefined {
+    const lamports = this.sol.get(agentId);
+    return lamports === undefined ? undefined : lamports / LAMPORTS_PER_SOL;
+  }
+
+  getStats() {
+    return { wallets: this.subs.size, resubscribes: this.resubscribes };
+  }
+
+  // ─── Subscriptions ────────────────────────────────────────────────────────
+
+  private subscribe(wallet: AgentWallet): void {
+    const owner = wallet.pubkey;
+    this.subs.set(wallet.agentId, {
+      wallet,
+      account: this.ws.onAccountChange(
+        owner,
+        (info: AccountInfo<Buffer>, ctx) => this.onSol(wallet, info.lamports, ctx.slot, 'subscription'),
+        { commitment: 'confirmed' }
+      ),
+      logs: this.ws.onLogs(owner, (logs, ctx) => this.onLogs(wallet, logs, ctx.slot), 'confirmed'),
+      tokens: [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        this.ws.onProgramAccountChange(
+          programId,
+          (keyed, ctx) =>
+            this.onToken(wallet, keyed, ctx.slot).catch((err) =>
+              logger.warn(`[Subscriptions] Token update for ${wallet.agentId} failed: ${err}`)
+            ),
+          { commitment: 'confirmed', filters: [{ memcmp: { offset: OWNER_OFFSET, bytes: owner.toBase58() } }] }
+        )
+      ),
+    });
+  }
+
+  private async unsubscribe(agentId: string): Promise<void> {
+    const sub = this.subs.get(agentId);
+    if (!sub) return;
+    this.subs.delete(agentId);
+    // The socket may already be gone; a failed removal has nothing left to clean up
+    await Promise.all([
+      this.ws.removeAccountChangeListener(sub.account).catch(() => undefined),
+      this.ws.removeOnLogsListener(sub.logs).catch(() => undefined),
+      ...sub.tokens.map((id) => this.ws.removeProgramAccountChangeListener(id).catch(() => undefined)),
+    ]);
+  }
+
+  /** Drop every subscription and rebuild them on a new websocket connection */
+  private async resubscribe(): Promise<void> {
+    const wallets = Array.from(this.subs.values()).map((s) => s.wallet);
+    await Promise.all(wallets.map((w) => this.unsubscribe(w.agentId)));
+    this.ws = this.connectionFactory();
+    for (const wallet of wallets) this.subscribe(wallet);
+    this.resubscribes++;
+    logger.warn(`[Subscriptions] Resubscribed ${wallets.length} wallet(s) on a new connection`);
+  }
+
+  private async watchdog(): Promise<void> {
+    const current = new Map(this.wallets().map((w) => [w.agentId, w]));
+    for (const agentId of Array.from(this.subs.keys())) {
+      if (!current.has(agentId)) await this.unwatch(agentId);
+    }
+    for (const wallet of current.values()) this.watch(wallet);
+    if ((await this.poll(true)) > 0) await this.resubscribe();
+  }
+
+  /** Read every SOL balance over HTTP; returns how many changed without a notification */
+  private async poll(emit: boolean): Promise<number> {
+    const wallets = this.wallets();
+    if (wallets.length === 0) return 0;
+    const { context, value } = await this.rpc.getMultipleAccountsInfoAndContext(wallets.map((w) => w.pubkey));
+    let missed = 0;
+    wallets.forEach((wallet, i) => {
+      const lamports = value[i]?.lamports ?? 0;
+      if (!emit) this.sol.set(wallet.agentId, lamports);
+      else if (this.sol.get(wallet.agentId) !== lamports) {
+        missed++;
+        this.onSol(wallet, lamports, context.slot, 'watchdog');
+      }
+    });
+    return missed;
+  }
+
+  // ─── Notifications ────────────────────────────────────────────────────────
+
+  private onSol(wallet: AgentWallet, lamports: number, slot: number, source: BalanceChange['source']): void {
+    const previous = this.sol.get(wallet.agentId);
+    if (previous === lamports) return;
+    this.sol.set(wallet.agentId, lamports);
+    this.publish(wallet, 'balance_changed', {
+      agentId: wallet.agentId,
+      kind: 'SOL',
+      balance: lamports / LAMPORTS_PER_SOL,
+      previous: previous === undefined ? null : previous / LAMPORTS_PER_SOL,
+      delta: (lamports - (previous ?? 0)) / LAMPORTS_PER_SOL,
+      slot,
+      source,
+    } as BalanceChange);
+  }
+
+  private async onToken(wallet: AgentWallet, keyed: KeyedAccountInfo, slot: number): Promise<void> {
+    const address = keyed.accountId.toBase58();
+    const closed = keyed.accountInfo.lamports === 0 || keyed.accountInfo.data.length === 0;
+    const account = closed ? null : unpackAccount(keyed.accountId, keyed.accountInfo, keyed.accountInfo.owner);
+    const previous = this.tokenBalances.get(address);
+    let balance = 0;
+    if (account) {
+      const mint = account.mint.toBase58();
+      if (!this.mints.has(mint)) this.mints.set(mint, await resolveMint(this.rpc, account.mint));
+      balance = await toUiAmount(this.rpc, this.mints.get(mint)!, account.amount);
+    }
+    if (previous === balance) return;
+    if (closed) this.tokenBalances.delete(address);
+    else this.tokenBalances.set(address, balance);
+    this.publish(wallet, 'balance_changed', {
+      agentId: wallet.agentId,
+      kind: 'token',
+      mint: account?.mint.toBase58(),
+      account: address,
+      balance,
+      previous: previous ?? null,
+      delta: balance - (previous ?? 0),
+      slot,
+      source: 'subscription',
+    } as BalanceChange);
+  }
+
+  private onLogs(wallet: AgentWallet, logs: Logs, slot: number): void {
+    if (logs.err || this.seen.has(logs.signature)) return;
+    this.seen.add(logs.signature);
+    if (this.seen.size > SEEN_SIGNATURES) this.seen.delete(this.seen.values().next().value as string);
+    this.detectIncoming(wallet, logs.signature, slot).catch((err) =>
+      logger.warn(`[Subscriptions] Could not inspect ${logs.signature}: ${err}`)
+    );
+  }
+
+  private async detectIncoming(wallet: AgentWallet, signature: string, slot: number): Promise<void> {
+    const tx = await this.rpc.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx || !tx.meta) return;
+    const payer = tx.transaction.message.accountKeys[0].pubkey.toBase58();
+    if (payer === wallet.publicKey) return; // our own send
+    const accounting = await accountTransaction(this.rpc, tx, wallet.publicKey);
+    const tokens = Object.fromEntries(Object.entries(accounting.tokenDeltas || {}).filter(([, amount]) => amount > 0));
+    if (accounting.solDelta <= 0 && Object.keys(tokens).length === 0) return;
+    logger.info(`[Subscriptions] Incoming transfer to ${wallet.agentId} from ${payer}: ${signature}`);
+    this.publish(wallet, 'incoming_transfer', {
+      agentId: wallet.agentId,
+      signature,
+      from: payer,
+      sol: Math.max(0, accounting.solDelta),
+      tokens,
+      slot,
+    } as IncomingTransfer);
+  }
+
+  private publish(wallet: AgentWallet, event: string, payload: BalanceChange | IncomingTransfer): void {
+    wallet.emit(event, payload);
+    this.emit(event, payload);
+  }
+}
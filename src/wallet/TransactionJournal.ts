@@ -0,0 +1,131 @@
+/**
+ * TransactionJournal.ts
+ * Durable, append-only journal of agent transaction records.
+ *
+ * Each agent gets a JSONL file under .agent-keys/journal/. Lines are never
+ * rewritten: a status change appends a new version of the record, and the
+ * latest line for a given record id wins when the file is loaded.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TransactionRecord } from './AgentWallet';
+import { isAgentId } from './KeyStore';
+
+export type JournalRecord = TransactionRecord & { agentId: string };
+
+export interface JournalQuery {
+  agentId?: string;
+  status?: TransactionRecord['status'] | TransactionRecord['status'][];
+  type?: TransactionRecord['type'] | TransactionRecord['type'][];
+  mint?: string;
+  counterparty?: string; // matches either side of the transfer
+  since?: Date;
+  until?: Date;
+  limit?: number; // most recent N after filtering
+}
+
+interface CachedJournal {
+  records: Map<string, TransactionRecord>;
+  offset: number;  // bytes of complete lines read so far
+  mtimeMs: number;
+}
+
+const DEFAULT_DIR = path.resolve(process.cwd(), '.agent-keys', 'journal');
+
+export class TransactionJournal {
+  private dir: string;
+  private cache: Map<string, CachedJournal> = new Map();
+
+  constructor(dir: string = process.env.JOURNAL_DIR || DEFAULT_DIR) {
+    this.dir = dir;
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    }
+  }
+
+  /** Records for an agent, oldest first; appends from other processes are picked up */
+  load(agentId: string): TransactionRecord[] {
+    return Array.from(this.entries(agentId).values()).map((r) => ({ ...r }));
+  }
+
+  /** Append a new record or a new version of an existing one */
+  append(agentId: string, record: TransactionRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    fs.appendFileSync(this.filePath(agentId), line, { mode: 0o600 });
+    this.entries(agentId).set(record.id, { ...record });
+  }
+
+  /** List agent ids that have a journal on disk */
+  agents(): string[] {
+    return fs
+      .readdirSync(this.dir)
+      .filter((f) => f.endsWith('.jsonl'))
+      .map((f) => f.slice(0, -'.jsonl'.length))
+      .filter(isAgentId);
+  }
+
+  query(q: JournalQuery = {}): JournalRecord[] {
+    const agentIds = q.agentId ? [q.agentId] : this.agents();
+    const statuses = q.status === undefined ? null : ([] as string[]).concat(q.status);
+    const types = q.type === undefined ? null : ([] as string[]).concat(q.type);
+
+    const results: JournalRecord[] = [];
+    for (const agentId of agentIds) {
+      for (const r of this.load(agentId)) {
+        if (statuses && !statuses.includes(r.status)) continue;
+        if (types && !types.includes(r.type)) continue;
+        if (q.mint && r.token !== q.mint) continue;
+        if (q.counterparty && r.from !== q.counterparty && r.to !== q.counterparty) continue;
+        if (q.since && r.timestamp < q.since) continue;
+        if (q.until && r.timestamp > q.until) continue;
+        results.push({ ...r, agentId });
+      }
+    }
+    results.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return q.limit !== undefined ? results.slice(-q.limit) : results;
+  }
+
+  /** An agent's records, reading whatever was appended (by any process) since the last call */
+  private entries(agentId: string): Map<string, TransactionRecord> {
+    const file = this.filePath(agentId);
+    const stat = fs.existsSync(file) ? fs.statSync(file) : null;
+    const size = stat ? stat.size : 0;
+    let cached = this.cache.get(agentId);
+    // Appends only grow the file; a shorter or rewritten one is read again from the start
+    if (!cached || size < cached.offset || (size === cached.offset && stat?.mtimeMs !== cached.mtimeMs)) {
+      cached = { records: new Map(), offset: 0, mtimeMs: 0 };
+      this.cache.set(agentId, cached);
+    }
+
+    if (size > cached.offset) {
+      const buffer = Buffer.alloc(size - cached.offset);
+      const fd = fs.openSync(file, 'r');
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, cached.offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      // A line still being written is left for the next read
+      const end = buffer.lastIndexOf(0x0a) + 1;
+      for (const line of buffer.subarray(0, end).toString('utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const parsed = JSON.parse(line) as TransactionRecord;
+          parsed.timestamp = new Date(parsed.timestamp);
+          cached.records.set(parsed.id, parsed);
+        } catch {
+          // A torn line from a crash mid-write is skipped, not fatal
+        }
+      }
+      cached.offset += end;
+    }
+    cached.mtimeMs = stat ? stat.mtimeMs : 0;
+    return cached.records;
+  }
+
+  private filePath(agentId: string): string {
+    if (!isAgentId(agentId)) throw new Error(`Invalid agent id: ${agentId}`);
+    return path.join(this.dir, `${agentId}.jsonl`);
+  }
+}
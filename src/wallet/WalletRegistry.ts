@@ -1,13 +1,25 @@
 /**
  * WalletRegistry.ts
  * Central registry for managing multiple independent agent wallets.
- * Supports creating, retrieving, and broadcasting across all agents.
+ * Supports creating, retrieving, and broadcasting across all agents, and
+ * short-lived session sub-wallets funded from (and swept back to) a parent.
+ * Optionally keeps balances current over websocket subscriptions.
+ * Works with any KeyStore, including a RemoteKeyStore whose keys live in a
+ * signer daemon.
  */
 
 import { Connection } from '@solana/web3.js';
-import { AgentWallet, WalletConfig } from './AgentWallet';
+import { AgentWallet, KeyRotation, WalletConfig } from './AgentWallet';
 import { KeyStore } from './KeyStore';
+import { TransactionJournal, JournalQuery, JournalRecord } from './TransactionJournal';
+import { ReconcileReport } from './Reconciler';
+import { ApprovalPending, ApprovalQueue } from './ApprovalQueue';
+import { SessionStore, WalletSession } from './SessionWallets';
+import { SpendPolicy } from './SpendPolicy';
+import { BalanceChange, SubscriptionManager } from './SubscriptionManager';
+import { AddressBook } from './AddressBook';
 import { PublicKey } from '@solana/web3.js';
+import { randomUUID } from 'crypto';
 import { metrics } from '../metrics/Metrics';
 import { logger } from '../utils/logger';
 
@@ -15,14 +27,32 @@ export class WalletRegistry {
   private wallets: Map<string, AgentWallet> = new Map();
   private connection: Connection;
   private keyStore: KeyStore;
+  private journal: TransactionJournal;
+  private approvals: ApprovalQueue;
+  private approvalTimer: NodeJS.Timeout | null = null;
+  private sessions: SessionStore;
+  private sessionTimer: NodeJS.Timeout | null = null;
+  private subscriptions: SubscriptionManager | null = null;
+  private addressBook: AddressBook;
 
-  constructor(connection: Connection, keyStore: KeyStore) {
+  constructor(
+    connection: Connection,
+    keyStore: KeyStore,
+    journal?: TransactionJournal,
+    approvals?: ApprovalQueue,
+    sessions?: SessionStore,
+    addressBook?: AddressBook
+  ) {
     this.connection = connection;
     this.keyStore = keyStore;
+    this.journal = journal || new TransactionJournal();
+    this.approvals = approvals || new ApprovalQueue();
+    this.sessions = sessions || new SessionStore();
+    this.addressBook = addressBook || new AddressBook();
   }
 
   /** Create or load a wallet for a given agent ID */
-  getOrCreate(agentId: string, label?: string): AgentWallet {
+  getOrCreate(agentId: string, label?: string, policy?: SpendPolicy): AgentWallet {
     if (this.wallets.has(agentId)) {
       return this.wallets.get(agentId)!;
     }
@@ -31,11 +61,25 @@ export class WalletRegistry {
       connection: this.connection,
       keyManager: this.keyStore,
       label,
+      policy,
+      journal: this.journal,
+      approvals: this.approvals,
+      addressBook: this.addressBook,
+      sessionParent: () => this.sessionParentOf(agentId),
     });
     this.wallets.set(agentId, wallet);
+    this.subscriptions?.watch(wallet);
     return wallet;
   }
 
+  /** Like getOrCreate, but a new key is generated by the KeyStore itself (required for a RemoteKeyStore) */
+  async create(agentId: string, label?: string, policy?: SpendPolicy): Promise<AgentWallet> {
+    if (!this.wallets.has(agentId) && !this.keyStore.hasKey(agentId)) {
+      await this.keyStore.createKey(agentId, label);
+    }
+    return this.getOrCreate(agentId, label, policy);
+  }
+
   get(agentId: string): AgentWallet | undefined {
     return this.wallets.get(agentId);
   }
@@ -46,12 +90,28 @@ export class WalletRegistry {
 
   remove(agentId: string): void {
     this.wallets.delete(agentId);
+    void this.subscriptions?.unwatch(agentId);
     logger.info(`[Registry] Removed wallet for agent ${agentId}`);
   }
 
-  /** Restore all previously created wallets from disk */
+  /** Rotate an agent's keypair (see AgentWallet.rotateKey), moving its subscriptions to the new address */
+  async rotateAgentKey(agentId: string): Promise<KeyRotation> {
+    if (!this.keyStore.hasKey(agentId)) throw new Error(`No key for agent ${agentId}`);
+    const wallet = this.getOrCreate(agentId);
+    await this.subscriptions?.unwatch(agentId);
+    try {
+      return await wallet.rotateKey();
+    } finally {
+      this.subscriptions?.watch(wallet);
+    }
+  }
+
+  /** Restore all previously created wallets (and their journaled history) from disk */
   restoreAll(): number {
-    const metas = this.keyStore.listKeys();
+    // Retired and half-rotated keys are not agents of their own, nor are session children
+    // (the session sweeper loads those when it closes them)
+    const children = new Set(this.sessions.list().filter((s) => s.status !== 'closed').map((s) => s.agentId));
+    const metas = this.keyStore.listKeys().filter((m) => !m.retiredAt && !m.replaces && !children.has(m.agentId));
     let restored = 0;
     for (const meta of metas) {
       if (!this.wallets.has(meta.agentId)) {
@@ -63,20 +123,250 @@ export class WalletRegistry {
     return restored;
   }
 
-  /** Snapshot balances for all registered wallets */
+  /**
+   * Snapshot balances for all registered wallets (virtual ones in paper mode);
+   * served from subscriptions when they cover every wallet
+   */
   async snapshotBalances(): Promise<{ agentId: string; label: string; sol: number }[]> {
     const wallets = this.getAll();
+    const cached = wallets.map((w) => this.subscriptions?.getBalance(w.agentId));
+    if (this.subscriptions && cached.every((sol) => sol !== undefined)) {
+      return wallets.map((w, i) => ({
+        agentId: w.agentId,
+        label: w.getSummary().label,
+        sol: cached[i]! + w.getPaperOverlay().sol,
+      }));
+    }
     const pubkeys = wallets.map((w) => new PublicKey(w.publicKey));
     const infos = await this.connection.getMultipleAccountsInfo(pubkeys);
     const results = wallets.map((w, i) => ({
       agentId: w.agentId,
       label: w.getSummary().label,
-      sol: infos[i]?.lamports ? infos[i]!.lamports / 1_000_000_000 : 0,
+      sol: (infos[i]?.lamports ? infos[i]!.lamports / 1_000_000_000 : 0) + w.getPaperOverlay().sol,
     }));
     for (const r of results) metrics.setBalance(r.agentId, r.sol);
     return results;
   }
 
+  /** Reconcile every registered wallet against the ledger, one at a time to spare the RPC */
+  async reconcileAll(): Promise<ReconcileReport[]> {
+    const reports: ReconcileReport[] = [];
+    for (const wallet of this.getAll()) {
+      try {
+        reports.push(await wallet.reconcile());
+      } catch (err) {
+        logger.warn(`[Registry] Reconcile failed for ${wallet.agentId}: ${err}`);
+      }
+    }
+    return reports;
+  }
+
+  /** Query journaled transactions across all agents, including ones not loaded yet */
+  queryTransactions(query: JournalQuery = {}): JournalRecord[] {
+    return this.journal.query(query);
+  }
+
+  getApprovalQueue(): ApprovalQueue {
+    return this.approvals;
+  }
+
+  getAddressBook(): AddressBook {
+    return this.addressBook;
+  }
+
+  /** Periodically let every wallet execute approved requests and report decisions */
+  startApprovalPoller(intervalMs = parseInt(process.env.APPROVAL_POLL_MS || '5000')): void {
+    if (this.approvalTimer) return;
+    let running = false;
+    this.approvalTimer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      for (const wallet of this.getAll()) {
+        try {
+          await wallet.processApprovals();
+        } catch (err) {
+          logger.warn(`[Registry] Approval processing failed for ${wallet.agentId}: ${err}`);
+        }
+      }
+      running = false;
+    }, intervalMs);
+    this.approvalTimer.unref();
+  }
+
+  stopApprovalPoller(): void {
+    if (this.approvalTimer) clearInterval(this.approvalTimer);
+    this.approvalTimer = null;
+  }
+
+  // ─── Session sub-wallets ──────────────────────────────────────────────────
+
+  /**
+   * Create a child wallet for `parentId`, fund it with `budgetSOL` from the parent
+   * (a normal parent spend, so the parent's policy applies) and return it. The
+   * child runs under `policy`, or the parent's policy by default. After `ttlMs`
+   * the session sweeper returns what is left to the parent and deletes the key.
+   */
+  async openSession(
+    parentId: string,
+    options: { budgetSOL: number; ttlMs: number; label?: string; policy?: SpendPolicy }
+  ): Promise<{ session: WalletSession; wallet: AgentWallet }> {
+    const parent = this.wallets.get(parentId);
+    if (!parent) throw new Error(`No wallet registered for ${parentId}`);
+    if (!(options.budgetSOL > 0)) throw new Error('Session budget must be positive');
+    // Funding would be simulated but the close sweeps (and deletes the key) for real
+    if (parent.paper) throw new Error('Session sub-wallets are not available in paper mode');
+
+    const id = randomUUID();
+    const agentId = `${parentId}-session-${id.slice(0, 8)}`;
+    const wallet = await this.create(
+      agentId,
+      options.label || `${parent.getSummary().label} session`,
+      options.policy || parent.getSpendPolicy()
+    );
+
+    let fundingSignature: string;
+    try {
+      fundingSignature = await parent.sendSOL(wallet.publicKey, options.budgetSOL);
+    } catch (err) {
+      // An approval that lands after the key is gone would strand the funds
+      if (err instanceof ApprovalPending) this.approvals.reject(err.request.id, 'system', 'Session was not opened');
+      this.remove(agentId);
+      await this.keyStore.deleteKey(agentId);
+      throw err;
+    }
+
+    const now = Date.now();
+    const session: WalletSession = {
+      id,
+      parentId,
+      agentId,
+      publicKey: wallet.publicKey,
+      budgetSOL: options.budgetSOL,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + options.ttlMs).toISOString(),
+      status: 'active',
+      fundingSignature,
+    };
+    this.sessions.save(session);
+    parent.emit('session_opened', session);
+    logger.info(`[Registry] Opened session ${agentId} with ${options.budgetSOL} SOL until ${session.expiresAt}`);
+    return { session, wallet };
+  }
+
+  /**
+   * Sweep a session's balances back to its parent and delete the child key.
+   * If anything is left behind the key is kept, the session is marked
+   * sweep_failed and the sweeper retries it.
+   */
+  async closeSession(id: string): Promise<WalletSession> {
+    const session = this.sessions.get(id);
+    if (session.status === 'closed') return session;
+    for (const agentId of [session.parentId, session.agentId]) {
+      if (!this.keyStore.hasKey(agentId)) throw new Error(`Session ${id}: no key for ${agentId}`);
+    }
+    const parent = this.getOrCreate(session.parentId);
+    const child = this.getOrCreate(session.agentId);
+
+    const result = await child.sweepTo(parent.publicKey);
+    const next: WalletSession = {
+      ...session,
+      sweptSOL: (session.sweptSOL || 0) + result.sol,
+      sweepSignatures: [...(session.sweepSignatures || []), ...result.signatures],
+    };
+    if (result.complete) {
+      this.remove(session.agentId);
+      try {
+        await this.keyStore.deleteKey(session.agentId);
+        next.status = 'closed';
+        next.closedAt = new Date().toISOString();
+        next.error = undefined;
+      } catch (err) {
+        // Keep this sweep's results; the retry finds nothing left and deletes the key again
+        next.status = 'sweep_failed';
+        next.error = `Deleting the key failed: ${err instanceof Error ? err.message : err}`;
+      }
+      if (next.status === 'closed') {
+        logger.info(`[Registry] Closed session ${session.agentId}; swept ${result.sol} SOL to ${session.parentId}`);
+        parent.emit('session_closed', next);
+      } else {
+        logger.warn(`[Registry] Session ${session.agentId} swept but not closed: ${next.error}`);
+      }
+    } else {
+      next.status = 'sweep_failed';
+      next.error = result.error;
+      logger.warn(`[Registry] Sweep of session ${session.agentId} incomplete: ${result.error}`);
+      parent.emit('session_sweep_failed', next);
+    }
+    this.sessions.save(next);
+    return next;
+  }
+
+  /** The parent's address while `agentId` is the child of an open session; its only sweep target */
+  private sessionParentOf(agentId: string): string | undefined {
+    const session = this.sessions.list().find((s) => s.agentId === agentId && s.status !== 'closed');
+    return session && this.keyStore.getPublicKey(session.parentId);
+  }
+
+  listSessions(parentId?: string): WalletSession[] {
+    return this.sessions.list({ parentId });
+  }
+
+  /** Close expired sessions (and retry failed sweeps); returns the sessions handled */
+  async sweepExpiredSessions(now: Date = new Date()): Promise<WalletSession[]> {
+    const handled: WalletSession[] = [];
+    for (const session of this.sessions.due(now)) {
+      try {
+        handled.push(await this.closeSession(session.id));
+      } catch (err) {
+        logger.warn(`[Registry] Closing session ${session.agentId} failed: ${err}`);
+        // The stored record, not the one due() returned, carries any sweep closeSession already saved
+        this.sessions.save({ ...this.sessions.get(session.id), status: 'sweep_failed', error: String(err) });
+      }
+    }
+    return handled;
+  }
+
+  startSessionSweeper(intervalMs = parseInt(process.env.SESSION_SWEEP_MS || '30000')): void {
+    if (this.sessionTimer) return;
+    let running = false;
+    this.sessionTimer = setInterval(async () => {
+      if (running) return;
+      running = true;
+      await this.sweepExpiredSessions();
+      running = false;
+    }, intervalMs);
+    this.sessionTimer.unref();
+  }
+
+  stopSessionSweeper(): void {
+    if (this.sessionTimer) clearInterval(this.sessionTimer);
+    this.sessionTimer = null;
+  }
+
+  /**
+   * Subscribe to balance changes for every registered wallet (including ones
+   * registered later); wallets then emit balance_changed and incoming_transfer.
+   */
+  async startSubscriptions(): Promise<SubscriptionManager> {
+    if (this.subscriptions) return this.subscriptions;
+    const subscriptions = new SubscriptionManager(this.connection, () => this.getAll());
+    subscriptions.on('balance_changed', (change: BalanceChange) => {
+      if (change.kind === 'SOL') metrics.setBalance(change.agentId, change.balance);
+    });
+    await subscriptions.start();
+    this.subscriptions = subscriptions;
+    return subscriptions;
+  }
+
+  getSubscriptions(): SubscriptionManager | null {
+    return this.subscriptions;
+  }
+
+  async stopSubscriptions(): Promise<void> {
+    await this.subscriptions?.stop();
+    this.subscriptions = null;
+  }
+
   count(): number {
     return this.wallets.size;
   }